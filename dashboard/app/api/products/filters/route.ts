@@ -1,46 +1,17 @@
 import { NextResponse } from 'next/server'
+import type { DeviceModel } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { loadCategories, modelGroups } from '@/lib/categories'
+import { getDeviceModels } from '@/lib/device-models'
 
 export const dynamic = 'force-dynamic'
 
-// Valid iPhone models (iPhone 13-17 series only)
-// Based on enrich.ts validation rules
-const VALID_IPHONE_MODELS = [
-  // iPhone 13 series
-  'iPhone 13',
-  'iPhone 13 Mini',
-  'iPhone 13 mini',
-  'iPhone 13 Pro',
-  'iPhone 13 Pro Max',
-  // iPhone 14 series
-  'iPhone 14',
-  'iPhone 14 Plus',
-  'iPhone 14 Pkus', // Common typo
-  'iPhone 14 Pro',
-  'iPhone 14 Pro Max',
-  // iPhone 15 series
-  'iPhone 15',
-  'iPhone 15 Plus',
-  'iPhone 15 Pro',
-  'iPhone 15 pro', // Case variation
-  'iPhone 15 Pro Max',
-  // iPhone 16 series
-  'iPhone 16',
-  'iPhone 16 Plus',
-  'iPhone 16 Pro',
-  'iPhone 16 Pro Max',
-  'iPhone 16e',
-  // iPhone 17 series
-  'iPhone 17',
-  'iPhone 17 Pro',
-  'iPhone 17 Pro Max',
-  'iPhone Air',
-]
-
 export async function GET() {
   try {
+    const definitions = loadCategories()
+
     // Fetch distinct values from the database
-    const [models, colors, warranties, conditions, sellers, priceStats, storageStats, batteryStats, imageCountStats] =
+    const [models, categories, colors, warranties, conditions, sellers, priceStats, storageStats, batteryStats, imageCountStats] =
       await Promise.all([
         // Distinct model names (excluding nulls)
         prisma.product.findMany({
@@ -50,11 +21,18 @@ export async function GET() {
           orderBy: { modelName: 'asc' },
         }),
 
-        // Distinct colors (excluding nulls)
+        // Distinct categories (excluding nulls)
+        prisma.product.findMany({
+          where: { category: { not: null } },
+          select: { category: true },
+          distinct: ['category'],
+        }),
+
+        // Distinct colors per model (excluding nulls)
         prisma.product.findMany({
-          where: { color: { not: null } },
-          select: { color: true },
-          distinct: ['color'],
+          where: { color: { not: null }, modelName: { not: null } },
+          select: { modelName: true, color: true },
+          distinct: ['modelName', 'color'],
           orderBy: { color: 'asc' },
         }),
 
@@ -125,14 +103,44 @@ export async function GET() {
       })
       .filter((v): v is number => v !== null)
 
-    // Filter models to only include valid iPhone 13-17 models
-    const validModels = models
-      .map((m) => m.modelName)
-      .filter((m): m is string => m !== null && VALID_IPHONE_MODELS.includes(m))
+    // Categories that are active or still have products
+    const presentCategories = new Set(categories.map((c) => c.category))
+    const shownCategories = definitions.filter(
+      (c) => c.active || presentCategories.has(c.id)
+    )
+
+    // Models and colors come from the device catalog, in catalog order: models
+    // that have products, and the official colors products have. Models the
+    // catalog lists no colors for offer whatever colors their products have.
+    // Model names outside the catalog (flagged by enrich) are listed apart as
+    // unmatched, with their products' colors, so they can still be found.
+    const deviceModels = await getDeviceModels(shownCategories.map((c) => c.id))
+    const catalogByName = new Map<string, DeviceModel>(
+      deviceModels.map((model) => [model.canonicalName, model])
+    )
+    const presentModels = new Set(models.map((m) => m.modelName))
+    const validModels = deviceModels
+      .map((model) => model.canonicalName)
+      .filter((name) => presentModels.has(name))
+    const unmatchedModels = Array.from(presentModels)
+      .filter((name): name is string => !!name && name !== 'EXCLUDE' && !catalogByName.has(name))
+      .sort()
+    const unmatched = new Set(unmatchedModels)
+    const validColors = new Set<string>()
+    for (const { modelName, color } of colors) {
+      if (!modelName || !color) continue
+      const model = catalogByName.get(modelName)
+      if (model ? model.colors.length === 0 || model.colors.includes(color) : unmatched.has(modelName)) {
+        validColors.add(color)
+      }
+    }
 
     const response = {
       models: validModels,
-      colors: colors.map((c) => c.color).filter(Boolean) as string[],
+      unmatchedModels,
+      categories: shownCategories.map((c) => ({ id: c.id, label: c.label })),
+      modelGroups: modelGroups(shownCategories),
+      colors: Array.from(validColors).sort(),
       warranties: warranties.map((w) => w.warranty).filter(Boolean) as string[],
       conditions: conditions.map((c) => c.condition).filter(Boolean) as string[],
       sellers: sellers.map((s) => ({
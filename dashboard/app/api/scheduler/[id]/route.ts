@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { validateSchedule, withNextRuns } from '@/lib/scheduler'
+
+export const dynamic = 'force-dynamic'
+
+// PUT - Replace a schedule, e.g. to edit or pause it
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const id = Number(params.id)
+    if (!Number.isInteger(id) || !(await prisma.pipelineSchedule.findUnique({ where: { id } }))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const result = await validateSchedule(body, id)
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const schedule = await prisma.pipelineSchedule.update({ where: { id }, data: result.data })
+    return NextResponse.json(withNextRuns(schedule))
+  } catch (error) {
+    console.error('Error updating schedule:', error)
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a schedule; runs it queued keep their schedule id
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const id = Number(params.id)
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    const deleted = await prisma.pipelineSchedule.deleteMany({ where: { id } })
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting schedule:', error)
+    return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 })
+  }
+}
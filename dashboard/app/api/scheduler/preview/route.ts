@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { cronError, isValidTimezone, nextRuns } from '@/lib/scheduler'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Next fire times of a cron expression in a time zone, for the schedule editor
+// Body: { cronExpr, timezone }
+export async function POST(request: Request) {
+  try {
+    const { cronExpr, timezone } = await request.json()
+
+    if (typeof cronExpr !== 'string' || !cronExpr.trim()) {
+      return NextResponse.json({ error: 'cronExpr must be a non-empty string' }, { status: 400 })
+    }
+    const invalidCron = cronError(cronExpr.trim())
+    if (invalidCron) {
+      return NextResponse.json({ error: invalidCron }, { status: 400 })
+    }
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      return NextResponse.json({ error: 'Unknown time zone' }, { status: 400 })
+    }
+
+    return NextResponse.json({ nextRuns: nextRuns(cronExpr.trim(), timezone) })
+  } catch (error) {
+    console.error('Error previewing schedule:', error)
+    return NextResponse.json({ error: 'Failed to preview schedule' }, { status: 500 })
+  }
+}
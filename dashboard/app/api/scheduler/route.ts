@@ -1,48 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { scraperService } from '@/lib/scraper-service'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { listSchedules, validateSchedule, withNextRuns } from '@/lib/scheduler'
 
+export const dynamic = 'force-dynamic'
+
+// GET - All schedules with their next fire times
 export async function GET() {
   try {
-    const config = await scraperService.getSchedulerConfig()
-    return NextResponse.json(config)
+    const schedules = await listSchedules()
+    return NextResponse.json(schedules)
   } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to get scheduler config' },
-      { status: 500 }
-    )
+    console.error('Error fetching schedules:', error)
+    return NextResponse.json({ error: 'Failed to fetch schedules' }, { status: 500 })
   }
 }
 
-export async function POST(request: NextRequest) {
+// POST - Create a schedule; the worker picks it up on its next poll
+// Body: { name, cronExpr, timezone, enabled?, target: ALL|TAG|STEPS, sellerTag?, firstStep?, lastStep? }
+export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { enabled, cronExpr } = body
-
-    if (typeof enabled !== 'boolean') {
-      return NextResponse.json(
-        { error: 'enabled must be a boolean' },
-        { status: 400 }
-      )
+    const result = await validateSchedule(body)
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
     }
 
-    if (typeof cronExpr !== 'string' || !cronExpr.trim()) {
-      return NextResponse.json(
-        { error: 'cronExpr must be a non-empty string' },
-        { status: 400 }
-      )
-    }
-
-    await scraperService.updateSchedulerConfig(enabled, cronExpr)
-    const config = await scraperService.getSchedulerConfig()
-
-    return NextResponse.json({
-      success: true,
-      config,
-    })
+    const schedule = await prisma.pipelineSchedule.create({ data: result.data })
+    return NextResponse.json(withNextRuns(schedule), { status: 201 })
   } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to update scheduler config' },
-      { status: 500 }
-    )
+    console.error('Error creating schedule:', error)
+    return NextResponse.json({ error: 'Failed to create schedule' }, { status: 500 })
   }
 }
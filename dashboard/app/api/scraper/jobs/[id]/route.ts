@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { cancelJob } from '@/lib/pipeline-jobs'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE - Cancel a job: a queued one is dropped, a running one is stopped by the worker
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const jobId = Number(params.id)
+    if (!Number.isInteger(jobId) || jobId <= 0) {
+      return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+    }
+
+    const cancelled = await cancelJob(jobId)
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Job already finished' }, { status: 409 })
+    }
+
+    return NextResponse.json({ cancelled })
+  } catch (error) {
+    console.error('Error cancelling pipeline job:', error)
+    return NextResponse.json({ error: 'Failed to cancel pipeline job' }, { status: 500 })
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { listJobs } from '@/lib/pipeline-jobs'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Recent pipeline jobs, queued ones included
+export async function GET() {
+  try {
+    const jobs = await listJobs()
+    // The live state is large and only matters for the running job, see /api/scraper/start
+    return NextResponse.json(jobs.map(({ live: _live, ...job }) => job))
+  } catch (error) {
+    console.error('Error fetching pipeline jobs:', error)
+    return NextResponse.json({ error: 'Failed to fetch pipeline jobs' }, { status: 500 })
+  }
+}
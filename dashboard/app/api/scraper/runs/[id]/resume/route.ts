@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { enqueueResume } from '@/lib/pipeline-jobs'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Queue an interrupted or failed run to resume from the step after its last completed one
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const runId = Number(params.id)
+    if (!Number.isInteger(runId) || runId <= 0) {
+      return NextResponse.json({ error: 'Invalid run id' }, { status: 400 })
+    }
+
+    const result = await enqueueResume(runId)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ jobId: result.jobId, message: 'Run queued to resume' })
+  } catch (error) {
+    console.error('Error resuming run:', error)
+    return NextResponse.json({ error: 'Failed to resume run' }, { status: 500 })
+  }
+}
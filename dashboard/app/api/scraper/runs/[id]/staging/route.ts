@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ACTIVE_RUN_STATUSES, RESUMABLE_RUN_STATUSES } from '@/lib/pipeline-runs'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_PRODUCTS = 200
+
+type StagedSellerResult = {
+  name?: string
+  productsTotal?: number
+  productsMatched?: number
+  durationMs?: number
+  error?: string
+  session?: string
+}
+
+type StagedRawProduct = {
+  name?: string
+  priceFormatted?: string
+  category?: string
+}
+
+// GET - What a run has staged: per-seller scrape results and its products with their enrichment
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const runId = Number(params.id)
+    if (!Number.isInteger(runId) || runId <= 0) {
+      return NextResponse.json({ error: 'Invalid run id' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sellerPhone = searchParams.get('sellerPhone') || undefined
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), MAX_PRODUCTS)
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
+
+    const run = await prisma.scraperRun.findUnique({
+      where: { id: runId },
+      select: { id: true, status: true, startedAt: true },
+    })
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    const productWhere = { runId, ...(sellerPhone ? { sellerPhone } : {}) }
+    const [sellers, productCount, enrichedCount, failedCount, products] = await Promise.all([
+      prisma.stagedSeller.findMany({ where: { runId }, orderBy: { sellerPhone: 'asc' } }),
+      prisma.stagedProduct.count({ where: productWhere }),
+      prisma.stagedProduct.count({
+        where: { ...productWhere, enrichedAt: { not: null }, enrichmentError: null },
+      }),
+      prisma.stagedProduct.count({ where: { ...productWhere, enrichmentError: { not: null } } }),
+      prisma.stagedProduct.findMany({
+        where: productWhere,
+        orderBy: [{ sellerPhone: 'asc' }, { productId: 'asc' }],
+        skip: offset,
+        take: limit,
+      }),
+    ])
+
+    return NextResponse.json({
+      run,
+      summary: {
+        sellers: sellers.length,
+        processed: sellers.filter((s) => s.processedAt).length,
+        products: productCount,
+        enriched: enrichedCount,
+        enrichFailed: failedCount,
+      },
+      sellers: sellers.map((s) => {
+        const result = s.result as StagedSellerResult
+        return {
+          sellerPhone: s.sellerPhone,
+          name: result.name ?? null,
+          outcome: s.outcome,
+          productsTotal: result.productsTotal ?? 0,
+          productsMatched: result.productsMatched ?? 0,
+          durationMs: result.durationMs ?? null,
+          error: result.error ?? null,
+          session: result.session ?? null,
+          stagedAt: s.stagedAt,
+          processedAt: s.processedAt,
+        }
+      }),
+      products: products.map((p) => {
+        const raw = p.raw as StagedRawProduct
+        return {
+          productId: p.productId,
+          sellerPhone: p.sellerPhone,
+          name: raw.name ?? null,
+          priceFormatted: raw.priceFormatted ?? null,
+          category: raw.category ?? null,
+          enrichment: p.enrichment,
+          enrichedAt: p.enrichedAt,
+          enrichmentError: p.enrichmentError,
+        }
+      }),
+      offset,
+      limit,
+    })
+  } catch (error) {
+    console.error('Error fetching staged run data:', error)
+    return NextResponse.json({ error: 'Failed to fetch staged run data' }, { status: 500 })
+  }
+}
+
+// DELETE - Discard what a stopped run staged; resuming it then starts over from its first step
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const runId = Number(params.id)
+    if (!Number.isInteger(runId) || runId <= 0) {
+      return NextResponse.json({ error: 'Invalid run id' }, { status: 400 })
+    }
+
+    const run = await prisma.scraperRun.findUnique({
+      where: { id: runId },
+      select: { id: true, status: true },
+    })
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+    if (ACTIVE_RUN_STATUSES.includes(run.status)) {
+      return NextResponse.json({ error: 'Run is still in progress' }, { status: 409 })
+    }
+
+    const [products, sellers] = await prisma.$transaction([
+      prisma.stagedProduct.deleteMany({ where: { runId } }),
+      prisma.stagedSeller.deleteMany({ where: { runId } }),
+      prisma.scraperRun.update({
+        where: { id: runId },
+        data: RESUMABLE_RUN_STATUSES.includes(run.status) ? { lastCompletedStep: null } : {},
+      }),
+    ])
+
+    return NextResponse.json({ sellers: sellers.count, products: products.count })
+  } catch (error) {
+    console.error('Error discarding staged run data:', error)
+    return NextResponse.json({ error: 'Failed to discard staged run data' }, { status: 500 })
+  }
+}
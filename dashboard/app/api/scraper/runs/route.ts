@@ -10,7 +10,22 @@ export async function GET() {
       take: 50,
     })
 
-    return NextResponse.json(runs)
+    // Name of the schedule behind scheduled runs, for the run history
+    const scheduleIds = Array.from(
+      new Set(runs.map((run) => run.scheduleId).filter((id): id is number => id !== null))
+    )
+    const schedules = await prisma.pipelineSchedule.findMany({
+      where: { id: { in: scheduleIds } },
+      select: { id: true, name: true },
+    })
+    const scheduleNames = new Map(schedules.map((schedule) => [schedule.id, schedule.name]))
+
+    return NextResponse.json(
+      runs.map((run) => ({
+        ...run,
+        scheduleName: run.scheduleId !== null ? (scheduleNames.get(run.scheduleId) ?? null) : null,
+      }))
+    )
   } catch (error) {
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to fetch runs' },
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+
+export const dynamic = 'force-dynamic'
+
+// PUT - Enable or disable a session in the pool
+export async function PUT(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const body = await request.json()
+
+    if (typeof body.enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 })
+    }
+
+    const existing = await prisma.whatsappSession.findUnique({ where: { name: params.name } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const session = await prisma.whatsappSession.update({
+      where: { name: params.name },
+      data: { enabled: body.enabled },
+    })
+
+    return NextResponse.json(session)
+  } catch (error) {
+    console.error('Error updating session:', error)
+    return NextResponse.json({ error: 'Failed to update session' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a session from the pool. Its token and browser profile stay
+// on disk, so re-adding it under the same name does not need a new QR scan.
+export async function DELETE(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const existing = await prisma.whatsappSession.findUnique({ where: { name: params.name } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    await prisma.whatsappSession.delete({ where: { name: params.name } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting session:', error)
+    return NextResponse.json({ error: 'Failed to delete session' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { SESSION_NAME_PATTERN, getSessionHealth } from '@/lib/session-health'
+import { getPipelineStatus } from '@/lib/pipeline-jobs'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Recorded health of each WhatsApp session plus the login state of the current run
+export async function GET() {
+  try {
+    const [sessions, status] = await Promise.all([getSessionHealth(), getPipelineStatus()])
+
+    return NextResponse.json({
+      sessions,
+      live: {
+        isRunning: status.isRunning,
+        currentStep: status.currentStep,
+        sessions: status.sessions,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching session health:', error)
+    return NextResponse.json({ error: 'Failed to fetch session health' }, { status: 500 })
+  }
+}
+
+// POST - Register another WhatsApp session; it is logged in (QR scan) on the next run
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim().toLowerCase() : ''
+
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      return NextResponse.json(
+        { error: 'name must be 1-100 lowercase letters, digits, "-" or "_"' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.whatsappSession.findUnique({ where: { name } })
+    if (existing) {
+      return NextResponse.json({ error: `Session ${name} already exists` }, { status: 409 })
+    }
+
+    const session = await prisma.whatsappSession.create({ data: { name, enabled: true } })
+    return NextResponse.json(session, { status: 201 })
+  } catch (error) {
+    console.error('Error creating session:', error)
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 500 })
+  }
+}
@@ -1,17 +1,18 @@
 import { NextResponse } from 'next/server'
-import { scraperService } from '@/lib/scraper-service'
+import { cancelJob, enqueueSteps, getPipelineStatus, getRunningJob } from '@/lib/pipeline-jobs'
 
 export const dynamic = 'force-dynamic'
 
+// POST - Queue a full pipeline run for the worker
 export async function POST() {
   try {
-    const result = await scraperService.startScraper('MANUAL')
+    const result = await enqueueSteps('MANUAL', 'scrape', 'process')
 
     if (result.error) {
       return NextResponse.json({ error: result.error }, { status: 400 })
     }
 
-    return NextResponse.json({ runId: result.runId, message: 'Scraper started' })
+    return NextResponse.json({ jobId: result.jobId, message: 'Scraper queued' })
   } catch (error) {
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to start scraper' },
@@ -20,9 +21,11 @@ export async function POST() {
   }
 }
 
+// DELETE - Cancel the running job; the worker stops it
 export async function DELETE() {
   try {
-    const stopped = scraperService.stopScraper()
+    const job = await getRunningJob()
+    const stopped = job ? await cancelJob(job.id) : false
     return NextResponse.json({ stopped })
   } catch (error) {
     return NextResponse.json(
@@ -33,9 +36,21 @@ export async function DELETE() {
 }
 
 export async function GET() {
-  return NextResponse.json({
-    isRunning: scraperService.isRunning(),
-    currentRunId: scraperService.getCurrentRunId(),
-    currentStep: scraperService.getCurrentStep(),
-  })
+  try {
+    const { isRunning, currentJobId, currentRunId, currentStep, progress, queuedJobs } =
+      await getPipelineStatus()
+    return NextResponse.json({
+      isRunning,
+      currentJobId,
+      currentRunId,
+      currentStep,
+      progress,
+      queuedJobs,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get scraper status' },
+      { status: 500 }
+    )
+  }
 }
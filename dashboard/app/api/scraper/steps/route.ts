@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { enqueueSteps } from '@/lib/pipeline-jobs'
+import { isPipelineStep } from '@/lib/pipeline-runs'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Queue a single step or a suffix of the pipeline as a new run
+// Body: { fromStep, toStep?: defaults to 'process', sourceRunId?: run whose staged data to start from }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { fromStep, toStep = 'process', sourceRunId } = body
+
+    if (!isPipelineStep(fromStep) || !isPipelineStep(toStep)) {
+      return NextResponse.json(
+        { error: 'fromStep and toStep must be one of scrape, enrich, process' },
+        { status: 400 }
+      )
+    }
+    if (sourceRunId !== undefined && (!Number.isInteger(sourceRunId) || sourceRunId <= 0)) {
+      return NextResponse.json({ error: 'Invalid source run id' }, { status: 400 })
+    }
+
+    const result = await enqueueSteps('MANUAL', fromStep, toStep, { sourceRunId })
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ jobId: result.jobId, message: 'Run queued' })
+  } catch (error) {
+    console.error('Error starting pipeline steps:', error)
+    return NextResponse.json({ error: 'Failed to start pipeline steps' }, { status: 500 })
+  }
+}
@@ -1,46 +1,96 @@
-import { scraperService } from '@/lib/scraper-service'
+import { getPipelineStatus, latestJobOutputId, readJobOutput } from '@/lib/pipeline-jobs'
 
 export const dynamic = 'force-dynamic'
 
+// How often the worker's output is checked for new lines
+const POLL_MS = 1000
+
+// GET - Server-sent stream of the pipeline output the worker saves, from the moment of connecting
 export async function GET() {
   const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setInterval> | null = null
 
   const stream = new ReadableStream({
-    start(controller) {
-      // Send initial connection message
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: 'connected', data: 'Stream connected', timestamp: new Date() })}\n\n`)
-      )
-
-      // Subscribe to scraper output
-      const unsubscribe = scraperService.subscribe((output) => {
+    async start(controller) {
+      const send = (message: object) => {
         try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(output)}\n\n`))
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`))
         } catch {
           // Stream may be closed
         }
-      })
-
-      // Send current status
-      const isRunning = scraperService.isRunning()
-      const runId = scraperService.getCurrentRunId()
-      controller.enqueue(
-        encoder.encode(
-          `data: ${JSON.stringify({
-            type: 'status',
-            data: isRunning ? `Scraper running (Run #${runId})` : 'Scraper idle',
-            timestamp: new Date(),
-          })}\n\n`
-        )
-      )
-
-      // Cleanup on close
-      const cleanup = () => {
-        unsubscribe()
       }
 
-      // Handle abort
-      return cleanup
+      // Send initial connection message
+      send({ type: 'connected', data: 'Stream connected', timestamp: new Date() })
+
+      let lastOutputId = 0
+      let lastProgress = ''
+      let lastJobId: number | null = null
+      try {
+        const [status, outputId] = await Promise.all([getPipelineStatus(), latestJobOutputId()])
+        lastOutputId = outputId
+        lastProgress = JSON.stringify(status.progress)
+        lastJobId = status.currentJobId
+
+        // Send current status
+        send({
+          type: 'status',
+          data: status.isRunning
+            ? `Scraper running (Run #${status.currentRunId})`
+            : status.queuedJobs > 0
+              ? `Scraper idle, ${status.queuedJobs} job(s) queued`
+              : 'Scraper idle',
+          timestamp: new Date(),
+        })
+
+        // Bring the progress bar up to date
+        send({ type: 'progress', data: lastProgress, timestamp: new Date() })
+
+        // Re-send QR codes that are still waiting to be scanned
+        for (const { session, qr } of status.pendingQrs) {
+          send({ type: 'qr', data: qr, session, timestamp: new Date() })
+        }
+      } catch (error) {
+        console.error('Error reading pipeline status:', error)
+      }
+
+      let polling = false
+      timer = setInterval(async () => {
+        if (polling) return
+        polling = true
+        try {
+          for (const row of await readJobOutput(lastOutputId)) {
+            lastOutputId = row.id
+            send({
+              type: row.type,
+              data: row.data,
+              ...(row.session ? { session: row.session } : {}),
+              timestamp: row.createdAt,
+            })
+          }
+
+          const status = await getPipelineStatus()
+          if (status.currentJobId !== lastJobId) {
+            lastJobId = status.currentJobId
+            if (status.isRunning) {
+              send({ type: 'status', data: `Scraper running (Run #${status.currentRunId})`, timestamp: new Date() })
+            }
+          }
+          const progress = JSON.stringify(status.progress)
+          if (progress !== lastProgress) {
+            lastProgress = progress
+            send({ type: 'progress', data: progress, timestamp: new Date() })
+          }
+        } catch (error) {
+          console.error('Error polling pipeline output:', error)
+        } finally {
+          polling = false
+        }
+      }, POLL_MS)
+    },
+
+    cancel() {
+      if (timer) clearInterval(timer)
     },
   })
 
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Business profile captured by the scraper, with its recent changes
+export async function GET(
+  request: Request,
+  { params }: { params: { phone: string } }
+) {
+  try {
+    const seller = await prisma.seller.findUnique({
+      where: { phoneNumber: params.phone },
+      select: {
+        businessName: true,
+        businessDescription: true,
+        businessAddress: true,
+        businessEmail: true,
+        businessWebsites: true,
+        businessCategory: true,
+        businessHours: true,
+        profileUpdatedAt: true,
+      },
+    })
+
+    if (!seller) {
+      return NextResponse.json(
+        { error: 'Seller not found' },
+        { status: 404 }
+      )
+    }
+
+    const history = await prisma.sellerProfileHistory.findMany({
+      where: { sellerPhone: params.phone },
+      orderBy: { recordedAt: 'desc' },
+      take: 20,
+    })
+
+    return NextResponse.json({ profile: seller, history })
+  } catch (error) {
+    console.error('Error fetching seller profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch seller profile' },
+      { status: 500 }
+    )
+  }
+}
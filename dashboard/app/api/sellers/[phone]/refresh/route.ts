@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { enqueueSteps } from '@/lib/pipeline-jobs'
+import { getSellerRefresh } from '@/lib/seller-refresh'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Progress of a refresh: its status, output after `after` and, once done, the product changes
+// Query: jobId, after?: last output id already shown
+export async function GET(
+  request: Request,
+  { params }: { params: { phone: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const jobId = Number(searchParams.get('jobId'))
+    const after = Number(searchParams.get('after') ?? 0)
+
+    if (!Number.isInteger(jobId) || jobId <= 0 || !Number.isInteger(after) || after < 0) {
+      return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+    }
+
+    const refresh = await getSellerRefresh(jobId, params.phone, after)
+    if (!refresh) {
+      return NextResponse.json(
+        { error: `Job #${jobId} is not a refresh of this seller` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(refresh)
+  } catch (error) {
+    console.error('Error fetching seller refresh:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch seller refresh' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Queue a scrape, enrich and process run over this seller only
+export async function POST(
+  request: Request,
+  { params }: { params: { phone: string } }
+) {
+  try {
+    const seller = await prisma.seller.findUnique({
+      where: { phoneNumber: params.phone },
+    })
+
+    if (!seller) {
+      return NextResponse.json(
+        { error: 'Seller not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await enqueueSteps('MANUAL', 'scrape', 'process', {
+      sellerPhone: seller.phoneNumber,
+    })
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json({ jobId: result.jobId, message: 'Refresh queued' })
+  } catch (error) {
+    console.error('Error queueing seller refresh:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue seller refresh' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseSellerInput } from '@/lib/sellers'
+
+export const dynamic = 'force-dynamic'
+
+// PUT - Update a seller's registry details (name, city, notes, tags, enabled, scrape interval)
+export async function PUT(
+  request: Request,
+  { params }: { params: { phone: string } }
+) {
+  try {
+    const body = await request.json()
+    const parsed = parseSellerInput(body, true)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const existing = await prisma.seller.findUnique({
+      where: { phoneNumber: params.phone },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Seller not found' },
+        { status: 404 }
+      )
+    }
+
+    // The phone number is the primary key and cannot be changed
+    const { phoneNumber: _phoneNumber, ...data } = parsed.input
+
+    const seller = await prisma.seller.update({
+      where: { phoneNumber: params.phone },
+      data,
+    })
+
+    return NextResponse.json(seller)
+  } catch (error) {
+    console.error('Error updating seller:', error)
+    return NextResponse.json(
+      { error: 'Failed to update seller' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a seller together with its products, history and scan logs
+export async function DELETE(
+  request: Request,
+  { params }: { params: { phone: string } }
+) {
+  try {
+    const existing = await prisma.seller.findUnique({
+      where: { phoneNumber: params.phone },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Seller not found' },
+        { status: 404 }
+      )
+    }
+
+    // Delete in order to respect foreign key constraints
+    await prisma.$transaction([
+      prisma.productHistory.deleteMany({
+        where: { product: { sellerPhone: params.phone } },
+      }),
+      prisma.product.deleteMany({ where: { sellerPhone: params.phone } }),
+      prisma.scanLog.deleteMany({ where: { sellerPhone: params.phone } }),
+      prisma.sellerProfileHistory.deleteMany({ where: { sellerPhone: params.phone } }),
+      prisma.seller.delete({ where: { phoneNumber: params.phone } }),
+    ])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting seller:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete seller' },
+      { status: 500 }
+    )
+  }
+}
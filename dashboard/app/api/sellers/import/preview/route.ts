@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import {
+  isWorkbookFile,
+  parseCsv,
+  parseSellerRows,
+  parseWorkbook,
+  planImport,
+  summarizeImport,
+  toCsvExportUrl,
+} from '@/lib/seller-import'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+// Reads the uploaded file or sheet URL into rows; returns an error message on failure
+async function readRows(form: FormData): Promise<{ rows: string[][]; source: string } | { error: string }> {
+  const file = form.get('file')
+  if (file instanceof File && file.size > 0) {
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return { error: 'File is larger than 5 MB' }
+    }
+    const data = await file.arrayBuffer()
+    const rows = isWorkbookFile(file.name)
+      ? await parseWorkbook(data)
+      : parseCsv(Buffer.from(data).toString('utf-8'))
+    return { rows, source: file.name }
+  }
+
+  const sheetUrl = form.get('sheetUrl')
+  if (typeof sheetUrl === 'string' && sheetUrl.trim()) {
+    const csvUrl = toCsvExportUrl(sheetUrl.trim())
+    if (!csvUrl) {
+      return { error: 'sheetUrl must be a Google Sheets link (https://docs.google.com/spreadsheets/d/...)' }
+    }
+    const res = await fetch(csvUrl, { cache: 'no-store' })
+    if (!res.ok) {
+      return { error: `Failed to fetch sheet: ${res.status} ${res.statusText}` }
+    }
+    return { rows: parseCsv(await res.text()), source: sheetUrl.trim() }
+  }
+
+  return { error: 'Upload a CSV/XLSX file or provide a sheet URL' }
+}
+
+// POST - Parse an uploaded sheet and compare it to the registry without saving anything
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData()
+    const result = await readRows(form)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    let parsed
+    try {
+      parsed = parseSellerRows(result.rows)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not parse sheet' },
+        { status: 400 }
+      )
+    }
+
+    const phones = parsed
+      .map((row) => row.phoneNumber)
+      .filter((phone): phone is string => phone !== null)
+    const existing = await prisma.seller.findMany({
+      where: { phoneNumber: { in: phones } },
+    })
+
+    const rows = planImport(parsed, existing)
+
+    return NextResponse.json({
+      source: result.source,
+      rows,
+      summary: summarizeImport(rows),
+    })
+  } catch (error) {
+    console.error('Error previewing seller import:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview seller import' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseSellerInput } from '@/lib/sellers'
+import { checkRowPhone, importChanges, ImportReport } from '@/lib/seller-import'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Import previewed rows into the registry. Rows are re-validated with
+// the preview's rules and re-compared to the registry, since it may have
+// changed since the preview.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    if (!Array.isArray(body.rows)) {
+      return NextResponse.json({ error: 'rows must be an array' }, { status: 400 })
+    }
+
+    const report: ImportReport = { created: [], updated: [], unchanged: [], failed: [] }
+
+    for (const row of body.rows) {
+      const catalogueUrl =
+        typeof row?.catalogueUrl === 'string' && row.catalogueUrl.trim() ? row.catalogueUrl.trim() : null
+      const checked = checkRowPhone(
+        typeof row?.phoneNumber === 'string' ? row.phoneNumber : '',
+        catalogueUrl
+      )
+      if ('issue' in checked) {
+        report.failed.push({ phoneNumber: String(row?.phoneNumber ?? ''), error: checked.issue })
+        continue
+      }
+
+      const parsed = parseSellerInput({ ...row, phoneNumber: checked.phoneNumber })
+      if ('error' in parsed) {
+        report.failed.push({ phoneNumber: String(row?.phoneNumber ?? ''), error: parsed.error })
+        continue
+      }
+
+      const { input } = parsed
+      const phoneNumber = input.phoneNumber!
+      const candidate = {
+        name: input.name ?? null,
+        city: input.city ?? null,
+        catalogueUrl: input.catalogueUrl ?? null,
+        notes: input.notes ?? null,
+        tags: input.tags ?? [],
+      }
+
+      try {
+        const existing = await prisma.seller.findUnique({ where: { phoneNumber } })
+
+        if (!existing) {
+          await prisma.seller.create({
+            data: { phoneNumber, ...candidate, enabled: true },
+          })
+          report.created.push(phoneNumber)
+          continue
+        }
+
+        const changes = importChanges(candidate, existing)
+        if (Object.keys(changes).length === 0) {
+          report.unchanged.push(phoneNumber)
+          continue
+        }
+
+        await prisma.seller.update({ where: { phoneNumber }, data: changes })
+        report.updated.push(phoneNumber)
+      } catch (error) {
+        console.error(`Error importing seller ${phoneNumber}:`, error)
+        report.failed.push({ phoneNumber, error: 'Failed to save seller' })
+      }
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error importing sellers:', error)
+    return NextResponse.json(
+      { error: 'Failed to import sellers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseSellerInput } from '@/lib/sellers'
+
+export const dynamic = 'force-dynamic'
+
+// GET - List all sellers in the registry
+export async function GET() {
+  try {
+    const sellers = await prisma.seller.findMany({
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json(sellers)
+  } catch (error) {
+    console.error('Error fetching sellers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sellers' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Add a seller to the registry
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const parsed = parseSellerInput(body)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { input } = parsed
+    const existing = await prisma.seller.findUnique({
+      where: { phoneNumber: input.phoneNumber },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Seller ${input.phoneNumber} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const seller = await prisma.seller.create({
+      data: {
+        phoneNumber: input.phoneNumber!,
+        name: input.name ?? null,
+        city: input.city ?? null,
+        catalogueUrl: input.catalogueUrl ?? null,
+        notes: input.notes ?? null,
+        tags: input.tags ?? [],
+        enabled: input.enabled ?? true,
+        scrapeIntervalHours: input.scrapeIntervalHours ?? null,
+      },
+    })
+
+    return NextResponse.json(seller, { status: 201 })
+  } catch (error) {
+    console.error('Error creating seller:', error)
+    return NextResponse.json(
+      { error: 'Failed to create seller' },
+      { status: 500 }
+    )
+  }
+}
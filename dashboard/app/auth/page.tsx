@@ -1,19 +1,40 @@
 'use client'
 
-import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Play, Square, Trash2, RefreshCw, QrCode } from 'lucide-react'
+import { SessionHealthPanel } from '@/components/auth/session-health-panel'
+import { PipelineProgress } from '@/components/auth/pipeline-progress'
+import type { RunProgress } from '@/lib/pipeline-events'
 
 interface ScraperOutput {
-  type: 'stdout' | 'stderr' | 'status' | 'complete' | 'connected'
+  type: 'stdout' | 'stderr' | 'status' | 'complete' | 'connected' | 'qr' | 'auth' | 'progress'
   data: string
   timestamp: Date
+  // WhatsApp session a 'qr' or 'auth' message is for
+  session?: string
+}
+
+const formatWait = (ms: number) => {
+  if (ms <= 0) return 'The scraper waits until the code is scanned.'
+  const seconds = Math.round(ms / 1000)
+  const wait = seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`
+  return `The scraper waits ${wait} for the scan before giving up.`
 }
 
 export default function AuthPage() {
   const [logs, setLogs] = useState<ScraperOutput[]>([])
   const [isConnected, setIsConnected] = useState(false)
-  const [scraperStatus, setScraperStatus] = useState({ isRunning: false, currentRunId: null })
+  const [scraperStatus, setScraperStatus] = useState({
+    isRunning: false,
+    currentRunId: null,
+    queuedJobs: 0,
+  })
+  // Pending QR codes and scan wait times, per session
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({})
+  const [qrWaitMs, setQrWaitMs] = useState<Record<string, number>>({})
+  const [healthRefreshKey, setHealthRefreshKey] = useState(0)
+  const [progress, setProgress] = useState<RunProgress | null>(null)
   const logsEndRef = useRef<HTMLDivElement>(null)
   const eventSourceRef = useRef<EventSource | null>(null)
 
@@ -23,6 +44,7 @@ export default function AuthPage() {
       if (res.ok) {
         const status = await res.json()
         setScraperStatus(status)
+        setProgress(status.progress ?? null)
       }
     } catch (error) {
       console.error('Failed to fetch status:', error)
@@ -44,9 +66,41 @@ export default function AuthPage() {
     eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data) as ScraperOutput
+
+        if (data.type === 'progress') {
+          setProgress(JSON.parse(data.data))
+          return
+        }
+
+        // QR and login state updates drive the QR panel, not the log
+        const session = data.session ?? ''
+        if (data.type === 'qr') {
+          setQrCodes(({ [session]: _previous, ...rest }) =>
+            data.data ? { ...rest, [session]: data.data } : rest
+          )
+          return
+        }
+        if (data.type === 'auth') {
+          const [state, waitMs] = data.data.split(' ')
+          if (state === 'waiting') {
+            setQrWaitMs((prev) => ({ ...prev, [session]: Number(waitMs) || 0 }))
+          } else {
+            setQrCodes(({ [session]: _previous, ...rest }) => rest)
+          }
+          setHealthRefreshKey((key) => key + 1)
+          return
+        }
+
         setLogs((prev) => [...prev, { ...data, timestamp: new Date(data.timestamp) }])
 
+        // A job started or was queued by the worker
+        if (data.type === 'status') {
+          fetchStatus()
+        }
         if (data.type === 'complete') {
+          setQrCodes({})
+          setQrWaitMs({})
+          setHealthRefreshKey((key) => key + 1)
           fetchStatus()
         }
       } catch (error) {
@@ -128,43 +182,6 @@ export default function AuthPage() {
     })
   }
 
-  // Extract QR code from logs
-  const qrCodeData = useMemo(() => {
-    const qrChars = ['▄', '█', '▀', '▌', '▐', '░', '▓', '▒', '■', '□']
-    const allText = logs.map((l) => l.data).join('\n')
-    const lines = allText.split('\n')
-
-    // Find consecutive lines that look like QR code
-    const qrLines: string[] = []
-    let inQrBlock = false
-
-    for (const line of lines) {
-      const hasQrChars = qrChars.some((char) => line.includes(char))
-      // QR codes typically have dense block characters
-      const blockCharCount = (line.match(/[▄█▀▌▐░▓▒■□]/g) || []).length
-
-      if (hasQrChars && blockCharCount > 10) {
-        inQrBlock = true
-        qrLines.push(line)
-      } else if (inQrBlock && line.trim() === '') {
-        // Allow one empty line within QR block
-        if (qrLines.length > 0 && qrLines[qrLines.length - 1].trim() !== '') {
-          qrLines.push(line)
-        }
-      } else if (inQrBlock && !hasQrChars) {
-        // End of QR block
-        break
-      }
-    }
-
-    // Clean up trailing empty lines
-    while (qrLines.length > 0 && qrLines[qrLines.length - 1].trim() === '') {
-      qrLines.pop()
-    }
-
-    return qrLines.length > 5 ? qrLines.join('\n') : null
-  }, [logs])
-
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between mb-4">
@@ -202,14 +219,21 @@ export default function AuthPage() {
               className="flex items-center gap-2"
             >
               <Square className="h-4 w-4" />
-              Stop
+              Cancel Run
             </Button>
           </>
         ) : (
-          <Button onClick={handleStartScraper} className="flex items-center gap-2">
-            <Play className="h-4 w-4" />
-            Start Scraper
-          </Button>
+          <>
+            <Button onClick={handleStartScraper} className="flex items-center gap-2">
+              <Play className="h-4 w-4" />
+              Start Scraper
+            </Button>
+            {scraperStatus.queuedJobs > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {scraperStatus.queuedJobs} run(s) queued, waiting for the worker
+              </span>
+            )}
+          </>
         )}
 
         <Button variant="outline" onClick={handleClearLogs} className="flex items-center gap-2">
@@ -223,31 +247,45 @@ export default function AuthPage() {
         </Button>
       </div>
 
+      <SessionHealthPanel refreshKey={healthRefreshKey} />
+
+      {progress && <PipelineProgress progress={progress} isRunning={scraperStatus.isRunning} />}
+
       {/* QR Code Display */}
-      {qrCodeData && (
-        <div className="mb-4 p-6 bg-white border-2 border-green-500 rounded-lg shadow-lg">
-          <div className="flex items-center gap-2 mb-3">
-            <QrCode className="h-5 w-5 text-green-600" />
-            <span className="font-semibold text-green-700">Scan this QR Code with WhatsApp</span>
-          </div>
-          <div className="flex justify-center">
-            <pre
-              className="font-mono text-black leading-none"
-              style={{
-                fontSize: '8px',
-                lineHeight: '8px',
-                letterSpacing: '0px',
-                background: 'white',
-                padding: '16px',
-                borderRadius: '8px',
-              }}
+      {Object.keys(qrCodes).length > 0 && (
+        <div className="mb-4 grid gap-4 md:grid-cols-2">
+          {Object.entries(qrCodes).map(([session, qrCode]) => (
+            <div
+              key={session}
+              className="p-6 bg-white border-2 border-green-500 rounded-lg shadow-lg"
             >
-              {qrCodeData}
-            </pre>
-          </div>
-          <p className="text-xs text-center text-muted-foreground mt-3">
-            Open WhatsApp on your phone → Settings → Linked Devices → Link a Device
-          </p>
+              <div className="flex items-center gap-2 mb-3">
+                <QrCode className="h-5 w-5 text-green-600" />
+                <span className="font-semibold text-green-700">
+                  Scan this QR Code with WhatsApp
+                </span>
+                <span className="ml-auto font-mono text-xs text-muted-foreground">{session}</span>
+              </div>
+              <div className="flex justify-center">
+                {/* eslint-disable-next-line @next/next/no-img-element -- base64 data URL from the scraper */}
+                <img
+                  src={qrCode}
+                  alt={`WhatsApp login QR code for ${session}`}
+                  width={264}
+                  height={264}
+                  className="bg-white p-4 rounded-lg"
+                />
+              </div>
+              <p className="text-xs text-center text-muted-foreground mt-3">
+                Open WhatsApp on your phone → Settings → Linked Devices → Link a Device
+              </p>
+              {qrWaitMs[session] !== undefined && (
+                <p className="text-xs text-center text-muted-foreground mt-1">
+                  {formatWait(qrWaitMs[session])} The code refreshes automatically.
+                </p>
+              )}
+            </div>
+          ))}
         </div>
       )}
 
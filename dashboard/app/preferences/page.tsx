@@ -11,14 +11,25 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Trash2, Clock, Play, Square, RefreshCw, Plus, X, AlertTriangle } from 'lucide-react'
-
-interface SchedulerConfig {
-  id: number
-  enabled: boolean
-  cronExpr: string
-  updatedAt?: string
-}
+import { RunStagingDialog } from '@/components/runs/run-staging-dialog'
+import { SchedulesPanel } from '@/components/schedules/schedules-panel'
+import {
+  PIPELINE_STEP_NAMES,
+  isPartialRun,
+  resumeStepFor,
+  stepRangeLabel,
+} from '@/lib/pipeline-runs'
+import type { PipelineStepName } from '@/lib/pipeline-events'
+import {
+  Trash2,
+  Play,
+  Square,
+  RefreshCw,
+  X,
+  AlertTriangle,
+  Database,
+  RotateCcw,
+} from 'lucide-react'
 
 interface ScraperRun {
   id: number
@@ -29,60 +40,49 @@ interface ScraperRun {
   errorMessage: string | null
   sellersProcessed: number
   productsScraped: number
+  productsEnriched: number
+  enrichCacheHits: number
+  enrichCacheMisses: number
+  enrichFailures: number
+  catalogMismatches: number
+  productsCreated: number
+  productsUpdated: number
+  productsDeactivated: number
+  errorCount: number
+  lastCompletedStep: string | null
+  firstStep: string
+  lastStep: string
+  sourceRunId: number | null
+  scheduleId: number | null
+  scheduleName: string | null
+  sellerTag: string | null
+  dueOnly: boolean
+  sellerPhone: string | null
 }
 
-// Convert cron expression to array of times (HH:MM format)
-function cronToTimes(cronExpr: string): string[] {
-  try {
-    const parts = cronExpr.split(' ')
-    if (parts.length !== 5) return ['09:00', '21:00']
-
-    const minutes = parts[0]
-    const hours = parts[1]
-
-    // Parse hours (could be comma-separated like "9,21")
-    const hourList = hours.split(',').map((h) => parseInt(h.trim()))
-    const minute = parseInt(minutes) || 0
-
-    return hourList.map((h) => {
-      const hStr = h.toString().padStart(2, '0')
-      const mStr = minute.toString().padStart(2, '0')
-      return `${hStr}:${mStr}`
-    })
-  } catch {
-    return ['09:00', '21:00']
-  }
-}
-
-// Convert array of times to cron expression
-function timesToCron(times: string[]): string {
-  if (times.length === 0) return '0 9 * * *'
-
-  // Parse times and group by minute
-  const parsed = times.map((t) => {
-    const [h, m] = t.split(':').map(Number)
-    return { hour: h, minute: m }
-  })
-
-  // For simplicity, use the minute from the first time
-  const minute = parsed[0]?.minute || 0
-  const hours = parsed.map((p) => p.hour).sort((a, b) => a - b)
-
-  return `${minute} ${hours.join(',')} * * *`
+interface PipelineJob {
+  id: number
+  kind: string
+  status: string
+  triggerType: string
+  firstStep: string
+  lastStep: string
+  sourceRunId: number | null
+  runId: number | null
+  cancelRequested: boolean
+  createdAt: string
 }
 
 export default function PreferencesPage() {
-  const [schedulerConfig, setSchedulerConfig] = useState<SchedulerConfig>({
-    id: 1,
-    enabled: false,
-    cronExpr: '0 9,21 * * *',
-  })
-  const [scheduledTimes, setScheduledTimes] = useState<string[]>(['09:00', '21:00'])
-  const [newTime, setNewTime] = useState('12:00')
   const [runs, setRuns] = useState<ScraperRun[]>([])
+  const [jobs, setJobs] = useState<PipelineJob[]>([])
+  const [stagingRunId, setStagingRunId] = useState<number | null>(null)
+  const [stepsFrom, setStepsFrom] = useState<PipelineStepName>('enrich')
+  const [stepsTo, setStepsTo] = useState<PipelineStepName>('process')
+  // Run whose staged data a partial run starts from; empty for the latest
+  const [stepsSourceRunId, setStepsSourceRunId] = useState('')
   const [isLoading, setIsLoading] = useState(true)
   const [isFlushing, setIsFlushing] = useState(false)
-  const [isSaving, setIsSaving] = useState(false)
   const [scraperStatus, setScraperStatus] = useState({ isRunning: false, currentRunId: null })
   const [showFlushDialog, setShowFlushDialog] = useState(false)
   const [flushConfirmText, setFlushConfirmText] = useState('')
@@ -94,18 +94,12 @@ export default function PreferencesPage() {
   const fetchData = async () => {
     setIsLoading(true)
     try {
-      const [configRes, runsRes, statusRes] = await Promise.all([
-        fetch('/api/scheduler'),
+      const [runsRes, statusRes, jobsRes] = await Promise.all([
         fetch('/api/scraper/runs'),
         fetch('/api/scraper/start'),
+        fetch('/api/scraper/jobs'),
       ])
 
-      if (configRes.ok) {
-        const config = await configRes.json()
-        setSchedulerConfig(config)
-        setScheduledTimes(cronToTimes(config.cronExpr))
-      }
-
       if (runsRes.ok) {
         const runsData = await runsRes.json()
         setRuns(runsData)
@@ -115,6 +109,10 @@ export default function PreferencesPage() {
         const status = await statusRes.json()
         setScraperStatus(status)
       }
+
+      if (jobsRes.ok) {
+        setJobs(await jobsRes.json())
+      }
     } catch (error) {
       console.error('Failed to fetch data:', error)
     } finally {
@@ -122,6 +120,18 @@ export default function PreferencesPage() {
     }
   }
 
+  // Run history only, without reloading the page
+  const fetchRuns = async () => {
+    try {
+      const res = await fetch('/api/scraper/runs')
+      if (res.ok) {
+        setRuns(await res.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch runs:', error)
+    }
+  }
+
   const handleFlushDatabase = async () => {
     if (flushConfirmText !== 'DELETE') return
 
@@ -148,48 +158,54 @@ export default function PreferencesPage() {
     setShowFlushDialog(true)
   }
 
-  const handleSaveScheduler = async () => {
-    setIsSaving(true)
+  const handleStartScraper = async () => {
     try {
-      const cronExpr = timesToCron(scheduledTimes)
-      const res = await fetch('/api/scheduler', {
+      const res = await fetch('/api/scraper/start', { method: 'POST' })
+      if (res.ok) {
+        fetchData()
+      } else {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to start scraper')
+    }
+  }
+
+  const handleRunSteps = async () => {
+    try {
+      const res = await fetch('/api/scraper/steps', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          enabled: schedulerConfig.enabled,
-          cronExpr,
+          fromStep: stepsFrom,
+          toStep: stepsTo,
+          ...(stepsFrom !== 'scrape' && stepsSourceRunId
+            ? { sourceRunId: Number(stepsSourceRunId) }
+            : {}),
         }),
       })
-
       if (res.ok) {
-        const data = await res.json()
-        setSchedulerConfig(data.config)
-        alert('Scheduler configuration saved')
+        fetchData()
       } else {
         const data = await res.json()
         alert(`Error: ${data.error}`)
       }
     } catch {
-      alert('Failed to save scheduler configuration')
-    } finally {
-      setIsSaving(false)
+      alert('Failed to start pipeline steps')
     }
   }
 
-  const handleAddTime = () => {
-    if (!scheduledTimes.includes(newTime)) {
-      const updated = [...scheduledTimes, newTime].sort()
-      setScheduledTimes(updated)
+  const handleStepsFromChange = (step: PipelineStepName) => {
+    setStepsFrom(step)
+    if (PIPELINE_STEP_NAMES.indexOf(stepsTo) < PIPELINE_STEP_NAMES.indexOf(step)) {
+      setStepsTo(step)
     }
   }
 
-  const handleRemoveTime = (time: string) => {
-    setScheduledTimes(scheduledTimes.filter((t) => t !== time))
-  }
-
-  const handleStartScraper = async () => {
+  const handleResumeRun = async (runId: number) => {
     try {
-      const res = await fetch('/api/scraper/start', { method: 'POST' })
+      const res = await fetch(`/api/scraper/runs/${runId}/resume`, { method: 'POST' })
       if (res.ok) {
         fetchData()
       } else {
@@ -197,7 +213,7 @@ export default function PreferencesPage() {
         alert(`Error: ${data.error}`)
       }
     } catch {
-      alert('Failed to start scraper')
+      alert('Failed to resume run')
     }
   }
 
@@ -212,6 +228,20 @@ export default function PreferencesPage() {
     }
   }
 
+  const handleCancelJob = async (jobId: number) => {
+    try {
+      const res = await fetch(`/api/scraper/jobs/${jobId}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchData()
+      } else {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to cancel job')
+    }
+  }
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'COMPLETED':
@@ -221,18 +251,17 @@ export default function PreferencesPage() {
       case 'RUNNING':
         return 'bg-blue-100 text-blue-800'
       case 'AUTH_REQUIRED':
+      case 'SESSION_LOST':
+      case 'INTERRUPTED':
         return 'bg-yellow-100 text-yellow-800'
+      case 'CANCELLED':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
   }
 
-  const formatTime12h = (time24: string) => {
-    const [h, m] = time24.split(':').map(Number)
-    const period = h >= 12 ? 'PM' : 'AM'
-    const hour12 = h % 12 || 12
-    return `${hour12}:${m.toString().padStart(2, '0')} ${period}`
-  }
+  const pendingJobs = jobs.filter((job) => job.status === 'QUEUED' || job.status === 'RUNNING')
 
   if (isLoading) {
     return (
@@ -313,85 +342,6 @@ export default function PreferencesPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Scheduler Configuration */}
-      <div className="border rounded-lg p-6">
-        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
-          <Clock className="h-5 w-5" />
-          Scheduler Configuration
-        </h2>
-
-        <div className="space-y-6">
-          <div className="flex items-center gap-4">
-            <label className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                checked={schedulerConfig.enabled}
-                onChange={(e) =>
-                  setSchedulerConfig({ ...schedulerConfig, enabled: e.target.checked })
-                }
-                className="h-4 w-4"
-              />
-              <span>Enable Scheduler</span>
-            </label>
-          </div>
-
-          {/* Scheduled Times */}
-          <div className="space-y-3">
-            <label className="text-sm font-medium">Scheduled Run Times (daily):</label>
-
-            {/* Current times */}
-            <div className="flex flex-wrap gap-2">
-              {scheduledTimes.length === 0 ? (
-                <span className="text-sm text-muted-foreground">No times scheduled</span>
-              ) : (
-                scheduledTimes.map((time) => (
-                  <div
-                    key={time}
-                    className="flex items-center gap-1 px-3 py-1.5 bg-primary/10 rounded-full text-sm"
-                  >
-                    <Clock className="h-3 w-3" />
-                    <span>{formatTime12h(time)}</span>
-                    <button
-                      onClick={() => handleRemoveTime(time)}
-                      className="ml-1 hover:text-destructive"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
-                  </div>
-                ))
-              )}
-            </div>
-
-            {/* Add new time */}
-            <div className="flex items-center gap-2">
-              <input
-                type="time"
-                value={newTime}
-                onChange={(e) => setNewTime(e.target.value)}
-                className="px-3 py-2 border rounded-md text-sm"
-              />
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleAddTime}
-                className="flex items-center gap-1"
-              >
-                <Plus className="h-4 w-4" />
-                Add Time
-              </Button>
-            </div>
-
-            <p className="text-xs text-muted-foreground">
-              The scraper will run automatically at these times every day.
-            </p>
-          </div>
-
-          <Button onClick={handleSaveScheduler} disabled={isSaving}>
-            {isSaving ? 'Saving...' : 'Save Configuration'}
-          </Button>
-        </div>
-      </div>
-
       {/* Manual Scraper Control */}
       <div className="border rounded-lg p-6">
         <h2 className="text-lg font-semibold mb-4">Manual Scraper Control</h2>
@@ -408,7 +358,7 @@ export default function PreferencesPage() {
                 className="flex items-center gap-2"
               >
                 <Square className="h-4 w-4" />
-                Stop Scraper
+                Cancel Run
               </Button>
             </>
           ) : (
@@ -422,8 +372,104 @@ export default function PreferencesPage() {
             Refresh
           </Button>
         </div>
+
+        {/* Partial runs */}
+        <div className="mt-6 space-y-3">
+          <label className="text-sm font-medium">Run Individual Steps:</label>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>From</span>
+            <select
+              value={stepsFrom}
+              onChange={(e) => handleStepsFromChange(e.target.value as PipelineStepName)}
+              className="px-3 py-2 border rounded-md text-sm"
+            >
+              {PIPELINE_STEP_NAMES.map((step) => (
+                <option key={step} value={step}>
+                  {step}
+                </option>
+              ))}
+            </select>
+            <span>to</span>
+            <select
+              value={stepsTo}
+              onChange={(e) => setStepsTo(e.target.value as PipelineStepName)}
+              className="px-3 py-2 border rounded-md text-sm"
+            >
+              {PIPELINE_STEP_NAMES.slice(PIPELINE_STEP_NAMES.indexOf(stepsFrom)).map((step) => (
+                <option key={step} value={step}>
+                  {step}
+                </option>
+              ))}
+            </select>
+            <span>using data staged by run</span>
+            <Input
+              type="number"
+              min={1}
+              value={stepsSourceRunId}
+              onChange={(e) => setStepsSourceRunId(e.target.value)}
+              placeholder={stepsFrom === 'scrape' ? 'n/a' : 'latest'}
+              disabled={stepsFrom === 'scrape'}
+              className="w-28"
+            />
+            <Button
+              variant="outline"
+              onClick={handleRunSteps}
+              className="flex items-center gap-2"
+            >
+              <Play className="h-4 w-4" />
+              Run Steps
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each partial run is recorded as its own run on a copy of the staged data, e.g. enrich
+            to process to re-enrich the last scrape after a prompt change, or process alone to
+            apply it again after a database fix.
+          </p>
+        </div>
+
+        {/* Job queue */}
+        <div className="mt-6 space-y-2">
+          <label className="text-sm font-medium">Job Queue:</label>
+          {pendingJobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No jobs waiting. Runs are picked up by the pipeline worker one at a time.
+            </p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {pendingJobs.map((job) => (
+                <li key={job.id} className="flex items-center gap-3">
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(job.status)}`}
+                  >
+                    {job.cancelRequested ? 'CANCELLING' : job.status}
+                  </span>
+                  <span>
+                    Job #{job.id}: {job.kind === 'RESUME' ? `resume run #${job.runId}` : job.triggerType}{' '}
+                    {stepRangeLabel(job)}
+                    {job.runId !== null && job.kind === 'RUN' && ` (run #${job.runId})`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    queued {new Date(job.createdAt).toLocaleString()}
+                  </span>
+                  {!job.cancelRequested && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleCancelJob(job.id)}
+                      title={job.status === 'RUNNING' ? 'Cancel run' : 'Remove from queue'}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
 
+      <SchedulesPanel runs={runs} getStatusBadgeClass={getStatusBadgeClass} />
+
       {/* Run History */}
       <div className="border rounded-lg p-6">
         <h2 className="text-lg font-semibold mb-4">Scraper Run History</h2>
@@ -439,40 +485,135 @@ export default function PreferencesPage() {
                 <th className="text-left py-2 px-3">Trigger</th>
                 <th className="text-left py-2 px-3">Sellers</th>
                 <th className="text-left py-2 px-3">Products</th>
+                <th className="text-left py-2 px-3">Changes</th>
+                <th className="text-left py-2 px-3">Errors</th>
+                <th className="py-2 px-3"></th>
               </tr>
             </thead>
             <tbody>
               {runs.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="text-center py-4 text-muted-foreground">
+                  <td colSpan={10} className="text-center py-4 text-muted-foreground">
                     No runs recorded yet
                   </td>
                 </tr>
               ) : (
-                runs.map((run) => (
-                  <tr key={run.id} className="border-b hover:bg-muted/50">
-                    <td className="py-2 px-3">#{run.id}</td>
-                    <td className="py-2 px-3">{new Date(run.startedAt).toLocaleString()}</td>
-                    <td className="py-2 px-3">
-                      {run.completedAt ? new Date(run.completedAt).toLocaleString() : '-'}
-                    </td>
-                    <td className="py-2 px-3">
-                      <span
-                        className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(run.status)}`}
-                      >
-                        {run.status}
-                      </span>
-                    </td>
-                    <td className="py-2 px-3">{run.triggerType}</td>
-                    <td className="py-2 px-3">{run.sellersProcessed}</td>
-                    <td className="py-2 px-3">{run.productsScraped}</td>
-                  </tr>
-                ))
+                runs.map((run) => {
+                  const resumeStep = resumeStepFor(run)
+                  return (
+                    <tr key={run.id} className="border-b hover:bg-muted/50">
+                      <td className="py-2 px-3">#{run.id}</td>
+                      <td className="py-2 px-3">{new Date(run.startedAt).toLocaleString()}</td>
+                      <td className="py-2 px-3">
+                        {run.completedAt ? new Date(run.completedAt).toLocaleString() : '-'}
+                      </td>
+                      <td className="py-2 px-3">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(run.status)}`}
+                        >
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3">
+                        {run.triggerType}
+                        {run.scheduleId !== null && (
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            {run.scheduleName ?? `Schedule #${run.scheduleId} (deleted)`}
+                          </div>
+                        )}
+                        {run.sellerTag && (
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            Tag: {run.sellerTag}
+                          </div>
+                        )}
+                        {run.sellerPhone && (
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            Seller: {run.sellerPhone}
+                          </div>
+                        )}
+                        {run.dueOnly && (
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            Due sellers only
+                          </div>
+                        )}
+                        {isPartialRun(run) && (
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            {stepRangeLabel(run)}
+                            {run.sourceRunId !== null && ` from #${run.sourceRunId}`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-3">{run.sellersProcessed}</td>
+                      <td className="py-2 px-3">
+                        {run.productsScraped}
+                        {run.enrichCacheHits + run.enrichCacheMisses > 0 && (
+                          <div
+                            className="text-xs text-muted-foreground whitespace-nowrap"
+                            title="Products enriched from the cache, and sent to the LLM"
+                          >
+                            Cache: {run.enrichCacheHits} hit, {run.enrichCacheMisses} miss
+                          </div>
+                        )}
+                        {run.enrichFailures > 0 && (
+                          <div
+                            className="text-xs text-yellow-700 whitespace-nowrap"
+                            title="Products no valid enrichment could be got for, even one at a time"
+                          >
+                            {run.enrichFailures} failed enrichment
+                          </div>
+                        )}
+                        {run.catalogMismatches > 0 && (
+                          <div
+                            className="text-xs text-yellow-700 whitespace-nowrap"
+                            title="Products whose model, storage or color is not in the device catalog"
+                          >
+                            {run.catalogMismatches} off catalog
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 whitespace-nowrap">
+                        <span className="text-green-700">+{run.productsCreated}</span>{' '}
+                        <span className="text-blue-700">~{run.productsUpdated}</span>{' '}
+                        <span className="text-red-700">-{run.productsDeactivated}</span>
+                      </td>
+                      <td className={`py-2 px-3 ${run.errorCount > 0 ? 'text-yellow-700' : ''}`}>
+                        {run.errorCount}
+                      </td>
+                      <td className="py-2 px-3 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setStagingRunId(run.id)}
+                          title="Inspect staged data"
+                        >
+                          <Database className="h-4 w-4" />
+                        </Button>
+                        {resumeStep && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleResumeRun(run.id)}
+                            title={`Resume from ${resumeStep}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })
               )}
             </tbody>
           </table>
         </div>
       </div>
+
+      <RunStagingDialog
+        key={stagingRunId ?? 'closed'}
+        runId={stagingRunId}
+        onOpenChange={(open) => !open && setStagingRunId(null)}
+        onDiscarded={fetchRuns}
+      />
     </div>
   )
 }
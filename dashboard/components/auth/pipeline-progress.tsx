@@ -0,0 +1,84 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { RunProgress, stepPercent } from '@/lib/pipeline-events'
+
+interface PipelineProgressProps {
+  progress: RunProgress
+  isRunning: boolean
+}
+
+const STEP_LABELS = {
+  scrape: { index: 1, label: 'Scraping catalogs' },
+  enrich: { index: 2, label: 'LLM enrichment' },
+  process: { index: 3, label: 'Updating database' },
+} as const
+
+// Errors shown under the bar; the rest are in the log
+const SHOWN_ERRORS = 3
+
+export function PipelineProgress({ progress, isRunning }: PipelineProgressProps) {
+  if (!progress.step) return null
+
+  const step = STEP_LABELS[progress.step]
+  const percent = stepPercent(progress)
+  const { scrape, enrich } = progress
+  const processing = progress.process
+
+  let detail = ''
+  if (progress.step === 'scrape') {
+    const outcomes = Object.entries(scrape.outcomes)
+      .filter(([, count]) => count > 0)
+      .map(([outcome, count]) => `${outcome} ${count}`)
+      .join(', ')
+    detail =
+      `${scrape.finished}/${scrape.sellers} sellers` +
+      (outcomes ? ` (${outcomes})` : '') +
+      (scrape.inFlight.length > 0 ? `, ${scrape.inFlight.length} in progress` : '') +
+      (scrape.skipped > 0 ? `, ${scrape.skipped} already staged` : '')
+  } else if (progress.step === 'enrich') {
+    detail =
+      `Batch ${enrich.batchesDone}/${enrich.batches}, ${enrich.productsDone}/${enrich.products} products` +
+      (enrich.cached > 0 ? ` (${enrich.cached} from cache)` : '')
+  } else {
+    detail =
+      `${processing.sellersDone}/${processing.sellers} sellers: ${processing.created} new, ` +
+      `${processing.updated} updated, ${processing.deactivated} deactivated`
+  }
+
+  return (
+    <div className="mb-4 border rounded-lg p-4">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="font-semibold">
+          Step {step.index}/3: {step.label}
+          {!isRunning && <span className="ml-2 font-normal text-muted-foreground">(last run)</span>}
+        </span>
+        <span className="text-muted-foreground">{percent}%</span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full transition-all ${progress.errorCount > 0 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">{detail}</p>
+
+      {progress.errorCount > 0 && (
+        <div className="mt-2 text-xs text-yellow-800">
+          <div className="flex items-center gap-1 font-medium">
+            <AlertTriangle className="h-3 w-3" />
+            {progress.errorCount} error(s)
+          </div>
+          <ul className="list-disc pl-5">
+            {progress.recentErrors.slice(-SHOWN_ERRORS).map((error, i) => (
+              <li key={i}>
+                [{error.step}] {error.phone ? `${error.phone}: ` : ''}
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Activity, Plus, Power, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { SessionHealth, SessionHealthStatus } from '@/lib/session-health'
+
+type SessionHealthResponse = {
+  sessions: (Omit<SessionHealth, 'lastCheckedAt' | 'lastLoginAt' | 'linkedAt' | 'lastFailureAt'> & {
+    lastCheckedAt: string | null
+    lastLoginAt: string | null
+    linkedAt: string | null
+    lastFailureAt: string | null
+  })[]
+  live: {
+    isRunning: boolean
+    currentStep: string
+    // Login state reported by the running scraper, per session
+    sessions: Record<string, { state: string; detail: string }>
+  }
+}
+
+interface SessionHealthPanelProps {
+  // Bumped by the page whenever the scraper reports a login change or finishes
+  refreshKey: number
+}
+
+const STATUS_STYLES: Record<SessionHealthStatus, { label: string; className: string; dot: string }> = {
+  healthy: { label: 'Healthy', className: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+  warning: { label: 'Needs attention', className: 'bg-yellow-100 text-yellow-800', dot: 'bg-yellow-500' },
+  down: { label: 'Down', className: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
+  unknown: { label: 'Unknown', className: 'bg-gray-100 text-gray-800', dot: 'bg-gray-400' },
+  disabled: { label: 'Disabled', className: 'bg-gray-100 text-gray-500', dot: 'bg-gray-300' },
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never')
+
+export function SessionHealthPanel({ refreshKey }: SessionHealthPanelProps) {
+  const [health, setHealth] = useState<SessionHealthResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [newSessionName, setNewSessionName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchHealth = useCallback(async () => {
+    try {
+      const res = await fetch('/api/scraper/session')
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error || 'Failed to fetch session health')
+        return
+      }
+      setHealth(body)
+      setError(null)
+    } catch {
+      setError('Failed to fetch session health')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchHealth()
+  }, [fetchHealth, refreshKey])
+
+  const updateSessions = async (url: string, init: RequestInit, failure: string) => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(url, init)
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setError(body.error || failure)
+        return false
+      }
+      await fetchHealth()
+      return true
+    } catch {
+      setError(failure)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddSession = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newSessionName.trim()
+    if (!name) return
+    const added = await updateSessions(
+      '/api/scraper/session',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      },
+      'Failed to add session'
+    )
+    if (added) setNewSessionName('')
+  }
+
+  const handleToggleSession = (name: string, enabled: boolean) =>
+    updateSessions(
+      `/api/scraper/session/${encodeURIComponent(name)}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled }),
+      },
+      'Failed to update session'
+    )
+
+  const handleDeleteSession = (name: string) => {
+    if (!confirm(`Remove session ${name} from the pool?`)) return
+    updateSessions(
+      `/api/scraper/session/${encodeURIComponent(name)}`,
+      { method: 'DELETE' },
+      'Failed to remove session'
+    )
+  }
+
+  return (
+    <div className="mb-4 border rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Activity className="h-4 w-4" />
+        <h2 className="font-semibold">WhatsApp Sessions</h2>
+        <span className="text-xs text-muted-foreground">
+          Sellers are spread across enabled sessions, with failover when one drops.
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {health && health.sessions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No session recorded yet. Start the scraper to log in with the default session, or add
+          one below.
+        </p>
+      )}
+
+      <div className="grid gap-3">
+        {health?.sessions.map((session) => {
+          const style = STATUS_STYLES[session.status]
+          const live = health.live.isRunning ? health.live.sessions[session.name] : undefined
+          return (
+            <div key={session.name} className="text-sm">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="font-mono">{session.name}</span>
+                <span
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${style.className}`}
+                >
+                  <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+                  {style.label}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {session.state}
+                  {session.stateDetail ? ` (${session.stateDetail})` : ''}
+                </span>
+                {live && (
+                  <span className="text-xs text-blue-600">
+                    Current run: {live.state.replace('-', ' ')}
+                  </span>
+                )}
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleToggleSession(session.name, !session.enabled)}
+                    disabled={isSaving}
+                    title={session.enabled ? 'Disable session' : 'Enable session'}
+                  >
+                    <Power className={`h-4 w-4 ${session.enabled ? 'text-green-600' : ''}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDeleteSession(session.name)}
+                    disabled={isSaving}
+                    title="Remove session"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-muted-foreground">
+                <div>
+                  <div className="text-xs">Last login</div>
+                  <div className="text-foreground">{formatDate(session.lastLoginAt)}</div>
+                </div>
+                <div>
+                  <div className="text-xs">Token age</div>
+                  <div className="text-foreground">
+                    {session.tokenAgeDays === null ? 'Unknown' : `${session.tokenAgeDays} day(s)`}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs">Last checked</div>
+                  <div className="text-foreground">{formatDate(session.lastCheckedAt)}</div>
+                </div>
+                <div>
+                  <div className="text-xs">Failures</div>
+                  <div className="text-foreground">
+                    {session.failureCount} total, {session.consecutiveFailures} since last login
+                  </div>
+                </div>
+              </div>
+              {session.issues.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-yellow-800">
+                  {session.issues.map((issue, i) => (
+                    <li key={i}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+              {session.lastFailureAt && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Last failure {formatDate(session.lastFailureAt)}: {session.lastFailureReason}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <form onSubmit={handleAddSession} className="flex gap-2 mt-4">
+        <Input
+          value={newSessionName}
+          onChange={(e) => setNewSessionName(e.target.value)}
+          placeholder="New session name, e.g. store-2"
+          className="max-w-xs"
+        />
+        <Button type="submit" variant="outline" disabled={!newSessionName.trim() || isSaving}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Session
+        </Button>
+      </form>
+    </div>
+  )
+}
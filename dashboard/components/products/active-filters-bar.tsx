@@ -93,6 +93,19 @@ export function ActiveFiltersBar({
         </Badge>
       )}
 
+      {/* Categories */}
+      {filters.categories.map((category) => (
+        <Badge key={category} variant="secondary" className="gap-1">
+          Category: {category}
+          <button
+            className="ml-1 hover:bg-muted rounded-full"
+            onClick={() => removeFilter('categories', category)}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
       {/* Models */}
       {filters.models.map((model) => (
         <Badge key={model} variant="secondary" className="gap-1">
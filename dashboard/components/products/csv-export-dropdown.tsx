@@ -18,6 +18,7 @@ type Product = {
   priceRaw: any
   currency: string | null
   availability: string | null
+  category: string | null
   modelName: string | null
   storageGb: string | null
   color: string | null
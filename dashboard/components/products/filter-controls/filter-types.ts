@@ -32,6 +32,7 @@ export const NON_EMPTY_FILTERABLE_COLUMNS: { key: NonEmptyFilterableColumn; labe
 
 export type ProductFilters = {
   // Multi-select filters
+  categories: string[]
   models: string[]
   colors: string[]
   warranties: string[]
@@ -54,6 +55,7 @@ export type ProductFilters = {
 }
 
 export const DEFAULT_FILTERS: ProductFilters = {
+  categories: [],
   models: [],
   colors: [],
   warranties: [],
@@ -70,6 +72,11 @@ export const DEFAULT_FILTERS: ProductFilters = {
 // Filter options fetched from DB
 export type FilterOptions = {
   models: string[]
+  // Model names of products that are not in the device catalog
+  unmatchedModels: string[]
+  categories: { id: string; label: string }[]
+  // Model shortcuts from the category definitions, e.g. "Series 15" -> ["iPhone 15"]
+  modelGroups: { label: string; category: string; prefixes: string[] }[]
   colors: string[]
   warranties: string[]
   conditions: string[]
@@ -85,6 +92,7 @@ export type ColumnKey =
   | 'name'
   | 'description'
   | 'price'
+  | 'category'
   | 'model'
   | 'storage'
   | 'color'
@@ -111,6 +119,7 @@ export const ALL_COLUMNS: ColumnDefinition[] = [
   { key: 'name', label: 'Name', group: 'basic', defaultVisible: true },
   { key: 'description', label: 'Description', group: 'basic', defaultVisible: true },
   { key: 'price', label: 'Price', group: 'basic', defaultVisible: true },
+  { key: 'category', label: 'Category', group: 'device', defaultVisible: false },
   { key: 'model', label: 'Model', group: 'device', defaultVisible: true },
   { key: 'storage', label: 'Storage', group: 'device', defaultVisible: true },
   { key: 'color', label: 'Color', group: 'device', defaultVisible: true },
@@ -145,6 +154,7 @@ export const ACTIVE_TIME_OPTIONS = [
 // Helper to check if filters are active (different from defaults)
 export function hasActiveFilters(filters: ProductFilters): boolean {
   return (
+    filters.categories.length > 0 ||
     filters.models.length > 0 ||
     filters.colors.length > 0 ||
     filters.warranties.length > 0 ||
@@ -166,6 +176,7 @@ export function hasActiveFilters(filters: ProductFilters): boolean {
 // Count active filters
 export function countActiveFilters(filters: ProductFilters): number {
   let count = 0
+  if (filters.categories.length > 0) count++
   if (filters.models.length > 0) count++
   if (filters.colors.length > 0) count++
   if (filters.warranties.length > 0) count++
@@ -30,20 +30,10 @@ interface FiltersSidebarProps {
   filterOptions: FilterOptions | null
 }
 
-// Series shortcuts - maps series name to model prefixes
-const SERIES_GROUPS: Record<string, string[]> = {
-  'Series 13-17': ['iPhone 13', 'iPhone 14', 'iPhone 15', 'iPhone 16', 'iPhone 17', 'iPhone Air'],
-  'Series 13': ['iPhone 13'],
-  'Series 14': ['iPhone 14'],
-  'Series 15': ['iPhone 15'],
-  'Series 16': ['iPhone 16'],
-  'Series 17': ['iPhone 17', 'iPhone Air'],
-}
+const UNMATCHED_VALUE = '__unmatched__'
 
-// Get models that belong to a series
-function getModelsForSeries(seriesKey: string, allModels: string[]): string[] {
-  const prefixes = SERIES_GROUPS[seriesKey]
-  if (!prefixes) return []
+// Get models that start with any of a group's prefixes
+function getModelsForGroup(prefixes: string[], allModels: string[]): string[] {
   return allModels.filter((model) =>
     prefixes.some((prefix) => model.startsWith(prefix))
   )
@@ -88,11 +78,13 @@ export function FiltersSidebar({
   }
 
   const allModels = filterOptions?.models || []
+  const unmatchedModels = filterOptions?.unmatchedModels || []
 
-  // Create series options at the top
-  const seriesOptions = Object.keys(SERIES_GROUPS).map((series) => ({
-    value: `__series__${series}`,
-    label: `📱 ${series}`,
+  // Model group shortcuts (from the category definitions) at the top
+  const groups = filterOptions?.modelGroups || []
+  const groupOptions = groups.map((group, index) => ({
+    value: `__group__${index}`,
+    label: `📱 ${group.label}`,
   }))
 
   // Individual model options
@@ -101,19 +93,29 @@ export function FiltersSidebar({
     label: m,
   }))
 
-  // Combined options: series first, then individual models
-  const modelOptions = [...seriesOptions, ...individualModelOptions]
+  // Model names outside the device catalog, last, with a shortcut selecting them all
+  const unmatchedOptions =
+    unmatchedModels.length > 0
+      ? [
+          { value: UNMATCHED_VALUE, label: `⚠️ Unmatched (${unmatchedModels.length})` },
+          ...unmatchedModels.map((m) => ({ value: m, label: `${m} (unmatched)` })),
+        ]
+      : []
+
+  // Combined options: groups first, then individual models, then unmatched ones
+  const modelOptions = [...groupOptions, ...individualModelOptions, ...unmatchedOptions]
 
-  // Custom handler for model selection that expands series
+  // Custom handler for model selection that expands groups
   const handleModelSelection = (selected: string[]) => {
     const expandedModels: string[] = []
     const regularModels: string[] = []
 
     for (const value of selected) {
-      if (value.startsWith('__series__')) {
-        const seriesKey = value.replace('__series__', '')
-        const seriesModels = getModelsForSeries(seriesKey, allModels)
-        expandedModels.push(...seriesModels)
+      if (value === UNMATCHED_VALUE) {
+        expandedModels.push(...unmatchedModels)
+      } else if (value.startsWith('__group__')) {
+        const group = groups[Number(value.replace('__group__', ''))]
+        if (group) expandedModels.push(...getModelsForGroup(group.prefixes, allModels))
       } else {
         regularModels.push(value)
       }
@@ -124,6 +126,11 @@ export function FiltersSidebar({
     updateFilter('models', uniqueModels)
   }
 
+  const categoryOptions = (filterOptions?.categories || []).map((c) => ({
+    value: c.id,
+    label: c.label,
+  }))
+
   const colorOptions = (filterOptions?.colors || []).map((c) => ({
     value: c,
     label: c,
@@ -185,6 +192,18 @@ export function FiltersSidebar({
 
             <Separator />
 
+            {/* Category Filter */}
+            <MultiSelectFilter
+              label="Category"
+              options={categoryOptions}
+              selected={localFilters.categories}
+              onChange={(value) => updateFilter('categories', value)}
+              placeholder="All categories"
+              searchPlaceholder="Search categories..."
+            />
+
+            <Separator />
+
             {/* Model Filter */}
             <MultiSelectFilter
               label="Model"
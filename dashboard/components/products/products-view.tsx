@@ -39,6 +39,7 @@ type Product = {
   currency: string | null
   availability: string | null
   imageCount: number | null
+  category: string | null
   modelName: string | null
   storageGb: string | null
   color: string | null
@@ -246,6 +247,13 @@ export function ProductsView({ products }: ProductsViewProps) {
         sortValue: (product: Product) => product.priceRaw != null ? Number(product.priceRaw) : null,
         render: (product: Product) => formatPrice(product.priceRaw, product.currency),
       },
+      {
+        key: 'category' as const,
+        header: 'Category',
+        sortable: true,
+        sortValue: (product: Product) => product.category || '',
+        render: (product: Product) => product.category || '-',
+      },
       {
         key: 'model' as const,
         header: 'Model',
@@ -0,0 +1,376 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ACTIVE_RUN_STATUSES } from '@/lib/pipeline-runs'
+
+interface RunStagingDialogProps {
+  // Run to inspect; the dialog is open while set
+  runId: number | null
+  onOpenChange: (open: boolean) => void
+  // Called once the run's staged data was discarded
+  onDiscarded: () => void
+}
+
+type StagedSeller = {
+  sellerPhone: string
+  name: string | null
+  outcome: string
+  productsTotal: number
+  productsMatched: number
+  durationMs: number | null
+  error: string | null
+  session: string | null
+  stagedAt: string
+  processedAt: string | null
+}
+
+type EnrichedField = 'modelName' | 'storageGb' | 'color' | 'condition'
+
+// `sources` says which fields the rule-based extractor filled in and which the LLM did;
+// `catalogIssues` what did not match the device catalog
+type StagedEnrichment = Partial<Record<EnrichedField, string | null>> & {
+  sources?: Partial<Record<EnrichedField, 'rules' | 'llm'>>
+  catalogIssues?: string[]
+}
+
+type StagedProduct = {
+  productId: string
+  sellerPhone: string
+  name: string | null
+  priceFormatted: string | null
+  category: string | null
+  enrichment: StagedEnrichment | null
+  enrichedAt: string | null
+  enrichmentError: string | null
+}
+
+type StagingResponse = {
+  run: { id: number; status: string; startedAt: string }
+  summary: {
+    sellers: number
+    processed: number
+    products: number
+    enriched: number
+    enrichFailed: number
+  }
+  sellers: StagedSeller[]
+  products: StagedProduct[]
+  offset: number
+  limit: number
+}
+
+const PAGE_SIZE = 50
+
+function EnrichedValue({ enrichment, field }: { enrichment: StagedEnrichment | null; field: EnrichedField }) {
+  const value = enrichment?.[field]
+  if (!value) return <>-</>
+  return (
+    <>
+      {value}
+      {enrichment?.sources?.[field] === 'rules' && (
+        <span className="ml-1 text-xs text-muted-foreground" title="Extracted by rules, not the LLM">
+          (rules)
+        </span>
+      )}
+    </>
+  )
+}
+
+const getOutcomeVariant = (outcome: string): 'default' | 'secondary' | 'destructive' => {
+  if (outcome === 'OK') return 'default'
+  if (outcome === 'EMPTY') return 'secondary'
+  return 'destructive'
+}
+
+// Render with key={runId} so each run opens on a fresh seller list
+export function RunStagingDialog({ runId, onOpenChange, onDiscarded }: RunStagingDialogProps) {
+  const [data, setData] = useState<StagingResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [sellerPhone, setSellerPhone] = useState<string | null>(null)
+  const [offset, setOffset] = useState(0)
+  const [tab, setTab] = useState('sellers')
+  const [isDiscarding, setIsDiscarding] = useState(false)
+
+  const fetchStaging = useCallback(async () => {
+    if (runId === null) return
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ offset: String(offset), limit: String(PAGE_SIZE) })
+      if (sellerPhone) params.set('sellerPhone', sellerPhone)
+      const res = await fetch(`/api/scraper/runs/${runId}/staging?${params}`)
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error || 'Failed to fetch staged data')
+        return
+      }
+      setData(body)
+      setError(null)
+    } catch {
+      setError('Failed to fetch staged data')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [runId, offset, sellerPhone])
+
+  useEffect(() => {
+    fetchStaging()
+  }, [fetchStaging])
+
+  const showSellerProducts = (phone: string) => {
+    setSellerPhone(phone)
+    setOffset(0)
+    setTab('products')
+  }
+
+  const handleDiscard = async () => {
+    const message =
+      `Discard everything run #${runId} staged? ` +
+      'Resuming it will start over from its first step.'
+    if (!confirm(message)) return
+    setIsDiscarding(true)
+    try {
+      const res = await fetch(`/api/scraper/runs/${runId}/staging`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setError(body.error || 'Failed to discard staged data')
+        return
+      }
+      setSellerPhone(null)
+      setOffset(0)
+      await fetchStaging()
+      onDiscarded()
+    } catch {
+      setError('Failed to discard staged data')
+    } finally {
+      setIsDiscarding(false)
+    }
+  }
+
+  const summary = data?.summary
+  const canDiscard =
+    data !== null && data.summary.sellers > 0 && !ACTIVE_RUN_STATUSES.includes(data.run.status)
+
+  return (
+    <Dialog open={runId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Run #{runId} Staging</DialogTitle>
+          <DialogDescription>
+            {summary
+              ? `${summary.sellers} seller(s) staged, ${summary.processed} processed; ` +
+                `${summary.products} product(s), ${summary.enriched} enriched` +
+                (summary.enrichFailed > 0 ? `, ${summary.enrichFailed} failed enrichment.` : '.')
+              : 'Data the pipeline steps of this run handed to each other.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canDiscard && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="self-start"
+            onClick={handleDiscard}
+            disabled={isDiscarding}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Discard staged data
+          </Button>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {data && data.summary.sellers === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Nothing staged for this run. It may predate staging, or its data was pruned.
+          </p>
+        )}
+
+        {data && data.summary.sellers > 0 && (
+          <Tabs value={tab} onValueChange={setTab} className="flex flex-col min-h-0">
+            <TabsList className="self-start">
+              <TabsTrigger value="sellers">Sellers</TabsTrigger>
+              <TabsTrigger value="products">Products</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sellers" className="overflow-auto border min-h-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Seller</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Processed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.sellers.map((seller) => (
+                    <TableRow
+                      key={seller.sellerPhone}
+                      className="cursor-pointer"
+                      onClick={() => showSellerProducts(seller.sellerPhone)}
+                    >
+                      <TableCell>
+                        <div className="font-mono">{seller.sellerPhone}</div>
+                        {seller.name && (
+                          <div className="text-xs text-muted-foreground">{seller.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getOutcomeVariant(seller.outcome)}>{seller.outcome}</Badge>
+                        {seller.error && (
+                          <div className="text-xs text-destructive max-w-[240px] truncate" title={seller.error}>
+                            {seller.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {seller.productsMatched} of {seller.productsTotal}
+                      </TableCell>
+                      <TableCell>{seller.session || '-'}</TableCell>
+                      <TableCell>
+                        {seller.durationMs !== null ? `${(seller.durationMs / 1000).toFixed(1)}s` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {seller.processedAt ? new Date(seller.processedAt).toLocaleString() : 'Pending'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="products" className="flex flex-col gap-2 min-h-0">
+              <div className="flex items-center gap-2 text-sm">
+                {sellerPhone ? (
+                  <>
+                    <span>
+                      Seller <span className="font-mono">{sellerPhone}</span>
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSellerPhone(null)
+                        setOffset(0)
+                      }}
+                    >
+                      All sellers
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">All sellers</span>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                  <span className="text-muted-foreground">
+                    {data.products.length > 0
+                      ? `${offset + 1}-${offset + data.products.length}`
+                      : '0'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={offset === 0 || isLoading}
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={data.products.length < PAGE_SIZE || isLoading}
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+              <div className="overflow-auto border min-h-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Storage</TableHead>
+                      <TableHead>Color</TableHead>
+                      <TableHead>Condition</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.products.map((product) => (
+                      <TableRow key={product.productId}>
+                        <TableCell className="max-w-[280px] truncate" title={product.name ?? ''}>
+                          {product.name || product.productId}
+                        </TableCell>
+                        <TableCell>{product.priceFormatted || '-'}</TableCell>
+                        <TableCell>{product.category || '-'}</TableCell>
+                        {product.enrichment || product.enrichmentError ? (
+                          <>
+                            <TableCell>
+                              {product.enrichmentError ? (
+                                <span className="text-destructive" title={product.enrichmentError}>
+                                  Enrichment failed
+                                </span>
+                              ) : (
+                                <EnrichedValue enrichment={product.enrichment} field="modelName" />
+                              )}
+                              {product.enrichment?.catalogIssues && (
+                                <Badge
+                                  variant="outline"
+                                  className="ml-1 text-yellow-700"
+                                  title={product.enrichment.catalogIssues.join('\n')}
+                                >
+                                  Off catalog
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <EnrichedValue enrichment={product.enrichment} field="storageGb" />
+                            </TableCell>
+                            <TableCell>
+                              <EnrichedValue enrichment={product.enrichment} field="color" />
+                            </TableCell>
+                            <TableCell>
+                              <EnrichedValue enrichment={product.enrichment} field="condition" />
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-muted-foreground">
+                            Not enriched yet
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -6,6 +6,7 @@ import { ViewToggle } from '@/components/view-toggle'
 import { DataTable } from '@/components/data-table'
 import { CardGrid } from '@/components/card-grid'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
 import { Pagination } from '@/components/pagination'
 import { useSearchPagination } from '@/hooks/use-search-pagination'
 import { useColumnOrder } from '@/hooks/use-column-order'
@@ -17,6 +18,10 @@ type ScanLog = {
   productsFound: number
   productsNew: number
   productsUpdated: number
+  status: string
+  errorMessage: string | null
+  scraperRunId: number | null
+  sessionName: string | null
   seller: {
     phoneNumber: string
     name: string | null
@@ -28,17 +33,44 @@ interface ScanLogsViewProps {
   logs: ScanLog[]
 }
 
-type ScanLogColumnKey = 'id' | 'seller' | 'scanTime' | 'productsFound' | 'productsNew' | 'productsUpdated'
+type ScanLogColumnKey =
+  | 'id'
+  | 'seller'
+  | 'scanTime'
+  | 'status'
+  | 'productsFound'
+  | 'productsNew'
+  | 'productsUpdated'
+  | 'run'
+  | 'session'
 
 const DEFAULT_COLUMN_ORDER: ScanLogColumnKey[] = [
   'id',
   'seller',
   'scanTime',
+  'status',
   'productsFound',
   'productsNew',
   'productsUpdated',
+  'run',
+  'session',
 ]
 
+// FAILED/TIMEOUT scans could not fetch the catalog; EMPTY ones fetched it but found nothing
+const getStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'OK':
+      return 'default'
+    case 'EMPTY':
+      return 'secondary'
+    case 'FAILED':
+    case 'TIMEOUT':
+      return 'destructive'
+    default:
+      return 'outline'
+  }
+}
+
 export function ScanLogsView({ logs }: ScanLogsViewProps) {
   const [view, setView] = useState<'table' | 'cards'>('table')
 
@@ -63,9 +95,11 @@ export function ScanLogsView({ logs }: ScanLogsViewProps) {
       log.sellerPhone,
       log.seller.name || '',
       log.seller.city || '',
+      log.status,
       log.productsFound.toString(),
       log.productsNew.toString(),
       log.productsUpdated.toString(),
+      log.sessionName || '',
     ],
     10
   )
@@ -87,6 +121,15 @@ export function ScanLogsView({ logs }: ScanLogsViewProps) {
         header: 'Scan Time',
         render: (log: ScanLog) => new Date(log.scanTime).toLocaleString(),
       },
+      {
+        key: 'status',
+        header: 'Status',
+        render: (log: ScanLog) => (
+          <Badge variant={getStatusBadgeVariant(log.status)} title={log.errorMessage ?? undefined}>
+            {log.status}
+          </Badge>
+        ),
+      },
       {
         key: 'productsFound',
         header: 'Found',
@@ -102,6 +145,16 @@ export function ScanLogsView({ logs }: ScanLogsViewProps) {
         header: 'Updated',
         render: (log: ScanLog) => log.productsUpdated,
       },
+      {
+        key: 'run',
+        header: 'Run',
+        render: (log: ScanLog) => (log.scraperRunId ? `#${log.scraperRunId}` : '-'),
+      },
+      {
+        key: 'session',
+        header: 'Session',
+        render: (log: ScanLog) => log.sessionName || '-',
+      },
     ],
     []
   )
@@ -147,8 +200,9 @@ export function ScanLogsView({ logs }: ScanLogsViewProps) {
             renderCard={(log: ScanLog) => (
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">
+                  <CardTitle className="text-lg flex items-center justify-between">
                     Scan #{log.id}
+                    <Badge variant={getStatusBadgeVariant(log.status)}>{log.status}</Badge>
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
@@ -170,6 +224,14 @@ export function ScanLogsView({ logs }: ScanLogsViewProps) {
                       <p className="text-lg font-semibold">{log.productsUpdated}</p>
                     </div>
                   </div>
+                  {log.errorMessage && (
+                    <p className="text-xs text-destructive pt-2">{log.errorMessage}</p>
+                  )}
+                  {log.sessionName && (
+                    <div className="text-xs text-muted-foreground pt-2">
+                      {log.scraperRunId ? `Run #${log.scraperRunId} · ` : ''}Session {log.sessionName}
+                    </div>
+                  )}
                   <div className="text-xs text-muted-foreground pt-2">
                     {new Date(log.scanTime).toLocaleString()}
                   </div>
@@ -0,0 +1,413 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Clock, X } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { PIPELINE_STEP_NAMES } from '@/lib/pipeline-runs'
+import type { PipelineStepName } from '@/lib/pipeline-events'
+import { cronToTimes, formatTime12h, timesToCron } from '@/lib/schedule-times'
+
+export type ScheduleTarget = 'ALL' | 'TAG' | 'STEPS'
+
+export interface Schedule {
+  id: number
+  name: string
+  cronExpr: string
+  timezone: string
+  enabled: boolean
+  target: ScheduleTarget
+  sellerTag: string | null
+  firstStep: PipelineStepName
+  lastStep: PipelineStepName
+  // Scrape only the sellers whose scrape interval is up
+  dueOnly: boolean
+  // Upcoming fire times, as ISO strings
+  nextRuns: string[]
+}
+
+interface ScheduleDialogProps {
+  open: boolean
+  // Schedule to edit; a new one when null
+  schedule: Schedule | null
+  // Seller tags in use, suggested for TAG schedules
+  sellerTags: string[]
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+const TARGET_LABELS: Record<ScheduleTarget, string> = {
+  ALL: 'All sellers',
+  TAG: 'Sellers with a tag',
+  STEPS: 'Specific steps',
+}
+
+// How long the editor waits after a change before previewing the fire times
+const PREVIEW_DELAY_MS = 400
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const formatRunTime = (iso: string, timezone: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+// Render with a new key each time it opens so it starts from `schedule`
+export function ScheduleDialog({
+  open,
+  schedule,
+  sellerTags,
+  onOpenChange,
+  onSaved,
+}: ScheduleDialogProps) {
+  const initialTimes = schedule ? cronToTimes(schedule.cronExpr) : ['09:00', '21:00']
+  const [name, setName] = useState(schedule?.name ?? '')
+  const [timezone, setTimezone] = useState(schedule?.timezone ?? browserTimezone())
+  const [enabled, setEnabled] = useState(schedule?.enabled ?? true)
+  // Daily times cover most schedules; anything else is edited as a cron expression
+  const [mode, setMode] = useState<'times' | 'cron'>(initialTimes ? 'times' : 'cron')
+  const [times, setTimes] = useState<string[]>(initialTimes ?? [])
+  const [newTime, setNewTime] = useState('12:00')
+  const [cronExpr, setCronExpr] = useState(schedule?.cronExpr ?? '0 9,21 * * *')
+  const [target, setTarget] = useState<ScheduleTarget>(schedule?.target ?? 'ALL')
+  const [sellerTag, setSellerTag] = useState(schedule?.sellerTag ?? '')
+  const [firstStep, setFirstStep] = useState<PipelineStepName>(schedule?.firstStep ?? 'enrich')
+  const [lastStep, setLastStep] = useState<PipelineStepName>(schedule?.lastStep ?? 'process')
+  const [dueOnly, setDueOnly] = useState(schedule?.dueOnly ?? true)
+  const [preview, setPreview] = useState<{ nextRuns: string[]; timezone: string } | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const timezones = useMemo(() => Intl.supportedValuesOf('timeZone'), [])
+
+  const effectiveCron = mode === 'times' ? timesToCron(times) : cronExpr.trim()
+  const timesError =
+    mode === 'times' && times.length > 0 && !effectiveCron
+      ? 'Times with different minutes cannot share one cron expression; add a schedule for each minute'
+      : null
+
+  useEffect(() => {
+    if (!open || !effectiveCron) {
+      setPreview(null)
+      setPreviewError(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/scheduler/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cronExpr: effectiveCron, timezone }),
+        })
+        const data = await res.json()
+        if (res.ok) {
+          setPreview({ nextRuns: data.nextRuns, timezone })
+          setPreviewError(null)
+        } else {
+          setPreview(null)
+          setPreviewError(data.error)
+        }
+      } catch {
+        setPreviewError('Failed to preview the schedule')
+      }
+    }, PREVIEW_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [open, effectiveCron, timezone])
+
+  const handleAddTime = () => {
+    if (!times.includes(newTime)) {
+      setTimes([...times, newTime].sort())
+    }
+  }
+
+  const handleModeChange = (next: 'times' | 'cron') => {
+    if (next === 'cron' && effectiveCron) {
+      setCronExpr(effectiveCron)
+    }
+    if (next === 'times') {
+      setTimes(cronToTimes(cronExpr) ?? [])
+    }
+    setMode(next)
+  }
+
+  const handleFirstStepChange = (step: PipelineStepName) => {
+    setFirstStep(step)
+    if (PIPELINE_STEP_NAMES.indexOf(lastStep) < PIPELINE_STEP_NAMES.indexOf(step)) {
+      setLastStep(step)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!effectiveCron) return
+
+    setIsSaving(true)
+    try {
+      const res = await fetch(schedule ? `/api/scheduler/${schedule.id}` : '/api/scheduler', {
+        method: schedule ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          cronExpr: effectiveCron,
+          timezone,
+          enabled,
+          target,
+          sellerTag: target === 'TAG' ? sellerTag : null,
+          firstStep,
+          lastStep,
+          dueOnly,
+        }),
+      })
+
+      if (res.ok) {
+        onSaved()
+        onOpenChange(false)
+      } else {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to save schedule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{schedule ? `Edit "${schedule.name}"` : 'New Schedule'}</DialogTitle>
+          <DialogDescription>
+            The pipeline worker queues a run each time the schedule fires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 text-sm">
+          <div className="space-y-1">
+            <label className="font-medium">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Twice daily"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-4">
+              <label className="font-medium">When</label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={mode === 'times'}
+                  onChange={() => handleModeChange('times')}
+                />
+                Daily at
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={mode === 'cron'}
+                  onChange={() => handleModeChange('cron')}
+                />
+                Cron expression
+              </label>
+            </div>
+
+            {mode === 'times' ? (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {times.length === 0 ? (
+                    <span className="text-muted-foreground">No times scheduled</span>
+                  ) : (
+                    times.map((time) => (
+                      <div
+                        key={time}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-primary/10 rounded-full"
+                      >
+                        <Clock className="h-3 w-3" />
+                        <span>{formatTime12h(time)}</span>
+                        <button
+                          onClick={() => setTimes(times.filter((t) => t !== time))}
+                          className="ml-1 hover:text-destructive"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={newTime}
+                    onChange={(e) => setNewTime(e.target.value)}
+                    className="px-3 py-2 border rounded-md"
+                  />
+                  <Button variant="outline" size="sm" onClick={handleAddTime}>
+                    Add Time
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Input
+                value={cronExpr}
+                onChange={(e) => setCronExpr(e.target.value)}
+                placeholder="minute hour day-of-month month day-of-week"
+                className="font-mono"
+              />
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">Time zone</label>
+            <Input
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              list="schedule-timezones"
+              placeholder="e.g. Asia/Kolkata"
+            />
+            <datalist id="schedule-timezones">
+              {timezones.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <label className="font-medium">Target</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value as ScheduleTarget)}
+                className="px-3 py-2 border rounded-md"
+              >
+                {Object.entries(TARGET_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+
+              {target === 'TAG' && (
+                <>
+                  <Input
+                    value={sellerTag}
+                    onChange={(e) => setSellerTag(e.target.value)}
+                    list="schedule-seller-tags"
+                    placeholder="Seller tag"
+                    className="w-40"
+                  />
+                  <datalist id="schedule-seller-tags">
+                    {sellerTags.map((tag) => (
+                      <option key={tag} value={tag} />
+                    ))}
+                  </datalist>
+                </>
+              )}
+
+              {target === 'STEPS' && (
+                <>
+                  <select
+                    value={firstStep}
+                    onChange={(e) => handleFirstStepChange(e.target.value as PipelineStepName)}
+                    className="px-3 py-2 border rounded-md"
+                  >
+                    {PIPELINE_STEP_NAMES.map((step) => (
+                      <option key={step} value={step}>
+                        {step}
+                      </option>
+                    ))}
+                  </select>
+                  <span>to</span>
+                  <select
+                    value={lastStep}
+                    onChange={(e) => setLastStep(e.target.value as PipelineStepName)}
+                    className="px-3 py-2 border rounded-md"
+                  >
+                    {PIPELINE_STEP_NAMES.slice(PIPELINE_STEP_NAMES.indexOf(firstStep)).map(
+                      (step) => (
+                        <option key={step} value={step}>
+                          {step}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </>
+              )}
+            </div>
+            {target === 'STEPS' && firstStep !== 'scrape' && (
+              <p className="text-xs text-muted-foreground">
+                Starts from the data staged by the latest run.
+              </p>
+            )}
+          </div>
+
+          {(target !== 'STEPS' || firstStep === 'scrape') && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={dueOnly}
+                onChange={(e) => setDueOnly(e.target.checked)}
+                className="h-4 w-4"
+              />
+              <span>Only scrape sellers that are due (per-seller scrape intervals)</span>
+            </label>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="h-4 w-4"
+            />
+            <span>Enabled</span>
+          </label>
+
+          <div className="rounded-md bg-muted/50 p-3">
+            <div className="font-medium mb-1">Next runs</div>
+            {timesError || previewError ? (
+              <p className="text-red-600">{timesError ?? previewError}</p>
+            ) : preview && preview.nextRuns.length > 0 ? (
+              <ul className="space-y-0.5 text-muted-foreground">
+                {preview.nextRuns.map((run) => (
+                  <li key={run}>{formatRunTime(run, preview.timezone)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground">
+                {effectiveCron ? 'Calculating...' : 'Add a time to see when it runs'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || !effectiveCron || previewError !== null}
+          >
+            {isSaving ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Clock, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cronToTimes, formatTime12h } from '@/lib/schedule-times'
+import { stepRangeLabel } from '@/lib/pipeline-runs'
+import { Schedule, ScheduleDialog, formatRunTime } from './schedule-dialog'
+
+interface SchedulesPanelProps {
+  // Recent runs, for each schedule's last run
+  runs: { id: number; scheduleId: number | null; status: string; startedAt: string }[]
+  getStatusBadgeClass: (status: string) => string
+}
+
+// Fire times listed per schedule; the editor shows more
+const SHOWN_RUNS = 3
+
+const describeWhen = (schedule: Schedule) => {
+  const times = cronToTimes(schedule.cronExpr)
+  return times ? `Daily at ${times.map(formatTime12h).join(', ')}` : schedule.cronExpr
+}
+
+const describeTarget = (schedule: Schedule) => {
+  const target =
+    schedule.target === 'TAG'
+      ? `Sellers tagged "${schedule.sellerTag}"`
+      : schedule.target === 'STEPS'
+        ? `Steps ${stepRangeLabel(schedule)}`
+        : 'All sellers'
+  const scrapes = schedule.target !== 'STEPS' || schedule.firstStep === 'scrape'
+  return scrapes && schedule.dueOnly ? `${target}, when due` : target
+}
+
+export function SchedulesPanel({ runs, getStatusBadgeClass }: SchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [sellerTags, setSellerTags] = useState<string[]>([])
+  const [editing, setEditing] = useState<Schedule | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  // Remounts the editor so it opens on fresh values
+  const [editorKey, setEditorKey] = useState(0)
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/scheduler')
+      if (res.ok) {
+        setSchedules(await res.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [fetchSchedules])
+
+  const openEditor = async (schedule: Schedule | null) => {
+    setEditing(schedule)
+    setEditorKey((key) => key + 1)
+    setIsDialogOpen(true)
+    if (sellerTags.length > 0) return
+    try {
+      const res = await fetch('/api/sellers')
+      if (res.ok) {
+        const sellers: { tags: string[] }[] = await res.json()
+        setSellerTags(Array.from(new Set(sellers.flatMap((seller) => seller.tags))).sort())
+      }
+    } catch (error) {
+      console.error('Failed to fetch seller tags:', error)
+    }
+  }
+
+  const handleToggle = async (schedule: Schedule) => {
+    try {
+      const res = await fetch(`/api/scheduler/${schedule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...schedule, enabled: !schedule.enabled }),
+      })
+      if (res.ok) {
+        fetchSchedules()
+      } else {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to update schedule')
+    }
+  }
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"? Its past runs are kept.`)) return
+    try {
+      const res = await fetch(`/api/scheduler/${schedule.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchSchedules()
+      } else {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to delete schedule')
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Schedules
+        </h2>
+        <Button
+          variant="outline"
+          onClick={() => openEditor(null)}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Schedule
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2 px-3">Enabled</th>
+              <th className="text-left py-2 px-3">Name</th>
+              <th className="text-left py-2 px-3">When</th>
+              <th className="text-left py-2 px-3">Target</th>
+              <th className="text-left py-2 px-3">Next Runs</th>
+              <th className="text-left py-2 px-3">Last Run</th>
+              <th className="py-2 px-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="text-center py-4 text-muted-foreground">
+                  No schedules; runs only start when queued by hand
+                </td>
+              </tr>
+            ) : (
+              schedules.map((schedule) => {
+                const lastRun = runs.find((run) => run.scheduleId === schedule.id)
+                return (
+                  <tr key={schedule.id} className="border-b hover:bg-muted/50">
+                    <td className="py-2 px-3">
+                      <input
+                        type="checkbox"
+                        checked={schedule.enabled}
+                        onChange={() => handleToggle(schedule)}
+                        className="h-4 w-4"
+                        title={schedule.enabled ? 'Pause schedule' : 'Enable schedule'}
+                      />
+                    </td>
+                    <td className="py-2 px-3 font-medium">{schedule.name}</td>
+                    <td className="py-2 px-3">
+                      {describeWhen(schedule)}
+                      <div className="text-xs text-muted-foreground">{schedule.timezone}</div>
+                    </td>
+                    <td className="py-2 px-3">{describeTarget(schedule)}</td>
+                    <td
+                      className={`py-2 px-3 whitespace-nowrap ${schedule.enabled ? '' : 'text-muted-foreground line-through'}`}
+                    >
+                      {schedule.nextRuns.slice(0, SHOWN_RUNS).map((run) => (
+                        <div key={run}>{formatRunTime(run, schedule.timezone)}</div>
+                      ))}
+                    </td>
+                    <td className="py-2 px-3">
+                      {lastRun ? (
+                        <span className="whitespace-nowrap">
+                          #{lastRun.id}{' '}
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(lastRun.status)}`}
+                          >
+                            {lastRun.status}
+                          </span>
+                        </span>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                    <td className="py-2 px-3 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditor(schedule)}
+                        title="Edit schedule"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(schedule)}
+                        title="Delete schedule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <ScheduleDialog
+        key={editorKey}
+        open={isDialogOpen}
+        schedule={editing}
+        sellerTags={sellerTags}
+        onOpenChange={setIsDialogOpen}
+        onSaved={fetchSchedules}
+      />
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -7,7 +8,18 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
-import { ExternalLink, Phone, MapPin, Calendar } from 'lucide-react'
+import {
+  ExternalLink,
+  Phone,
+  MapPin,
+  Calendar,
+  Store,
+  Mail,
+  Globe,
+  Clock,
+  History,
+} from 'lucide-react'
+import { SellerRefresh } from '@/components/sellers/seller-refresh'
 
 interface SellerInfo {
   phoneNumber: string
@@ -18,6 +30,57 @@ interface SellerInfo {
   isActive?: boolean
 }
 
+type BusinessHours = {
+  timezone?: string
+  config?: Record<string, { mode?: string; open_time?: number; close_time?: number }>
+}
+
+type BusinessProfile = {
+  businessName: string | null
+  businessDescription: string | null
+  businessAddress: string | null
+  businessEmail: string | null
+  businessWebsites: string[]
+  businessCategory: string | null
+  businessHours: BusinessHours | null
+  profileUpdatedAt: string | null
+}
+
+type ProfileChange = {
+  historyId: number
+  recordedAt: string
+  changedFields: string[]
+}
+
+const DAY_LABELS: Record<string, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun',
+}
+
+// WhatsApp stores opening times as minutes after midnight
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+function formatHours(hours: BusinessHours | null): string[] {
+  if (!hours?.config) return []
+  return Object.entries(DAY_LABELS)
+    .filter(([day]) => hours.config?.[day])
+    .map(([day, label]) => {
+      const entry = hours.config![day]
+      if (entry.mode === 'open_24h') return `${label}: open 24h`
+      if (entry.mode === 'appointment_only') return `${label}: by appointment`
+      if (entry.open_time != null && entry.close_time != null) {
+        return `${label}: ${formatMinutes(entry.open_time)}–${formatMinutes(entry.close_time)}`
+      }
+      return `${label}: open`
+    })
+}
+
 interface SellerDetailsModalProps {
   seller: SellerInfo | null
   open: boolean
@@ -25,11 +88,39 @@ interface SellerDetailsModalProps {
 }
 
 export function SellerDetailsModal({ seller, open, onOpenChange }: SellerDetailsModalProps) {
+  const [profile, setProfile] = useState<BusinessProfile | null>(null)
+  const [profileHistory, setProfileHistory] = useState<ProfileChange[]>([])
+
+  const phoneNumber = seller?.phoneNumber
+
+  // Load the scraped business profile whenever the modal opens
+  useEffect(() => {
+    setProfile(null)
+    setProfileHistory([])
+    if (!open || !phoneNumber) return
+
+    let cancelled = false
+    fetch(`/api/sellers/${phoneNumber}/profile`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return
+        setProfile(data.profile)
+        setProfileHistory(data.history)
+      })
+      .catch(console.error)
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, phoneNumber])
+
   if (!seller) return null
 
+  const hours = formatHours(profile?.businessHours ?? null)
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{seller.name || 'Unknown Seller'}</DialogTitle>
         </DialogHeader>
@@ -61,6 +152,74 @@ export function SellerDetailsModal({ seller, open, onOpenChange }: SellerDetails
             </div>
           )}
 
+          {profile?.profileUpdatedAt && (
+            <div className="pt-2 border-t space-y-3">
+              <div className="flex items-center gap-3">
+                <Store className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{profile.businessName || 'Business profile'}</span>
+                {profile.businessCategory && (
+                  <Badge variant="outline">{profile.businessCategory}</Badge>
+                )}
+              </div>
+              {profile.businessDescription && (
+                <p className="text-sm text-muted-foreground">{profile.businessDescription}</p>
+              )}
+              {profile.businessAddress && (
+                <div className="flex items-start gap-3 text-sm">
+                  <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <span>{profile.businessAddress}</span>
+                </div>
+              )}
+              {profile.businessEmail && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <a href={`mailto:${profile.businessEmail}`} className="text-blue-600 hover:underline">
+                    {profile.businessEmail}
+                  </a>
+                </div>
+              )}
+              {profile.businessWebsites.map((url) => (
+                <div key={url} className="flex items-center gap-3 text-sm">
+                  <Globe className="h-4 w-4 text-muted-foreground" />
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:underline truncate"
+                  >
+                    {url}
+                  </a>
+                </div>
+              ))}
+              {hours.length > 0 && (
+                <div className="flex items-start gap-3 text-sm">
+                  <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <div>
+                    {hours.map((line) => (
+                      <div key={line}>{line}</div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {profileHistory.length > 0 && (
+                <div className="flex items-start gap-3 text-xs text-muted-foreground">
+                  <History className="h-4 w-4 mt-0.5" />
+                  <div>
+                    {profileHistory.slice(0, 5).map((change) => (
+                      <div key={change.historyId}>
+                        {new Date(change.recordedAt).toLocaleDateString()}:{' '}
+                        {change.changedFields.join(', ')}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Profile checked {new Date(profile.profileUpdatedAt).toLocaleString()}
+              </p>
+            </div>
+          )}
+
           {seller.catalogueUrl && (
             <div className="pt-2 border-t">
               <a
@@ -75,6 +234,10 @@ export function SellerDetailsModal({ seller, open, onOpenChange }: SellerDetails
             </div>
           )}
 
+          <div className="pt-2 border-t">
+            <SellerRefresh key={seller.phoneNumber} phoneNumber={seller.phoneNumber} />
+          </div>
+
           <div className="pt-2 border-t">
             <a
               href={`https://wa.me/${seller.phoneNumber}`}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { Seller } from '@prisma/client'
+
+export type SellerFormData = {
+  phoneNumber: string
+  name: string
+  city: string
+  catalogueUrl: string
+  notes: string
+  tags: string
+  enabled: boolean
+  // Hours between scrapes; blank leaves it to the adaptive interval
+  scrapeIntervalHours: string
+}
+
+interface SellerFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // When set the dialog edits this seller, otherwise it adds a new one
+  seller: Seller | null
+  onSave: (data: SellerFormData) => Promise<string | null>
+}
+
+const toFormData = (seller: Seller | null): SellerFormData => ({
+  phoneNumber: seller?.phoneNumber ?? '',
+  name: seller?.name ?? '',
+  city: seller?.city ?? '',
+  catalogueUrl: seller?.catalogueUrl ?? '',
+  notes: seller?.notes ?? '',
+  tags: seller?.tags.join(', ') ?? '',
+  enabled: seller?.enabled ?? true,
+  scrapeIntervalHours: seller?.scrapeIntervalHours?.toString() ?? '',
+})
+
+export function SellerFormDialog({ open, onOpenChange, seller, onSave }: SellerFormDialogProps) {
+  const [form, setForm] = useState<SellerFormData>(toFormData(seller))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setForm(toFormData(seller))
+      setError(null)
+    }
+  }, [open, seller])
+
+  const update = (field: keyof SellerFormData, value: string | boolean) =>
+    setForm((prev) => ({ ...prev, [field]: value }))
+
+  const canSave = form.phoneNumber.trim().length > 0 || form.catalogueUrl.trim().length > 0
+
+  const handleSave = async () => {
+    if (!canSave) return
+
+    setIsSaving(true)
+    try {
+      const saveError = await onSave(form)
+      if (saveError) {
+        setError(saveError)
+      } else {
+        onOpenChange(false)
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{seller ? 'Edit Seller' : 'Add Seller'}</DialogTitle>
+          <DialogDescription>
+            Enabled sellers are included in every scraper run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="phoneNumber">Phone Number *</Label>
+            <Input
+              id="phoneNumber"
+              value={form.phoneNumber}
+              onChange={(e) => update('phoneNumber', e.target.value)}
+              placeholder="e.g., 919916515577"
+              disabled={!!seller}
+              className="font-mono"
+              autoFocus={!seller}
+            />
+            {!seller && (
+              <p className="text-xs text-muted-foreground">
+                Include the country code. Leave empty to take it from the catalogue link.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" value={form.name} onChange={(e) => update('name', e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="city">City</Label>
+              <Input id="city" value={form.city} onChange={(e) => update('city', e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="catalogueUrl">Catalogue Link</Label>
+            <Input
+              id="catalogueUrl"
+              value={form.catalogueUrl}
+              onChange={(e) => update('catalogueUrl', e.target.value)}
+              placeholder="https://wa.me/c/919916515577"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="tags">Tags</Label>
+            <Input
+              id="tags"
+              value={form.tags}
+              onChange={(e) => update('tags', e.target.value)}
+              placeholder="e.g., mumbai, wholesale"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="notes">Notes</Label>
+            <textarea
+              id="notes"
+              value={form.notes}
+              onChange={(e) => update('notes', e.target.value)}
+              rows={3}
+              className="flex w-full border bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="scrapeIntervalHours">Scrape Interval (hours)</Label>
+            <Input
+              id="scrapeIntervalHours"
+              type="number"
+              min={1}
+              value={form.scrapeIntervalHours}
+              onChange={(e) => update('scrapeIntervalHours', e.target.value)}
+              placeholder={
+                seller?.adaptiveIntervalHours
+                  ? `Adaptive, currently ${seller.adaptiveIntervalHours}`
+                  : 'Adaptive'
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Scheduled runs that only scrape due sellers wait this long between scrapes. Leave
+              empty to follow how often the catalogue changes.
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="enabled"
+              checked={form.enabled}
+              onCheckedChange={(checked) => update('enabled', checked as boolean)}
+            />
+            <Label htmlFor="enabled" className="font-normal cursor-pointer">
+              Enabled for scraping
+            </Label>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving ? 'Saving...' : seller ? 'Save Changes' : 'Add Seller'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
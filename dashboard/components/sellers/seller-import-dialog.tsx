@@ -0,0 +1,299 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type {
+  ImportReport,
+  ImportRow,
+  ImportRowStatus,
+  ImportSummary,
+} from '@/lib/seller-import'
+
+interface SellerImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+type Preview = {
+  source: string
+  rows: ImportRow[]
+  summary: ImportSummary
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+}
+
+const getStatusBadgeVariant = (
+  status: ImportRowStatus
+): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status) {
+    case 'new':
+      return 'default'
+    case 'update':
+      return 'secondary'
+    case 'invalid':
+      return 'destructive'
+    default:
+      return 'outline'
+  }
+}
+
+export function SellerImportDialog({ open, onOpenChange, onImported }: SellerImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [sheetUrl, setSheetUrl] = useState('')
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setFile(null)
+      setSheetUrl('')
+      setPreview(null)
+      setReport(null)
+      setError(null)
+    }
+  }, [open])
+
+  const importableRows = preview
+    ? preview.rows.filter((row) => row.status === 'new' || row.status === 'update')
+    : []
+
+  const handlePreview = async () => {
+    const form = new FormData()
+    if (file) {
+      form.append('file', file)
+    } else if (sheetUrl.trim()) {
+      form.append('sheetUrl', sheetUrl.trim())
+    } else {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/sellers/import/preview', { method: 'POST', body: form })
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error || 'Failed to read sheet')
+        return
+      }
+      setPreview(body)
+    } catch {
+      setError('Failed to read sheet')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/sellers/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: importableRows.map((row) => ({
+            phoneNumber: row.phoneNumber,
+            name: row.name,
+            city: row.city,
+            catalogueUrl: row.catalogueUrl,
+            notes: row.notes,
+            tags: row.tags,
+          })),
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error || 'Failed to import sellers')
+        return
+      }
+      setReport(body)
+      onImported()
+    } catch {
+      setError('Failed to import sellers')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Sellers</DialogTitle>
+          <DialogDescription>
+            {report
+              ? 'Import finished.'
+              : preview
+                ? `Review the rows read from ${preview.source} before importing.`
+                : 'Upload a CSV or XLSX file, or paste a Google Sheet link. Columns: name, city, catalogue_link (or phone), tags, notes.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview && !report && (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="importFile">File</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept=".csv,.xlsx,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sheetUrl">Or Google Sheet link</Label>
+              <Input
+                id="sheetUrl"
+                value={sheetUrl}
+                onChange={(e) => setSheetUrl(e.target.value)}
+                placeholder="https://docs.google.com/spreadsheets/d/..."
+                disabled={!!file}
+              />
+            </div>
+          </div>
+        )}
+
+        {preview && !report && (
+          <div className="flex flex-col gap-4 min-h-0">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                <Badge key={status} variant={getStatusBadgeVariant(status)}>
+                  {STATUS_LABELS[status]}: {preview.summary[status]}
+                </Badge>
+              ))}
+            </div>
+            <div className="overflow-auto border min-h-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>City</TableHead>
+                    <TableHead>Catalogue Link</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusBadgeVariant(row.status)}>
+                          {STATUS_LABELS[row.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">{row.phoneNumber || '-'}</TableCell>
+                      <TableCell>{row.name || '-'}</TableCell>
+                      <TableCell>{row.city || '-'}</TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={row.catalogueUrl ?? ''}>
+                        {row.catalogueUrl || '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.issue ? (
+                          <span className={row.status === 'invalid' ? 'text-destructive' : ''}>
+                            {row.issue}
+                          </span>
+                        ) : row.changes ? (
+                          <span className="text-muted-foreground">
+                            Fills in {row.changes.join(', ')}
+                          </span>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <div className="grid gap-2 py-4 text-sm">
+            <p>
+              <strong>{report.created.length}</strong> seller(s) created,{' '}
+              <strong>{report.updated.length}</strong> updated,{' '}
+              <strong>{report.unchanged.length}</strong> unchanged.
+            </p>
+            {preview && preview.summary.invalid + preview.summary.duplicate > 0 && (
+              <p className="text-muted-foreground">
+                {preview.summary.invalid} invalid and {preview.summary.duplicate} duplicate
+                row(s) were skipped.
+              </p>
+            )}
+            {report.failed.length > 0 && (
+              <div className="text-destructive">
+                <p>{report.failed.length} seller(s) failed:</p>
+                <ul className="list-disc pl-5">
+                  {report.failed.map((failure, i) => (
+                    <li key={i}>
+                      {failure.phoneNumber || 'unknown'}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isLoading}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importableRows.length === 0 || isLoading}>
+                {isLoading ? 'Importing...' : `Import ${importableRows.length} seller(s)`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={(!file && !sheetUrl.trim()) || isLoading}>
+                {isLoading ? 'Reading...' : 'Preview'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
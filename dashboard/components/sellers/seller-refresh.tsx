@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { ProductChange, RefreshChanges, SellerRefresh as RefreshState } from '@/lib/seller-refresh'
+
+// How often a running refresh is checked
+const POLL_MS = 1000
+
+type OutputLine = RefreshState['output'][number]
+
+const formatPrice = (price: number | null, currency: string | null) => {
+  if (price === null) return '-'
+  if (currency) {
+    try {
+      return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(price)
+    } catch {
+      return `${currency} ${price}`
+    }
+  }
+  return String(price)
+}
+
+const outputColor = (type: string) => {
+  switch (type) {
+    case 'stderr':
+      return 'text-red-400'
+    case 'status':
+      return 'text-blue-400'
+    case 'complete':
+      return 'text-green-400'
+    default:
+      return 'text-gray-200'
+  }
+}
+
+const CHANGE_SECTIONS: { key: keyof RefreshChanges; title: string; className: string }[] = [
+  { key: 'created', title: 'New', className: 'text-green-600' },
+  { key: 'updated', title: 'Updated', className: 'text-blue-600' },
+  { key: 'deactivated', title: 'Deactivated', className: 'text-red-600' },
+]
+
+function ChangeList({ changes }: { changes: RefreshChanges }) {
+  const total = changes.created.length + changes.updated.length + changes.deactivated.length
+  if (total === 0) {
+    return <p className="text-sm text-muted-foreground">No product changes since the last scrape.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {CHANGE_SECTIONS.filter(({ key }) => changes[key].length > 0).map(({ key, title, className }) => (
+        <div key={key}>
+          <div className={`text-sm font-medium ${className}`}>
+            {title} ({changes[key].length})
+          </div>
+          <ul className="text-sm divide-y">
+            {changes[key].map((product: ProductChange) => (
+              <li key={product.productId} className="py-1 flex items-center justify-between gap-2">
+                <span className="truncate" title={product.name ?? product.productId}>
+                  {product.modelName || product.name || product.productId}
+                  {product.change === 'REACTIVATED' && (
+                    <Badge variant="outline" className="ml-2">
+                      Back in stock
+                    </Badge>
+                  )}
+                </span>
+                <span className="whitespace-nowrap text-muted-foreground">
+                  {formatPrice(product.price, product.currency)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface SellerRefreshProps {
+  phoneNumber: string
+  // Called once a refresh has finished, e.g. to reload the page's data
+  onFinished?: () => void
+}
+
+/**
+ * "Refresh now": scrapes, enriches and processes one seller through the job
+ * queue, with the run's output as it comes and the product changes at the end
+ */
+export function SellerRefresh({ phoneNumber, onFinished }: SellerRefreshProps) {
+  const [jobId, setJobId] = useState<number | null>(null)
+  const [state, setState] = useState<Omit<RefreshState, 'output' | 'lastOutputId'> | null>(null)
+  const [output, setOutput] = useState<OutputLine[]>([])
+  const [isQueueing, setIsQueueing] = useState(false)
+  const lastOutputIdRef = useRef(0)
+  const outputEndRef = useRef<HTMLDivElement>(null)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  const isActive = state?.status === 'QUEUED' || state?.status === 'RUNNING'
+
+  useEffect(() => {
+    if (jobId === null) return
+
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const poll = async () => {
+      try {
+        const res = await fetch(
+          `/api/sellers/${phoneNumber}/refresh?jobId=${jobId}&after=${lastOutputIdRef.current}`
+        )
+        const data = await res.json()
+        if (stopped) return
+        if (!res.ok) {
+          setState((prev) => (prev ? { ...prev, status: 'FAILED', error: data.error } : prev))
+          return
+        }
+
+        const { output: newLines, lastOutputId, ...rest } = data as RefreshState
+        lastOutputIdRef.current = lastOutputId
+        if (newLines.length > 0) setOutput((prev) => [...prev, ...newLines])
+        setState(rest)
+
+        if (rest.status === 'QUEUED' || rest.status === 'RUNNING') {
+          timer = setTimeout(poll, POLL_MS)
+        } else {
+          onFinishedRef.current?.()
+        }
+      } catch (error) {
+        console.error('Failed to fetch refresh progress:', error)
+        if (!stopped) timer = setTimeout(poll, POLL_MS)
+      }
+    }
+
+    poll()
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [jobId, phoneNumber])
+
+  useEffect(() => {
+    outputEndRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [output])
+
+  const handleRefresh = async () => {
+    setIsQueueing(true)
+    try {
+      const res = await fetch(`/api/sellers/${phoneNumber}/refresh`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        alert(`Error: ${data.error}`)
+        return
+      }
+      lastOutputIdRef.current = 0
+      setOutput([])
+      setState(null)
+      setJobId(data.jobId)
+    } catch {
+      alert('Failed to queue refresh')
+    } finally {
+      setIsQueueing(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (jobId === null) return
+    try {
+      const res = await fetch(`/api/scraper/jobs/${jobId}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        alert(`Error: ${data.error}`)
+      }
+    } catch {
+      alert('Failed to cancel refresh')
+    }
+  }
+
+  const statusText = !state
+    ? null
+    : state.status === 'QUEUED'
+      ? 'Queued, waiting for the worker'
+      : state.status === 'RUNNING'
+        ? `Running${state.runId ? ` (Run #${state.runId}, ${state.runStatus})` : ''}`
+        : `Finished: ${state.runStatus ?? state.status}`
+  const failure = state && !isActive ? state.runError || state.error : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+          disabled={isQueueing || isActive}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={`h-4 w-4 ${isActive ? 'animate-spin' : ''}`} />
+          Refresh now
+        </Button>
+        {isActive && (
+          <Button variant="ghost" size="sm" onClick={handleCancel}>
+            Cancel
+          </Button>
+        )}
+        {statusText && <span className="text-sm text-muted-foreground">{statusText}</span>}
+      </div>
+
+      {failure && <p className="text-sm text-destructive">{failure}</p>}
+
+      {jobId !== null && (
+        <div className="bg-gray-900 rounded-lg p-3 max-h-48 overflow-y-auto font-mono text-xs">
+          {output.length === 0 ? (
+            <div className="text-gray-500">No output yet.</div>
+          ) : (
+            output.map((line) => (
+              <div key={line.id} className={`whitespace-pre-wrap ${outputColor(line.type)}`}>
+                {line.data}
+              </div>
+            ))
+          )}
+          <div ref={outputEndRef} />
+        </div>
+      )}
+
+      {state?.changes && <ChangeList changes={state.changes} />}
+    </div>
+  )
+}
+
+interface SellerRefreshDialogProps {
+  seller: { phoneNumber: string; name: string | null } | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onFinished?: () => void
+}
+
+export function SellerRefreshDialog({ seller, open, onOpenChange, onFinished }: SellerRefreshDialogProps) {
+  if (!seller) return null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refresh {seller.name || seller.phoneNumber}</DialogTitle>
+          <DialogDescription>
+            Scrapes this seller&apos;s catalogue now, then enriches and processes its products.
+          </DialogDescription>
+        </DialogHeader>
+        <SellerRefresh phoneNumber={seller.phoneNumber} onFinished={onFinished} />
+      </DialogContent>
+    </Dialog>
+  )
+}
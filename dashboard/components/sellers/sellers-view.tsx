@@ -1,33 +1,162 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
 import { PageHeader } from '@/components/layout/page-header'
 import { ViewToggle } from '@/components/view-toggle'
 import { DataTable } from '@/components/data-table'
 import { CardGrid } from '@/components/card-grid'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Pagination } from '@/components/pagination'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { SellerFormDialog, SellerFormData } from './seller-form-dialog'
+import { SellerImportDialog } from './seller-import-dialog'
+import { SellerRefreshDialog } from './seller-refresh'
 import { useSearchPagination } from '@/hooks/use-search-pagination'
 import { useColumnOrder } from '@/hooks/use-column-order'
-import { ExternalLink, Phone, MapPin, Calendar } from 'lucide-react'
+import { effectiveScrapeInterval, nextScrapeDue } from '@/lib/sellers'
+import {
+  ExternalLink,
+  Phone,
+  MapPin,
+  Calendar,
+  Plus,
+  Pencil,
+  Power,
+  RefreshCw,
+  Trash2,
+  Tag,
+  Upload,
+  Store,
+} from 'lucide-react'
 import type { Seller } from '@prisma/client'
 
+// A seller with the time of its last successful scan
+type SellerRow = Seller & { lastScannedAt: Date | null }
+
 interface SellersViewProps {
-  sellers: Seller[]
+  sellers: SellerRow[]
 }
 
-type SellerColumnKey = 'phoneNumber' | 'name' | 'city' | 'catalogueUrl' | 'createdAt'
+type SellerColumnKey =
+  | 'phoneNumber'
+  | 'name'
+  | 'city'
+  | 'businessName'
+  | 'enabled'
+  | 'tags'
+  | 'scrapeInterval'
+  | 'catalogueUrl'
+  | 'createdAt'
+  | 'actions'
 
 const DEFAULT_COLUMN_ORDER: SellerColumnKey[] = [
   'phoneNumber',
   'name',
   'city',
+  'businessName',
+  'enabled',
+  'tags',
+  'scrapeInterval',
   'catalogueUrl',
   'createdAt',
+  'actions',
 ]
 
 export function SellersView({ sellers }: SellersViewProps) {
+  const router = useRouter()
   const [view, setView] = useState<'table' | 'cards'>('table')
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingSeller, setEditingSeller] = useState<Seller | null>(null)
+  const [sellerToDelete, setSellerToDelete] = useState<Seller | null>(null)
+  const [sellerToRefresh, setSellerToRefresh] = useState<Seller | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+
+  const openAddDialog = () => {
+    setEditingSeller(null)
+    setFormOpen(true)
+  }
+
+  const openEditDialog = useCallback((seller: SellerRow) => {
+    setEditingSeller(seller)
+    setFormOpen(true)
+  }, [])
+
+  // Returns an error message to show in the dialog, or null on success
+  const handleSave = async (data: SellerFormData): Promise<string | null> => {
+    try {
+      const res = await fetch(
+        editingSeller ? `/api/sellers/${editingSeller.phoneNumber}` : '/api/sellers',
+        {
+          method: editingSeller ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...data,
+            scrapeIntervalHours: data.scrapeIntervalHours.trim()
+              ? Number(data.scrapeIntervalHours)
+              : null,
+          }),
+        }
+      )
+      if (!res.ok) {
+        const body = await res.json()
+        return body.error || 'Failed to save seller'
+      }
+      router.refresh()
+      return null
+    } catch {
+      return 'Failed to save seller'
+    }
+  }
+
+  const handleToggleEnabled = useCallback(
+    async (seller: SellerRow) => {
+      try {
+        const res = await fetch(`/api/sellers/${seller.phoneNumber}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled: !seller.enabled }),
+        })
+        if (!res.ok) {
+          const body = await res.json()
+          alert(`Error: ${body.error}`)
+          return
+        }
+        router.refresh()
+      } catch {
+        alert('Failed to update seller')
+      }
+    },
+    [router]
+  )
+
+  const handleConfirmDelete = async () => {
+    if (!sellerToDelete) return
+    try {
+      const res = await fetch(`/api/sellers/${sellerToDelete.phoneNumber}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json()
+        alert(`Error: ${body.error}`)
+        return
+      }
+      router.refresh()
+    } catch {
+      alert('Failed to delete seller')
+    } finally {
+      setSellerToDelete(null)
+    }
+  }
 
   // Column ordering
   const { reorderColumns, getOrderedColumns } = useColumnOrder<SellerColumnKey>({
@@ -50,6 +179,11 @@ export function SellersView({ sellers }: SellersViewProps) {
       seller.phoneNumber,
       seller.name || '',
       seller.city || '',
+      seller.notes || '',
+      seller.businessName || '',
+      seller.businessCategory || '',
+      ...seller.tags,
+      seller.enabled ? 'enabled' : 'disabled',
     ],
     10
   )
@@ -60,8 +194,8 @@ export function SellersView({ sellers }: SellersViewProps) {
         key: 'phoneNumber',
         header: 'Phone Number',
         sortable: true,
-        sortValue: (seller: Seller) => seller.phoneNumber,
-        render: (seller: Seller) => (
+        sortValue: (seller: SellerRow) => seller.phoneNumber,
+        render: (seller: SellerRow) => (
           <span className="font-mono">{seller.phoneNumber}</span>
         ),
       },
@@ -69,20 +203,85 @@ export function SellersView({ sellers }: SellersViewProps) {
         key: 'name',
         header: 'Name',
         sortable: true,
-        sortValue: (seller: Seller) => seller.name || '',
-        render: (seller: Seller) => seller.name || '-',
+        sortValue: (seller: SellerRow) => seller.name || '',
+        render: (seller: SellerRow) => seller.name || '-',
       },
       {
         key: 'city',
         header: 'City',
         sortable: true,
-        sortValue: (seller: Seller) => seller.city || '',
-        render: (seller: Seller) => seller.city || '-',
+        sortValue: (seller: SellerRow) => seller.city || '',
+        render: (seller: SellerRow) => seller.city || '-',
+      },
+      {
+        key: 'businessName',
+        header: 'Business Profile',
+        sortable: true,
+        sortValue: (seller: SellerRow) => seller.businessName || '',
+        render: (seller: SellerRow) =>
+          seller.profileUpdatedAt ? (
+            <div>
+              <div>{seller.businessName || '-'}</div>
+              {seller.businessCategory && (
+                <div className="text-xs text-muted-foreground">{seller.businessCategory}</div>
+              )}
+            </div>
+          ) : (
+            '-'
+          ),
+      },
+      {
+        key: 'enabled',
+        header: 'Status',
+        sortable: true,
+        sortValue: (seller: SellerRow) => (seller.enabled ? 1 : 0),
+        render: (seller: SellerRow) => (
+          <Badge variant={seller.enabled ? 'default' : 'secondary'}>
+            {seller.enabled ? 'Enabled' : 'Disabled'}
+          </Badge>
+        ),
+      },
+      {
+        key: 'tags',
+        header: 'Tags',
+        render: (seller: SellerRow) =>
+          seller.tags.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {seller.tags.map((tag) => (
+                <Badge key={tag} variant="outline">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            '-'
+          ),
+      },
+      {
+        key: 'scrapeInterval',
+        header: 'Scrape Interval',
+        sortable: true,
+        sortValue: (seller: SellerRow) => effectiveScrapeInterval(seller) ?? 0,
+        render: (seller: SellerRow) => {
+          const hours = effectiveScrapeInterval(seller)
+          if (hours === null) return '-'
+          const dueAt = nextScrapeDue(seller)
+          return (
+            <div>
+              <div className="whitespace-nowrap">
+                Every {hours}h {seller.scrapeIntervalHours !== null ? '(manual)' : '(adaptive)'}
+              </div>
+              <div className="text-xs text-muted-foreground whitespace-nowrap">
+                {dueAt ? `Next due ${dueAt.toLocaleString()}` : 'Due now'}
+              </div>
+            </div>
+          )
+        },
       },
       {
         key: 'catalogueUrl',
         header: 'Catalog URL',
-        render: (seller: Seller) =>
+        render: (seller: SellerRow) =>
           seller.catalogueUrl ? (
             <a
               href={seller.catalogueUrl}
@@ -101,12 +300,48 @@ export function SellersView({ sellers }: SellersViewProps) {
         key: 'createdAt',
         header: 'Created',
         sortable: true,
-        sortValue: (seller: Seller) => new Date(seller.createdAt),
-        render: (seller: Seller) =>
+        sortValue: (seller: SellerRow) => new Date(seller.createdAt),
+        render: (seller: SellerRow) =>
           new Date(seller.createdAt).toLocaleDateString(),
       },
+      {
+        key: 'actions',
+        header: 'Actions',
+        render: (seller: SellerRow) => (
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => openEditDialog(seller)} title="Edit seller">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSellerToRefresh(seller)}
+              title="Refresh now"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleToggleEnabled(seller)}
+              title={seller.enabled ? 'Disable scraping' : 'Enable scraping'}
+            >
+              <Power className={seller.enabled ? 'h-4 w-4' : 'h-4 w-4 text-muted-foreground'} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSellerToDelete(seller)}
+              title="Delete seller"
+              className="text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
     ],
-    []
+    [openEditDialog, handleToggleEnabled]
   )
 
   const tableColumns = useMemo(
@@ -125,7 +360,17 @@ export function SellersView({ sellers }: SellersViewProps) {
           resultCount={filteredData.length}
           totalCount={sellers.length}
         />
-        <ViewToggle value={view} onValueChange={setView} />
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2">
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={openAddDialog} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Seller
+          </Button>
+          <ViewToggle value={view} onValueChange={setView} />
+        </div>
       </div>
 
       {view === 'table' ? (
@@ -147,10 +392,15 @@ export function SellersView({ sellers }: SellersViewProps) {
         <>
           <CardGrid
             data={paginatedData}
-            renderCard={(seller: Seller) => (
+            renderCard={(seller: SellerRow) => (
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">{seller.name || 'Unnamed Seller'}</CardTitle>
+                  <CardTitle className="text-lg flex items-center justify-between">
+                    {seller.name || 'Unnamed Seller'}
+                    <Badge variant={seller.enabled ? 'default' : 'secondary'}>
+                      {seller.enabled ? 'Enabled' : 'Disabled'}
+                    </Badge>
+                  </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <div className="flex items-center gap-2 text-sm">
@@ -163,6 +413,24 @@ export function SellersView({ sellers }: SellersViewProps) {
                       <span>{seller.city}</span>
                     </div>
                   )}
+                  {seller.businessName && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Store className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {seller.businessName}
+                        {seller.businessCategory && ` · ${seller.businessCategory}`}
+                      </span>
+                    </div>
+                  )}
+                  {seller.tags.length > 0 && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Tag className="h-4 w-4 text-muted-foreground" />
+                      <span>{seller.tags.join(', ')}</span>
+                    </div>
+                  )}
+                  {seller.notes && (
+                    <p className="text-sm text-muted-foreground">{seller.notes}</p>
+                  )}
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Calendar className="h-4 w-4" />
                     <span>Created: {new Date(seller.createdAt).toLocaleDateString()}</span>
@@ -180,6 +448,29 @@ export function SellersView({ sellers }: SellersViewProps) {
                       </a>
                     </div>
                   )}
+                  <div className="flex items-center gap-2 pt-2 border-t">
+                    <Button variant="outline" size="sm" onClick={() => openEditDialog(seller)}>
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setSellerToRefresh(seller)}>
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                      Refresh
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleToggleEnabled(seller)}>
+                      <Power className="h-3 w-3 mr-1" />
+                      {seller.enabled ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSellerToDelete(seller)}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             )}
@@ -193,6 +484,51 @@ export function SellersView({ sellers }: SellersViewProps) {
           />
         </>
       )}
+
+      <SellerFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        seller={editingSeller}
+        onSave={handleSave}
+      />
+
+      <SellerImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={() => router.refresh()}
+      />
+
+      <SellerRefreshDialog
+        seller={sellerToRefresh}
+        open={sellerToRefresh !== null}
+        onOpenChange={(open) => !open && setSellerToRefresh(null)}
+        onFinished={() => router.refresh()}
+      />
+
+      <AlertDialog
+        open={sellerToDelete !== null}
+        onOpenChange={(open) => !open && setSellerToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete seller?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes &ldquo;{sellerToDelete?.name || sellerToDelete?.phoneNumber}&rdquo;
+              along with all of its products, product history and scan logs. To stop scraping
+              but keep the data, disable the seller instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
@@ -19,6 +19,7 @@ type Product = {
   currency: string | null
   availability: string | null
   imageCount: number | null
+  category: string | null
   modelName: string | null
   storageGb: string | null
   color: string | null
@@ -41,6 +42,9 @@ type Product = {
 function parseFiltersFromURL(searchParams: URLSearchParams): Partial<ProductFilters> {
   const filters: Partial<ProductFilters> = {}
 
+  const categories = searchParams.get('categories')
+  if (categories) filters.categories = categories.split(',').filter(Boolean)
+
   const models = searchParams.get('models')
   if (models) filters.models = models.split(',').filter(Boolean)
 
@@ -109,6 +113,7 @@ function parseFiltersFromURL(searchParams: URLSearchParams): Partial<ProductFilt
 function serializeFiltersToURL(filters: ProductFilters): Record<string, string> {
   const params: Record<string, string> = {}
 
+  if (filters.categories.length > 0) params.categories = filters.categories.join(',')
   if (filters.models.length > 0) params.models = filters.models.join(',')
   if (filters.colors.length > 0) params.colors = filters.colors.join(',')
   if (filters.warranties.length > 0) params.warranties = filters.warranties.join(',')
@@ -263,6 +268,14 @@ export function useProductFilters(products: Product[]) {
   // Apply filters to data
   const filteredData = useMemo(() => {
     return products.filter((product) => {
+      // Category filter
+      if (
+        filters.categories.length > 0 &&
+        (!product.category || !filters.categories.includes(product.category))
+      ) {
+        return false
+      }
+
       // Model filter
       if (
         filters.models.length > 0 &&
@@ -369,12 +382,14 @@ export function useProductFilters(products: Product[]) {
       sortKey?: string | null
       sortDir?: 'asc' | 'desc' | null
     }) => {
-      setFilters(config.filters)
+      // Views saved before a filter existed lack its key
+      const viewFilters = { ...DEFAULT_FILTERS, ...config.filters }
+      setFilters(viewFilters)
       setVisibleColumns(config.columns)
       if (config.sortKey !== undefined) setSortKey(config.sortKey)
       if (config.sortDir !== undefined) setSortDir(config.sortDir)
       updateURL(
-        config.filters,
+        viewFilters,
         config.columns,
         config.sortKey ?? sortKey,
         config.sortDir ?? sortDir
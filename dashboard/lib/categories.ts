@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+
+// Product categories shared with the scraper (gpt/config/categories.json).
+// Server-only: reads the definitions from disk on each call so edits show up
+// without a rebuild. Their models are in the device catalog (lib/device-models.ts).
+
+export type CategoryDefinition = {
+  id: string
+  label: string
+  active: boolean
+  // Filter shortcuts: group label -> model name prefixes
+  modelGroups: Record<string, string[]>
+}
+
+export type ModelGroup = {
+  label: string
+  category: string
+  prefixes: string[]
+}
+
+const CATEGORY_CONFIG_PATH = process.env.CATEGORY_CONFIG_PATH
+  ? path.resolve(process.env.CATEGORY_CONFIG_PATH)
+  : path.resolve(process.cwd(), '../gpt/config/categories.json')
+
+export function loadCategories(): CategoryDefinition[] {
+  const parsed = JSON.parse(readFileSync(CATEGORY_CONFIG_PATH, 'utf-8'))
+  if (!Array.isArray(parsed?.categories)) {
+    throw new Error(`${CATEGORY_CONFIG_PATH} must contain a "categories" array`)
+  }
+
+  // Mirrors the scraper's ACTIVE_CATEGORIES override
+  const override = (process.env.ACTIVE_CATEGORIES || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  return (parsed.categories as CategoryDefinition[]).map((category) => ({
+    ...category,
+    active: override.length > 0 ? override.includes(category.id) : category.active,
+    modelGroups: category.modelGroups ?? {},
+  }))
+}
+
+export function modelGroups(categories: CategoryDefinition[]): ModelGroup[] {
+  return categories.flatMap((category) =>
+    Object.entries(category.modelGroups).map(([label, prefixes]) => ({
+      label,
+      category: category.id,
+      prefixes,
+    }))
+  )
+}
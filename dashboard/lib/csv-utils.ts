@@ -8,6 +8,7 @@ type Product = {
   priceRaw: any
   currency: string | null
   availability: string | null
+  category: string | null
   modelName: string | null
   storageGb: string | null
   color: string | null
@@ -71,6 +72,7 @@ const CSV_COLUMNS = [
   { key: 'description', header: 'Description', getValue: (p: Product) => p.rawDescription || '' },
   { key: 'price', header: 'Price', getValue: (p: Product) => formatPrice(p.priceRaw, p.currency) },
   { key: 'currency', header: 'Currency', getValue: (p: Product) => p.currency || '' },
+  { key: 'category', header: 'Category', getValue: (p: Product) => p.category || '' },
   { key: 'model', header: 'Model', getValue: (p: Product) => p.modelName || '' },
   { key: 'storage', header: 'Storage', getValue: (p: Product) => p.storageGb || '' },
   { key: 'color', header: 'Color', getValue: (p: Product) => p.color || '' },
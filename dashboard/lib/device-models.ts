@@ -0,0 +1,11 @@
+import { prisma } from './prisma'
+
+// Canonical device models (device_models) the enrich step snaps its output
+// to; see gpt/src/device-models.ts
+
+export async function getDeviceModels(categoryIds: string[]) {
+  return prisma.deviceModel.findMany({
+    where: { category: { in: categoryIds } },
+    orderBy: { id: 'asc' },
+  })
+}
@@ -0,0 +1,170 @@
+// Progress events the gpt scripts print for the dashboard (gpt/src/pipeline/events.ts),
+// one JSON object per stdout line after PIPELINE_EVENT_PREFIX
+
+export const PIPELINE_EVENT_PREFIX = '[pipeline-event] '
+
+export type PipelineStepName = 'scrape' | 'enrich' | 'process'
+
+type SellerOutcome = 'OK' | 'EMPTY' | 'FAILED' | 'TIMEOUT'
+
+export type PipelineEvent = { at: string } & (
+  | { type: 'scrape-started'; sellers: number; skipped: number }
+  | { type: 'seller-started'; phone: string }
+  | {
+      type: 'seller-finished'
+      phone: string
+      outcome: SellerOutcome
+      products: number
+      durationMs: number
+      session?: string
+    }
+  | { type: 'scrape-finished'; sellers: number; products: number }
+  | { type: 'enrich-started'; products: number; batches: number; cached: number }
+  | { type: 'batch-enriched'; batch: number; batches: number; products: number }
+  | { type: 'enrich-finished'; products: number }
+  | { type: 'process-started'; sellers: number; products: number }
+  | {
+      type: 'product-changed'
+      productId: string
+      phone: string
+      change: 'CREATED' | 'UPDATED' | 'REACTIVATED' | 'DEACTIVATED'
+    }
+  | { type: 'seller-processed'; phone: string; created: number; updated: number; deactivated: number }
+  | { type: 'process-finished'; sellers: number; created: number; updated: number; deactivated: number }
+  | { type: 'error'; step: PipelineStepName; message: string; phone?: string }
+)
+
+// Only the latest errors are kept for display; errorCount has them all
+const MAX_RECENT_ERRORS = 20
+
+// What a run has done so far, built up from its events
+export type RunProgress = {
+  step: PipelineStepName | null
+  scrape: {
+    sellers: number
+    skipped: number
+    inFlight: string[]
+    finished: number
+    outcomes: Record<SellerOutcome, number>
+    // Totals staged for the run once scraping is done, earlier attempts included
+    stagedSellers: number | null
+    stagedProducts: number | null
+  }
+  // `cached` products came from the enrichment cache and count as done from the start
+  enrich: { products: number; cached: number; batches: number; batchesDone: number; productsDone: number }
+  process: {
+    sellers: number
+    sellersDone: number
+    created: number
+    updated: number
+    deactivated: number
+  }
+  errorCount: number
+  recentErrors: { step: PipelineStepName; message: string; phone?: string; at: string }[]
+}
+
+export function emptyProgress(): RunProgress {
+  return {
+    step: null,
+    scrape: {
+      sellers: 0,
+      skipped: 0,
+      inFlight: [],
+      finished: 0,
+      outcomes: { OK: 0, EMPTY: 0, FAILED: 0, TIMEOUT: 0 },
+      stagedSellers: null,
+      stagedProducts: null,
+    },
+    enrich: { products: 0, cached: 0, batches: 0, batchesDone: 0, productsDone: 0 },
+    process: { sellers: 0, sellersDone: 0, created: 0, updated: 0, deactivated: 0 },
+    errorCount: 0,
+    recentErrors: [],
+  }
+}
+
+export function parsePipelineEvent(line: string): PipelineEvent | null {
+  try {
+    const event = JSON.parse(line.slice(PIPELINE_EVENT_PREFIX.length))
+    return event && typeof event.type === 'string' ? (event as PipelineEvent) : null
+  } catch {
+    return null
+  }
+}
+
+// Folds one event into the progress; mutates and returns it
+export function applyPipelineEvent(progress: RunProgress, event: PipelineEvent): RunProgress {
+  const { scrape, enrich } = progress
+  const processing = progress.process
+
+  switch (event.type) {
+    case 'scrape-started':
+      progress.step = 'scrape'
+      scrape.sellers = event.sellers
+      scrape.skipped = event.skipped
+      break
+    case 'seller-started':
+      scrape.inFlight.push(event.phone)
+      break
+    case 'seller-finished':
+      scrape.inFlight = scrape.inFlight.filter((phone) => phone !== event.phone)
+      scrape.finished += 1
+      scrape.outcomes[event.outcome] = (scrape.outcomes[event.outcome] ?? 0) + 1
+      break
+    case 'scrape-finished':
+      scrape.inFlight = []
+      scrape.stagedSellers = event.sellers
+      scrape.stagedProducts = event.products
+      break
+    case 'enrich-started':
+      progress.step = 'enrich'
+      enrich.products = event.products
+      enrich.batches = event.batches
+      enrich.cached = event.cached
+      enrich.productsDone = enrich.cached
+      break
+    case 'batch-enriched':
+      enrich.batchesDone = event.batch
+      enrich.productsDone += event.products
+      break
+    case 'enrich-finished':
+      enrich.productsDone = event.products
+      break
+    case 'process-started':
+      progress.step = 'process'
+      processing.sellers = event.sellers
+      break
+    case 'product-changed':
+      if (event.change === 'CREATED') processing.created += 1
+      else if (event.change === 'DEACTIVATED') processing.deactivated += 1
+      else processing.updated += 1
+      break
+    case 'seller-processed':
+      processing.sellersDone += 1
+      break
+    case 'error':
+      progress.errorCount += 1
+      progress.recentErrors = [
+        ...progress.recentErrors,
+        { step: event.step, message: event.message, phone: event.phone, at: event.at },
+      ].slice(-MAX_RECENT_ERRORS)
+      break
+  }
+
+  return progress
+}
+
+// Share of the current step that is done, 0-100
+export function stepPercent(progress: RunProgress): number {
+  const ratio = (done: number, total: number) => (total > 0 ? Math.min(done / total, 1) : 0)
+
+  switch (progress.step) {
+    case 'scrape':
+      return Math.round(ratio(progress.scrape.finished, progress.scrape.sellers) * 100)
+    case 'enrich':
+      return Math.round(ratio(progress.enrich.productsDone, progress.enrich.products) * 100)
+    case 'process':
+      return Math.round(ratio(progress.process.sellersDone, progress.process.sellers) * 100)
+    default:
+      return 0
+  }
+}
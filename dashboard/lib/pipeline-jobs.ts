@@ -0,0 +1,400 @@
+import { Prisma, type PipelineJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { PipelineStepName, RunProgress, emptyProgress } from './pipeline-events'
+import { ACTIVE_RUN_STATUSES, PIPELINE_STEP_NAMES, resumeStepFor } from './pipeline-runs'
+import { latestStagedRunId } from './staging'
+
+// Pipeline runs go through a queue (pipeline_jobs): the dashboard enqueues jobs
+// and watches them, the worker process (worker/index.ts) runs them one at a time
+
+export type TriggerType = 'MANUAL' | 'SCHEDULED'
+export type JobKind = 'RUN' | 'RESUME'
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'FINISHED' | 'FAILED' | 'CANCELLED' | 'INTERRUPTED'
+export type PipelineStep = 'IDLE' | 'SCRAPING' | 'ENRICHING' | 'PROCESSING'
+export type AuthState = 'unknown' | 'waiting' | 'logged-in' | 'timeout' | 'session-lost'
+
+export type SessionAuth = {
+  state: AuthState
+  detail: string
+}
+
+// 'qr' carries the QR code as a data URL ('' once it is no longer valid);
+// 'auth' carries the WhatsApp login state. Both name the session they are for.
+// 'progress' carries the run's RunProgress as JSON.
+export interface ScraperOutput {
+  type: 'stdout' | 'stderr' | 'status' | 'complete' | 'qr' | 'auth' | 'progress'
+  data: string
+  timestamp: Date
+  session?: string
+}
+
+// What the worker publishes about the job it runs (pipeline_jobs.live)
+export type JobLive = {
+  step: PipelineStep
+  progress: RunProgress
+  sessions: Record<string, SessionAuth>
+  pendingQrs: { session: string; qr: string }[]
+}
+
+// A running job whose worker has not checked in for this long is presumed dead
+export const JOB_STALE_MS = Number(process.env.PIPELINE_JOB_STALE_MS || 60000)
+
+// Postgres unique violation, raised by the dedupe key and the one-running-job index
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Error && (error.message.includes('23505') || error.message.includes('P2002'))
+
+export type EnqueueOptions = {
+  // Run whose staged data a run starting after the scrape copies
+  sourceRunId?: number
+  // Keeps the same job from being queued twice, e.g. by two workers firing the same schedule
+  dedupeKey?: string
+  scheduleId?: number
+  // Only sellers with this tag are scraped
+  sellerTag?: string | null
+  // Only sellers whose scrape interval is up are scraped
+  dueOnly?: boolean
+  // Only this seller is scraped, whether or not it is enabled
+  sellerPhone?: string | null
+}
+
+/**
+ * Queues the steps from `fromStep` to `toStep` as a new run. Runs starting
+ * after the scrape work on a copy of what `sourceRunId` (by default the latest
+ * run with staged data) staged.
+ */
+export async function enqueueSteps(
+  triggerType: TriggerType,
+  fromStep: PipelineStepName,
+  toStep: PipelineStepName,
+  {
+    sourceRunId,
+    dedupeKey,
+    scheduleId,
+    sellerTag = null,
+    dueOnly = false,
+    sellerPhone = null,
+  }: EnqueueOptions = {}
+): Promise<{ jobId: number; error?: string }> {
+  if (PIPELINE_STEP_NAMES.indexOf(fromStep) > PIPELINE_STEP_NAMES.indexOf(toStep)) {
+    return { jobId: -1, error: `Cannot run from ${fromStep} to ${toStep}` }
+  }
+
+  let sourceId: number | null = null
+  if (fromStep !== 'scrape') {
+    sourceId = sourceRunId ?? (await latestStagedRunId())
+    if (sourceId === null) {
+      return { jobId: -1, error: 'No run has staged data to start from; run a scrape first' }
+    }
+    const stagedSellers = await prisma.stagedSeller.count({ where: { runId: sourceId } })
+    if (stagedSellers === 0) {
+      return { jobId: -1, error: `Run #${sourceId} has no staged data` }
+    }
+    if (fromStep === 'process') {
+      const unenriched = await prisma.stagedProduct.count({
+        where: { runId: sourceId, enrichedAt: null },
+      })
+      if (unenriched > 0) {
+        return {
+          jobId: -1,
+          error: `Run #${sourceId} has ${unenriched} product(s) not enriched yet; run from enrich instead`,
+        }
+      }
+    }
+  }
+
+  const queued = await prisma.pipelineJob.findFirst({
+    where: {
+      status: 'QUEUED',
+      kind: 'RUN',
+      firstStep: fromStep,
+      lastStep: toStep,
+      sourceRunId: sourceId,
+      sellerTag,
+      dueOnly,
+      sellerPhone,
+    },
+  })
+  if (queued) {
+    return { jobId: -1, error: `The same run is already queued (job #${queued.id})` }
+  }
+
+  try {
+    const job = await prisma.pipelineJob.create({
+      data: {
+        kind: 'RUN',
+        triggerType,
+        firstStep: fromStep,
+        lastStep: toStep,
+        sourceRunId: sourceId,
+        dedupeKey: dedupeKey ?? null,
+        scheduleId: scheduleId ?? null,
+        sellerTag,
+        dueOnly,
+        sellerPhone,
+      },
+    })
+    return { jobId: job.id }
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { jobId: -1, error: 'This run is already queued' }
+    }
+    throw error
+  }
+}
+
+// Queues an interrupted or failed run to carry on from the step after the last one it completed
+export async function enqueueResume(runId: number): Promise<{ jobId: number; error?: string }> {
+  const run = await prisma.scraperRun.findUnique({ where: { id: runId } })
+  if (!run) {
+    return { jobId: -1, error: `Run #${runId} not found` }
+  }
+
+  const fromStep = resumeStepFor(run)
+  if (!fromStep) {
+    return { jobId: -1, error: `Run #${runId} (${run.status}) cannot be resumed` }
+  }
+
+  const pending = await prisma.pipelineJob.findFirst({
+    where: { runId, status: { in: ['QUEUED', 'RUNNING'] } },
+  })
+  if (pending) {
+    return { jobId: -1, error: `Run #${runId} is already queued (job #${pending.id})` }
+  }
+
+  const job = await prisma.pipelineJob.create({
+    data: {
+      kind: 'RESUME',
+      triggerType: run.triggerType === 'SCHEDULED' ? 'SCHEDULED' : 'MANUAL',
+      firstStep: fromStep,
+      lastStep: run.lastStep,
+      sourceRunId: run.sourceRunId,
+      runId,
+      scheduleId: run.scheduleId,
+      sellerTag: run.sellerTag,
+      dueOnly: run.dueOnly,
+      sellerPhone: run.sellerPhone,
+    },
+  })
+  return { jobId: job.id }
+}
+
+/**
+ * Cancels a job: a queued one never starts, a running one is stopped by its
+ * worker. False when the job already finished.
+ */
+export async function cancelJob(jobId: number): Promise<boolean> {
+  const dequeued = await prisma.pipelineJob.updateMany({
+    where: { id: jobId, status: 'QUEUED' },
+    data: { status: 'CANCELLED', finishedAt: new Date() },
+  })
+  if (dequeued.count > 0) return true
+
+  const stopping = await prisma.pipelineJob.updateMany({
+    where: { id: jobId, status: 'RUNNING' },
+    data: { cancelRequested: true },
+  })
+  return stopping.count > 0
+}
+
+export async function getRunningJob(): Promise<PipelineJob | null> {
+  return prisma.pipelineJob.findFirst({ where: { status: 'RUNNING' } })
+}
+
+// The running job, else the one that ran last; its live state backs the progress bar
+export async function getLatestJob(): Promise<PipelineJob | null> {
+  return (
+    (await getRunningJob()) ??
+    prisma.pipelineJob.findFirst({
+      where: { startedAt: { not: null } },
+      orderBy: { startedAt: 'desc' },
+    })
+  )
+}
+
+// What the dashboard shows about the pipeline: the running job's live state,
+// or the last job's progress when idle
+export async function getPipelineStatus() {
+  const [job, queuedJobs] = await Promise.all([getLatestJob(), countQueuedJobs()])
+  const live = job?.live as JobLive | null | undefined
+  const running = job?.status === 'RUNNING' ? job : null
+
+  return {
+    isRunning: running !== null,
+    currentJobId: running?.id ?? null,
+    currentRunId: running?.runId ?? null,
+    currentStep: (running && live?.step) || 'IDLE',
+    progress: live?.progress ?? emptyProgress(),
+    sessions: (running && live?.sessions) || {},
+    pendingQrs: (running && live?.pendingQrs) || [],
+    queuedJobs,
+  }
+}
+
+export async function listJobs(limit = 20): Promise<PipelineJob[]> {
+  return prisma.pipelineJob.findMany({ orderBy: { id: 'desc' }, take: limit })
+}
+
+export async function countQueuedJobs(): Promise<number> {
+  return prisma.pipelineJob.count({ where: { status: 'QUEUED' } })
+}
+
+// Output rows after `afterId`, across jobs, for the dashboard's log stream
+export async function readJobOutput(afterId: number, limit = 500) {
+  return prisma.pipelineJobOutput.findMany({
+    where: { id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+}
+
+// Output rows of one job after `afterId`, for views that follow a single run
+export async function readOutputOfJob(jobId: number, afterId: number, limit = 500) {
+  return prisma.pipelineJobOutput.findMany({
+    where: { jobId, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+}
+
+export async function latestJobOutputId(): Promise<number> {
+  const latest = await prisma.pipelineJobOutput.findFirst({
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  })
+  return latest?.id ?? 0
+}
+
+// ---------------------------------------------------------------------------
+// Worker side
+
+/**
+ * Claims the oldest queued job for `workerId`. Null when the queue is empty or
+ * a job is already running; the one-running-job index settles races between
+ * workers.
+ */
+export async function claimNextJob(workerId: string): Promise<PipelineJob | null> {
+  if (await getRunningJob()) return null
+
+  try {
+    const claimed = await prisma.$queryRaw<{ id: number }[]>`
+      UPDATE pipeline_jobs
+      SET status = 'RUNNING', worker_id = ${workerId}, started_at = NOW(), heartbeat_at = NOW()
+      WHERE id = (
+        SELECT id FROM pipeline_jobs
+        WHERE status = 'QUEUED'
+        ORDER BY created_at, id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `
+    if (claimed.length === 0) return null
+    return prisma.pipelineJob.findUnique({ where: { id: claimed[0].id } })
+  } catch (error) {
+    if (isUniqueViolation(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Publishes a running job's live state and new output, and keeps its claim
+ * fresh. Returns whether the dashboard asked to cancel it.
+ */
+export async function recordJobHeartbeat(
+  jobId: number,
+  live: JobLive,
+  output: ScraperOutput[]
+): Promise<{ cancelRequested: boolean }> {
+  const [job] = await prisma.$transaction([
+    prisma.pipelineJob.update({
+      where: { id: jobId },
+      data: { heartbeatAt: new Date(), live: live as unknown as Prisma.InputJsonValue },
+      select: { cancelRequested: true },
+    }),
+    prisma.pipelineJobOutput.createMany({
+      data: output.map(({ type, data, session, timestamp }) => ({
+        jobId,
+        type,
+        data,
+        session: session ?? null,
+        createdAt: timestamp,
+      })),
+    }),
+  ])
+  return { cancelRequested: job.cancelRequested }
+}
+
+// Creates the job's run and links it to the job in one transaction, so the
+// run is never active without a running job behind it (see recoverStaleJobs)
+export async function createJobRun(jobId: number, data: Prisma.ScraperRunUncheckedCreateInput) {
+  return prisma.$transaction(async (tx) => {
+    const run = await tx.scraperRun.create({ data })
+    await tx.pipelineJob.update({ where: { id: jobId }, data: { runId: run.id } })
+    return run
+  })
+}
+
+export async function finishJob(jobId: number, status: JobStatus, error: string | null = null) {
+  await prisma.pipelineJob.update({
+    where: { id: jobId },
+    data: { status, error, finishedAt: new Date() },
+  })
+}
+
+/**
+ * Marks running jobs whose worker stopped checking in as INTERRUPTED, along
+ * with their runs, so the queue moves on. At worker startup it also catches
+ * runs left active by a dashboard or worker that stopped without a job record.
+ */
+export async function recoverStaleJobs(includeOrphanedRuns = false): Promise<number> {
+  const stale = await prisma.pipelineJob.findMany({
+    where: { status: 'RUNNING', heartbeatAt: { lt: new Date(Date.now() - JOB_STALE_MS) } },
+  })
+
+  for (const job of stale) {
+    await finishJob(job.id, 'INTERRUPTED', `Worker ${job.workerId} stopped checking in`)
+  }
+
+  const liveRuns = (
+    await prisma.pipelineJob.findMany({
+      where: { status: 'RUNNING', runId: { not: null } },
+      select: { runId: true },
+    })
+  ).map((job) => job.runId as number)
+
+  const staleRuns = stale
+    .map((job) => job.runId)
+    .filter((id): id is number => id !== null)
+
+  const orphaned = await prisma.scraperRun.findMany({
+    where: {
+      status: { in: ACTIVE_RUN_STATUSES },
+      AND: [
+        { id: { notIn: liveRuns } },
+        includeOrphanedRuns
+          ? { triggerType: { in: ['MANUAL', 'SCHEDULED'] } }
+          : { id: { in: staleRuns } },
+      ],
+    },
+  })
+
+  for (const run of orphaned) {
+    await prisma.scraperRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'INTERRUPTED',
+        completedAt: new Date(),
+        errorMessage: `Worker stopped while the run was ${run.status}`,
+      },
+    })
+  }
+
+  return stale.length + orphaned.length
+}
+
+// Drops the streamed output of jobs finished a while ago; runs keep their full log
+export async function pruneJobOutput(olderThanMs = 24 * 60 * 60 * 1000) {
+  await prisma.pipelineJobOutput.deleteMany({
+    where: { job: { finishedAt: { lt: new Date(Date.now() - olderThanMs) } } },
+  })
+}
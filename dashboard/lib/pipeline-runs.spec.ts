@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { isPartialRun, isPipelineStep, resumeStepFor, stepRangeLabel } from '@/lib/pipeline-runs'
+
+const fullRun = { firstStep: 'scrape', lastStep: 'process' }
+
+describe('resumeStepFor', () => {
+  it('picks up after the last completed step', () => {
+    expect(resumeStepFor({ ...fullRun, status: 'INTERRUPTED', lastCompletedStep: 'scrape' })).toBe('enrich')
+    expect(resumeStepFor({ ...fullRun, status: 'PROCESSING_FAILED', lastCompletedStep: 'enrich' })).toBe(
+      'process'
+    )
+  })
+
+  it("starts at the run's first step when none completed", () => {
+    expect(resumeStepFor({ ...fullRun, status: 'SESSION_LOST', lastCompletedStep: null })).toBe('scrape')
+    expect(
+      resumeStepFor({ firstStep: 'enrich', lastStep: 'process', status: 'FAILED', lastCompletedStep: null })
+    ).toBe('enrich')
+  })
+
+  it('does not go past the last step of a partial run', () => {
+    const enrichOnly = { firstStep: 'enrich', lastStep: 'enrich' }
+    expect(resumeStepFor({ ...enrichOnly, status: 'CANCELLED', lastCompletedStep: 'enrich' })).toBeNull()
+    expect(resumeStepFor({ ...fullRun, status: 'INTERRUPTED', lastCompletedStep: 'process' })).toBeNull()
+  })
+
+  it('does not resume runs that are active or completed', () => {
+    for (const status of ['RUNNING', 'ENRICHING', 'PROCESSING', 'COMPLETED']) {
+      expect(resumeStepFor({ ...fullRun, status, lastCompletedStep: 'scrape' })).toBeNull()
+    }
+  })
+})
+
+describe('step ranges', () => {
+  it('tells full runs from partial ones', () => {
+    expect(isPartialRun(fullRun)).toBe(false)
+    expect(isPartialRun({ firstStep: 'enrich', lastStep: 'process' })).toBe(true)
+    expect(isPartialRun({ firstStep: 'scrape', lastStep: 'enrich' })).toBe(true)
+  })
+
+  it('labels a range by its steps', () => {
+    expect(stepRangeLabel(fullRun)).toBe('scrape → process')
+    expect(stepRangeLabel({ firstStep: 'process', lastStep: 'process' })).toBe('process')
+  })
+
+  it('recognizes step names', () => {
+    expect(isPipelineStep('enrich')).toBe(true)
+    expect(isPipelineStep('deploy')).toBe(false)
+    expect(isPipelineStep(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,49 @@
+import type { PipelineStepName } from './pipeline-events'
+
+// Pipeline steps in order. Each run records the last one it completed
+// (scraper_runs.last_completed_step), which is where a resume picks up.
+export const PIPELINE_STEP_NAMES: PipelineStepName[] = ['scrape', 'enrich', 'process']
+
+// Runs the dashboard was driving; left behind in these statuses when it stops mid-run
+export const ACTIVE_RUN_STATUSES = ['RUNNING', 'ENRICHING', 'PROCESSING']
+
+// Runs that stopped before finishing and can carry on from their staged data
+export const RESUMABLE_RUN_STATUSES = [
+  'INTERRUPTED',
+  'CANCELLED',
+  'FAILED',
+  'AUTH_REQUIRED',
+  'SESSION_LOST',
+  'ENRICHMENT_FAILED',
+  'PROCESSING_FAILED',
+]
+
+export function isPipelineStep(value: unknown): value is PipelineStepName {
+  return PIPELINE_STEP_NAMES.includes(value as PipelineStepName)
+}
+
+// Steps a run covers; full runs go from scrape to process, partial ones re-run
+// a single step or a suffix of the pipeline
+type StepRange = { firstStep: string; lastStep: string }
+
+export function isPartialRun(run: StepRange): boolean {
+  const last = PIPELINE_STEP_NAMES[PIPELINE_STEP_NAMES.length - 1]
+  return run.firstStep !== PIPELINE_STEP_NAMES[0] || run.lastStep !== last
+}
+
+export function stepRangeLabel(run: StepRange): string {
+  return run.firstStep === run.lastStep ? run.firstStep : `${run.firstStep} → ${run.lastStep}`
+}
+
+// Step a resume starts at, or null when the run cannot be resumed
+export function resumeStepFor(
+  run: StepRange & { status: string; lastCompletedStep: string | null }
+): PipelineStepName | null {
+  if (!RESUMABLE_RUN_STATUSES.includes(run.status)) return null
+  const next = run.lastCompletedStep
+    ? PIPELINE_STEP_NAMES.indexOf(run.lastCompletedStep as PipelineStepName) + 1
+    : PIPELINE_STEP_NAMES.indexOf(run.firstStep as PipelineStepName)
+  return next <= PIPELINE_STEP_NAMES.indexOf(run.lastStep as PipelineStepName)
+    ? PIPELINE_STEP_NAMES[next]
+    : null
+}
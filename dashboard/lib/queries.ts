@@ -1,9 +1,25 @@
 import { prisma } from './prisma';
 
+// Sellers with the time of their last successful scan, for the scrape schedule
 export async function getSellers() {
-  return await prisma.seller.findMany({
-    orderBy: { createdAt: 'desc' },
-  });
+  const [sellers, lastScans] = await Promise.all([
+    prisma.seller.findMany({
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.scanLog.groupBy({
+      by: ['sellerPhone'],
+      where: { status: { in: ['OK', 'EMPTY'] } },
+      _max: { scanTime: true },
+    }),
+  ]);
+
+  const lastScanBySeller = new Map<string, Date | null>(
+    lastScans.map((row) => [row.sellerPhone, row._max.scanTime])
+  );
+  return sellers.map((seller) => ({
+    ...seller,
+    lastScannedAt: lastScanBySeller.get(seller.phoneNumber) ?? null,
+  }));
 }
 
 export async function getProducts() {
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { cronToTimes, formatTime12h, timesToCron } from '@/lib/schedule-times'
+
+describe('cronToTimes', () => {
+  it('reads the times of a daily expression, sorted', () => {
+    expect(cronToTimes('30 21,9 * * *')).toEqual(['09:30', '21:30'])
+    expect(cronToTimes('  0   0 * * * ')).toEqual(['00:00'])
+  })
+
+  it('returns null for expressions that are not daily times', () => {
+    const expressions = [
+      '*/15 * * * *',
+      '0 9 * * 1-5',
+      '0 9 1 * *',
+      '0-30 9 * * *',
+      '60 9 * * *',
+      '0 24 * * *',
+      '0 9',
+    ]
+    for (const expr of expressions) {
+      expect(cronToTimes(expr)).toBeNull()
+    }
+  })
+})
+
+describe('timesToCron', () => {
+  it('joins times sharing a minute into one expression', () => {
+    expect(timesToCron(['21:30', '09:30', '09:30'])).toBe('30 9,21 * * *')
+    expect(timesToCron(['00:00'])).toBe('0 0 * * *')
+  })
+
+  it('returns null for times on different minutes or no times', () => {
+    expect(timesToCron(['09:30', '21:15'])).toBeNull()
+    expect(timesToCron([])).toBeNull()
+  })
+
+  it('round-trips with cronToTimes', () => {
+    const times = ['06:45', '12:45', '18:45']
+    expect(cronToTimes(timesToCron(times)!)).toEqual(times)
+  })
+})
+
+describe('formatTime12h', () => {
+  it('formats midnight, noon and afternoon times', () => {
+    expect(formatTime12h('00:05')).toBe('12:05 AM')
+    expect(formatTime12h('12:00')).toBe('12:00 PM')
+    expect(formatTime12h('21:30')).toBe('9:30 PM')
+  })
+})
@@ -0,0 +1,43 @@
+// Daily run times (HH:MM) and the cron expressions behind them, for the
+// schedule editor's time picker
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+// Times a daily cron expression like "30 9,21 * * *" fires at, or null when it is not one
+export function cronToTimes(cronExpr: string): string[] | null {
+  const parts = cronExpr.trim().split(/\s+/)
+  if (parts.length !== 5 || parts.slice(2).some((part) => part !== '*')) return null
+
+  const [minutes, hours] = parts
+  if (!/^\d{1,2}$/.test(minutes) || !/^\d{1,2}(,\d{1,2})*$/.test(hours)) return null
+
+  const minute = Number(minutes)
+  const hourList = hours.split(',').map(Number)
+  if (minute > 59 || hourList.some((hour) => hour > 23)) return null
+
+  return hourList.map((hour) => `${pad(hour)}:${pad(minute)}`).sort()
+}
+
+/**
+ * One cron expression firing every day at each of `times`. A cron expression
+ * fires at every listed minute of every listed hour, so times must share their
+ * minute: 09:30 and 21:15 need two schedules. Null when they do not, or when
+ * there are no times.
+ */
+export function timesToCron(times: string[]): string | null {
+  if (times.length === 0) return null
+
+  const parsed = times.map((time) => time.split(':').map(Number))
+  const minute = parsed[0][1]
+  if (parsed.some(([, m]) => m !== minute)) return null
+
+  const hours = Array.from(new Set(parsed.map(([hour]) => hour))).sort((a, b) => a - b)
+  return `${minute} ${hours.join(',')} * * *`
+}
+
+export function formatTime12h(time24: string) {
+  const [h, m] = time24.split(':').map(Number)
+  const period = h >= 12 ? 'PM' : 'AM'
+  const hour12 = h % 12 || 12
+  return `${hour12}:${pad(m)} ${period}`
+}
@@ -0,0 +1,166 @@
+import * as cron from 'node-cron'
+import type { PipelineSchedule } from '@prisma/client'
+import { prisma } from './prisma'
+import { PIPELINE_STEP_NAMES, isPipelineStep } from './pipeline-runs'
+import { parseTags } from './sellers'
+
+// Named schedules the worker queues pipeline runs from (pipeline_schedules);
+// the dashboard edits them and the worker picks changes up on its next poll
+
+// ALL scrapes every enabled seller, TAG only the sellers with `sellerTag`, both
+// through the whole pipeline; STEPS runs firstStep to lastStep, on the latest
+// staged data when it starts after the scrape. With `dueOnly` the scrape skips
+// sellers whose scrape interval is not up yet.
+export const SCHEDULE_TARGETS = ['ALL', 'TAG', 'STEPS'] as const
+export type ScheduleTarget = (typeof SCHEDULE_TARGETS)[number]
+
+export type ScheduleInput = Pick<
+  PipelineSchedule,
+  | 'name'
+  | 'cronExpr'
+  | 'timezone'
+  | 'enabled'
+  | 'target'
+  | 'sellerTag'
+  | 'firstStep'
+  | 'lastStep'
+  | 'dueOnly'
+>
+
+// Fire times shown for each schedule
+const PREVIEW_RUNS = 5
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Why `cronExpr` is not a valid cron expression, or null when it is
+export function cronError(cronExpr: string): string | null {
+  const { valid, errors } = cron.validateDetailed(cronExpr)
+  return valid ? null : errors.map((error) => error.message).join('; ')
+}
+
+// The next `count` times `cronExpr` fires in `timezone`
+export function nextRuns(cronExpr: string, timezone: string, count = PREVIEW_RUNS): Date[] {
+  const task = cron.createTask(cronExpr, () => {}, { timezone })
+  try {
+    return task.getNextRuns(count)
+  } finally {
+    task.destroy()
+  }
+}
+
+/**
+ * Checks a schedule sent by the dashboard and normalizes it: names are
+ * trimmed and unique, and only STEPS schedules keep a step range other than
+ * the whole pipeline. `id` is the schedule being edited, if any.
+ */
+export async function validateSchedule(
+  body: Record<string, unknown>,
+  id?: number
+): Promise<{ data: ScheduleInput; error?: undefined } | { error: string }> {
+  const {
+    name,
+    cronExpr,
+    timezone,
+    enabled = true,
+    target,
+    sellerTag,
+    firstStep,
+    lastStep,
+    dueOnly = true,
+  } = body
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' }
+  }
+  if (name.trim().length > 100) {
+    return { error: 'name must be at most 100 characters' }
+  }
+  if (typeof cronExpr !== 'string' || !cronExpr.trim()) {
+    return { error: 'cronExpr must be a non-empty string' }
+  }
+  const invalidCron = cronError(cronExpr.trim())
+  if (invalidCron) {
+    return { error: `cronExpr is not a valid cron expression: ${invalidCron}` }
+  }
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    return { error: 'timezone must be an IANA time zone, e.g. Asia/Kolkata' }
+  }
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' }
+  }
+  if (typeof dueOnly !== 'boolean') {
+    return { error: 'dueOnly must be a boolean' }
+  }
+  if (typeof target !== 'string' || !SCHEDULE_TARGETS.includes(target as ScheduleTarget)) {
+    return { error: `target must be one of ${SCHEDULE_TARGETS.join(', ')}` }
+  }
+
+  const data: ScheduleInput = {
+    name: name.trim(),
+    cronExpr: cronExpr.trim(),
+    timezone,
+    enabled,
+    target,
+    sellerTag: null,
+    firstStep: PIPELINE_STEP_NAMES[0],
+    lastStep: PIPELINE_STEP_NAMES[PIPELINE_STEP_NAMES.length - 1],
+    dueOnly,
+  }
+
+  if (target === 'TAG') {
+    // Normalized like the sellers' own tags
+    const [tag] = parseTags(typeof sellerTag === 'string' ? [sellerTag] : [])
+    if (!tag) {
+      return { error: 'sellerTag is required for a TAG schedule' }
+    }
+    data.sellerTag = tag
+  }
+
+  if (target === 'STEPS') {
+    if (!isPipelineStep(firstStep) || !isPipelineStep(lastStep)) {
+      return { error: `firstStep and lastStep must be one of ${PIPELINE_STEP_NAMES.join(', ')}` }
+    }
+    if (PIPELINE_STEP_NAMES.indexOf(firstStep) > PIPELINE_STEP_NAMES.indexOf(lastStep)) {
+      return { error: `Cannot run from ${firstStep} to ${lastStep}` }
+    }
+    data.firstStep = firstStep
+    data.lastStep = lastStep
+  }
+
+  const sameName = await prisma.pipelineSchedule.findFirst({
+    where: { name: data.name, ...(id !== undefined ? { id: { not: id } } : {}) },
+  })
+  if (sameName) {
+    return { error: `A schedule named "${data.name}" already exists` }
+  }
+
+  return { data }
+}
+
+// Schedules with their upcoming fire times, for the dashboard
+export async function listSchedules() {
+  const schedules = await prisma.pipelineSchedule.findMany({ orderBy: { name: 'asc' } })
+  return schedules.map(withNextRuns)
+}
+
+export function withNextRuns(schedule: PipelineSchedule) {
+  let upcoming: Date[] = []
+  try {
+    upcoming = nextRuns(schedule.cronExpr, schedule.timezone)
+  } catch (error) {
+    // Saved before validation, or the time zone is no longer known
+    console.error(`Cannot compute the next runs of schedule "${schedule.name}":`, error)
+  }
+  return { ...schedule, nextRuns: upcoming }
+}
+
+export async function getEnabledSchedules(): Promise<PipelineSchedule[]> {
+  return prisma.pipelineSchedule.findMany({ where: { enabled: true } })
+}
@@ -1,27 +1,97 @@
 import { spawn, ChildProcess } from 'child_process'
 import path from 'path'
+import type { PipelineJob } from '@prisma/client'
 import { prisma } from './prisma'
-import * as cron from 'node-cron'
-
-type ScraperStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'AUTH_REQUIRED' | 'ENRICHING' | 'PROCESSING' | 'ENRICHMENT_FAILED' | 'PROCESSING_FAILED'
-type TriggerType = 'MANUAL' | 'SCHEDULED'
-type PipelineStep = 'IDLE' | 'SCRAPING' | 'ENRICHING' | 'PROCESSING'
-
-interface ScraperOutput {
-  type: 'stdout' | 'stderr' | 'status' | 'complete'
-  data: string
-  timestamp: Date
-}
+import {
+  PIPELINE_EVENT_PREFIX,
+  PipelineStepName,
+  RunProgress,
+  applyPipelineEvent,
+  emptyProgress,
+  parsePipelineEvent,
+} from './pipeline-events'
+import {
+  createJobRun,
+  type AuthState,
+  type PipelineStep,
+  type ScraperOutput,
+  type SessionAuth,
+} from './pipeline-jobs'
+import { resumeStepFor } from './pipeline-runs'
+import { copyStaging } from './staging'
+
+// Runs the pipeline's gpt scripts for the jobs the worker (worker/index.ts)
+// takes off the queue; the dashboard itself never starts them
+
+export type ScraperStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'AUTH_REQUIRED' | 'SESSION_LOST' | 'ENRICHING' | 'PROCESSING' | 'ENRICHMENT_FAILED' | 'PROCESSING_FAILED' | 'INTERRUPTED' | 'CANCELLED'
+
+// Stdout lines emitted by gpt/src/catalog/wppconnect-source.ts for the dashboard,
+// followed by the session name
+const QR_SIGNAL = '[wa-qr] '
+const AUTH_SIGNAL = '[wa-auth] '
+
+// Exit codes of the scraper (gpt/src/index.ts)
+const AUTH_REQUIRED_EXIT_CODE = 2
+const SESSION_LOST_EXIT_CODE = 3
+// Any step stopped by SIGTERM (gpt/src/pipeline/run.ts)
+const CANCELLED_EXIT_CODE = 4
+
+// How long a cancelled step gets to save its work before it is killed
+const KILL_TIMEOUT_MS = Number(process.env.SCRAPER_KILL_TIMEOUT_MS || 30000)
 
 type OutputCallback = (output: ScraperOutput) => void
 
+// The pipeline in order; a run covers a range of steps, by default all of them
+const PIPELINE_STEPS: {
+  name: PipelineStepName
+  step: Exclude<PipelineStep, 'IDLE'>
+  // Run status while the step runs, and when it fails
+  status: ScraperStatus
+  failedStatus: ScraperStatus
+  args: string[]
+  title: string
+  failure: string
+}[] = [
+  {
+    name: 'scrape',
+    step: 'SCRAPING',
+    status: 'RUNNING',
+    failedStatus: 'FAILED',
+    args: ['start'],
+    title: 'Starting scraper',
+    failure: 'Scraping failed',
+  },
+  {
+    name: 'enrich',
+    step: 'ENRICHING',
+    status: 'ENRICHING',
+    failedStatus: 'ENRICHMENT_FAILED',
+    args: ['run', 'enrich'],
+    title: 'Starting LLM enrichment',
+    failure: 'Enrichment failed',
+  },
+  {
+    name: 'process',
+    step: 'PROCESSING',
+    status: 'PROCESSING',
+    failedStatus: 'PROCESSING_FAILED',
+    args: ['run', 'processor'],
+    title: 'Updating database',
+    failure: 'Database processing failed',
+  },
+]
+
 class ScraperService {
   private currentRunId: number | null = null
   private outputBuffer: string[] = []
   private listeners: Set<OutputCallback> = new Set()
-  private scheduledTask: cron.ScheduledTask | null = null
   private pipelineStep: PipelineStep = 'IDLE'
   private abortRequested: boolean = false
+  private pendingQrs: Map<string, string> = new Map()
+  private sessionAuth: Map<string, SessionAuth> = new Map()
+  private progress: RunProgress = emptyProgress()
+  private activeChild: ChildProcess | null = null
+  private killTimer: NodeJS.Timeout | null = null
 
   isRunning(): boolean {
     return this.pipelineStep !== 'IDLE'
@@ -35,6 +105,21 @@ class ScraperService {
     return this.currentRunId
   }
 
+  // Login state of each session, as reported by the scraper during the current run
+  getSessionAuth(): Record<string, SessionAuth> {
+    return Object.fromEntries(this.sessionAuth)
+  }
+
+  // QR codes still waiting to be scanned, for clients connecting mid-run
+  getPendingQrs(): { session: string; qr: string }[] {
+    return Array.from(this.pendingQrs, ([session, qr]) => ({ session, qr }))
+  }
+
+  // Progress of the current (or last) run, from the pipeline's events
+  getProgress(): RunProgress {
+    return this.progress
+  }
+
   subscribe(callback: OutputCallback): () => void {
     this.listeners.add(callback)
     return () => this.listeners.delete(callback)
@@ -44,6 +129,65 @@ class ScraperService {
     this.listeners.forEach((cb) => cb(output))
   }
 
+  private setPendingQr(session: string, qr: string | null) {
+    if (qr) {
+      this.pendingQrs.set(session, qr)
+    } else {
+      this.pendingQrs.delete(session)
+    }
+    this.broadcast({ type: 'qr', data: qr ?? '', session, timestamp: new Date() })
+  }
+
+  // Sessions whose last reported state is one of `states`, with their details
+  private sessionsIn(...states: AuthState[]): string[] {
+    return Array.from(this.sessionAuth)
+      .filter(([, auth]) => states.includes(auth.state))
+      .map(([session, auth]) => (auth.detail ? `${session} (${auth.detail})` : session))
+  }
+
+  private handlePipelineEvent(line: string) {
+    const event = parsePipelineEvent(line)
+    if (!event) return
+    applyPipelineEvent(this.progress, event)
+    // Per-product changes are frequent; they reach clients with the next seller
+    if (event.type === 'product-changed') return
+    this.broadcast({ type: 'progress', data: JSON.stringify(this.progress), timestamp: new Date() })
+  }
+
+  /**
+   * Picks QR/auth signal and pipeline event lines out of a chunk of complete
+   * stdout lines. Returns the remaining text to log.
+   */
+  private extractSignals(text: string): string {
+    const lines = text.split('\n')
+    const kept: string[] = []
+
+    for (const line of lines) {
+      if (line.startsWith(PIPELINE_EVENT_PREFIX)) {
+        this.handlePipelineEvent(line)
+      } else if (line.startsWith(QR_SIGNAL)) {
+        const [session, qr] = line.slice(QR_SIGNAL.length).trim().split(' ')
+        this.setPendingQr(session, qr)
+      } else if (line.startsWith(AUTH_SIGNAL)) {
+        const [session, state, ...detail] = line.slice(AUTH_SIGNAL.length).trim().split(' ')
+        this.sessionAuth.set(session, { state: state as AuthState, detail: detail.join(' ') })
+        if (state !== 'waiting' && this.pendingQrs.has(session)) {
+          this.setPendingQr(session, null)
+        }
+        this.broadcast({
+          type: 'auth',
+          data: [state, ...detail].join(' '),
+          session,
+          timestamp: new Date(),
+        })
+      } else {
+        kept.push(line)
+      }
+    }
+
+    return kept.join('\n')
+  }
+
   /**
    * Runs a command and streams output to listeners
    * Returns a promise that resolves with exit code and output
@@ -51,19 +195,17 @@ class ScraperService {
   private runCommand(
     command: string,
     args: string[],
-    cwd: string
+    cwd: string,
+    env: Record<string, string> = {}
   ): Promise<{ code: number; output: string }> {
     return new Promise((resolve) => {
       const commandOutput: string[] = []
+      // Stdout is handled line by line so signal lines (large base64 QR codes)
+      // are never split across chunks
+      let partialLine = ''
 
-      const childProcess = spawn(command, args, {
-        cwd,
-        shell: true,
-        env: { ...process.env },
-      })
-
-      childProcess.stdout?.on('data', (data: Buffer) => {
-        const text = data.toString()
+      const handleStdout = (text: string) => {
+        if (!text) return
         commandOutput.push(text)
         this.outputBuffer.push(text)
         this.broadcast({
@@ -71,6 +213,24 @@ class ScraperService {
           data: text,
           timestamp: new Date(),
         })
+      }
+
+      // In its own process group, so cancelling reaches the script under the shell and npm
+      const childProcess = spawn(command, args, {
+        cwd,
+        shell: true,
+        detached: true,
+        env: { ...process.env, ...env },
+      })
+      this.activeChild = childProcess
+
+      childProcess.stdout?.on('data', (data: Buffer) => {
+        const text = partialLine + data.toString()
+        const lastNewline = text.lastIndexOf('\n')
+        partialLine = text.slice(lastNewline + 1)
+        if (lastNewline >= 0) {
+          handleStdout(this.extractSignals(text.slice(0, lastNewline + 1)))
+        }
       })
 
       childProcess.stderr?.on('data', (data: Buffer) => {
@@ -85,10 +245,13 @@ class ScraperService {
       })
 
       childProcess.on('close', (code) => {
+        this.releaseChild(childProcess)
+        handleStdout(this.extractSignals(partialLine))
         resolve({ code: code ?? 1, output: commandOutput.join('') })
       })
 
       childProcess.on('error', (error) => {
+        this.releaseChild(childProcess)
         this.broadcast({
           type: 'stderr',
           data: `Process error: ${error.message}`,
@@ -99,126 +262,246 @@ class ScraperService {
     })
   }
 
-  async startScraper(triggerType: TriggerType): Promise<{ runId: number; error?: string }> {
-    if (this.isRunning()) {
-      return { runId: -1, error: `Pipeline is already running (step: ${this.pipelineStep})` }
+  private releaseChild(child: ChildProcess) {
+    if (this.activeChild !== child) return
+    this.activeChild = null
+    if (this.killTimer) {
+      clearTimeout(this.killTimer)
+      this.killTimer = null
     }
-
-    // Create a new run record
-    const run = await prisma.scraperRun.create({
-      data: {
-        status: 'RUNNING',
-        triggerType,
-      },
-    })
-
-    this.currentRunId = run.id
-    this.outputBuffer = []
-    this.abortRequested = false
-
-    const scraperPath = path.resolve(process.cwd(), '../gpt')
-
-    // Start the full pipeline asynchronously
-    this.runFullPipeline(run.id, scraperPath)
-
-    return { runId: run.id }
   }
 
   /**
-   * Runs the full pipeline: Scrape → Enrich → Process
+   * Asks the running step to stop with SIGTERM, so it can save the batch or
+   * seller in flight, and kills it if it is still running after KILL_TIMEOUT_MS
    */
-  private async runFullPipeline(runId: number, scraperPath: string): Promise<void> {
-    let finalStatus: ScraperStatus = 'COMPLETED'
-    let errorMessage: string | null = null
-
-    try {
-      // ===== STEP 1: SCRAPING =====
-      this.pipelineStep = 'SCRAPING'
+  private terminateChild() {
+    const child = this.activeChild
+    if (!child?.pid) return
+    const pid = child.pid
+
+    this.signalProcessGroup(pid, 'SIGTERM')
+    this.killTimer = setTimeout(() => {
+      if (this.activeChild !== child) return
       this.broadcast({
         type: 'status',
-        data: `\n${'='.repeat(50)}\n[STEP 1/3] Starting scraper (Run #${runId})...\n${'='.repeat(50)}\n`,
+        data: `\n⚠️ Step did not stop within ${KILL_TIMEOUT_MS / 1000}s; killing it.\n`,
         timestamp: new Date(),
       })
+      this.signalProcessGroup(pid, 'SIGKILL')
+    }, KILL_TIMEOUT_MS)
+  }
 
-      const scrapeResult = await this.runCommand('npm', ['start'], scraperPath)
+  private signalProcessGroup(pid: number, signal: NodeJS.Signals) {
+    try {
+      process.kill(-pid, signal)
+    } catch {
+      // The group already exited
+    }
+  }
 
-      // Check if auth was required
-      if (scrapeResult.output.includes('scan QR code') || scrapeResult.output.includes('QR code')) {
-        finalStatus = 'AUTH_REQUIRED'
-        errorMessage = 'WhatsApp authentication required'
-        return
-      }
+  /**
+   * Runs a queued job to the end: a new run over the job's steps, linked to
+   * the job as it is created, or a resume of the job's run. Resolves with the
+   * run's final status.
+   */
+  async runJob(job: PipelineJob): Promise<ScraperStatus> {
+    if (this.isRunning()) {
+      throw new Error(`Pipeline is already running (step: ${this.pipelineStep})`)
+    }
 
-      if (scrapeResult.code !== 0) {
-        finalStatus = 'FAILED'
-        errorMessage = `Scraping failed with exit code ${scrapeResult.code}`
-        return
-      }
+    const toStep = job.lastStep as PipelineStepName
 
-      if (this.abortRequested) {
-        finalStatus = 'FAILED'
-        errorMessage = 'Pipeline aborted by user'
-        return
-      }
+    if (job.kind === 'RESUME') {
+      const run = await prisma.scraperRun.findUnique({ where: { id: job.runId! } })
+      if (!run) throw new Error(`Run #${job.runId} not found`)
 
-      // ===== STEP 2: ENRICHMENT =====
-      this.pipelineStep = 'ENRICHING'
-      this.broadcast({
-        type: 'status',
-        data: `\n${'='.repeat(50)}\n[STEP 2/3] Starting LLM enrichment...\n${'='.repeat(50)}\n`,
-        timestamp: new Date(),
-      })
+      // Re-checked: the run may have moved on since the job was queued
+      const fromStep = resumeStepFor(run)
+      if (!fromStep) throw new Error(`Run #${run.id} (${run.status}) cannot be resumed`)
 
       await prisma.scraperRun.update({
-        where: { id: runId },
-        data: { status: 'ENRICHING' },
+        where: { id: run.id },
+        data: { completedAt: null, errorMessage: null },
       })
 
-      const enrichResult = await this.runCommand('npm', ['run', 'enrich'], scraperPath)
+      return this.beginRun(
+        run,
+        fromStep,
+        toStep,
+        run.output ? [run.output, `\n[Resumed from ${fromStep}]\n`] : []
+      )
+    }
 
-      if (enrichResult.code !== 0) {
-        finalStatus = 'ENRICHMENT_FAILED'
-        errorMessage = `Enrichment failed with exit code ${enrichResult.code}`
-        return
-      }
+    const fromStep = job.firstStep as PipelineStepName
+    const run = await createJobRun(job.id, {
+      status: PIPELINE_STEPS.find((step) => step.name === fromStep)!.status,
+      triggerType: job.triggerType,
+      firstStep: fromStep,
+      lastStep: toStep,
+      sourceRunId: job.sourceRunId,
+      scheduleId: job.scheduleId,
+      sellerTag: job.sellerTag,
+      dueOnly: job.dueOnly,
+      sellerPhone: job.sellerPhone,
+    })
 
-      if (this.abortRequested) {
-        finalStatus = 'FAILED'
-        errorMessage = 'Pipeline aborted by user'
-        return
+    // Runs starting after the scrape work on a copy of their source run's staged data
+    const initialOutput: string[] = []
+    if (job.sourceRunId !== null && fromStep !== 'scrape') {
+      try {
+        const copied = await copyStaging(job.sourceRunId, run.id, fromStep)
+        initialOutput.push(
+          `[Copied ${copied.sellers} seller(s) and ${copied.products} product(s) staged by run #${job.sourceRunId}]\n`
+        )
+      } catch (error) {
+        await prisma.scraperRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: `Could not copy the staged data of run #${job.sourceRunId}`,
+          },
+        })
+        throw error
       }
+    }
 
-      // ===== STEP 3: DATABASE PROCESSING =====
-      this.pipelineStep = 'PROCESSING'
-      this.broadcast({
-        type: 'status',
-        data: `\n${'='.repeat(50)}\n[STEP 3/3] Updating database...\n${'='.repeat(50)}\n`,
-        timestamp: new Date(),
-      })
+    return this.beginRun(run, fromStep, toStep, initialOutput)
+  }
 
-      await prisma.scraperRun.update({
-        where: { id: runId },
-        data: { status: 'PROCESSING' },
-      })
+  private beginRun(
+    run: { id: number; sellerTag: string | null; dueOnly: boolean; sellerPhone: string | null },
+    fromStep: PipelineStepName,
+    toStep: PipelineStepName,
+    initialOutput: string[] = []
+  ): Promise<ScraperStatus> {
+    this.currentRunId = run.id
+    this.outputBuffer = initialOutput
+    this.abortRequested = false
+    this.pendingQrs.clear()
+    this.sessionAuth.clear()
+    this.progress = emptyProgress()
+
+    const scraperPath = path.resolve(process.cwd(), '../gpt')
+
+    return this.runFullPipeline(run.id, scraperPath, fromStep, toStep, run)
+  }
+
+  /**
+   * Runs the pipeline (Scrape → Enrich → Process) from `fromStep` to `toStep`,
+   * scraping only `sellerPhone` or the sellers tagged `sellerTag` when given,
+   * and only the ones due for a scrape when `dueOnly`
+   */
+  private async runFullPipeline(
+    runId: number,
+    scraperPath: string,
+    fromStep: PipelineStepName,
+    toStep: PipelineStepName,
+    {
+      sellerTag,
+      dueOnly,
+      sellerPhone,
+    }: { sellerTag: string | null; dueOnly: boolean; sellerPhone: string | null }
+  ): Promise<ScraperStatus> {
+    let finalStatus: ScraperStatus = 'COMPLETED'
+    let errorMessage: string | null = null
+    // Lets the gpt scripts key their outputs (e.g. the raw catalog archive) by
+    // run, and report progress as pipeline events
+    const runEnv: Record<string, string> = {
+      SCRAPER_RUN_ID: String(runId),
+      PIPELINE_EVENTS: 'true',
+      ...(sellerTag ? { SELLER_TAG: sellerTag } : {}),
+      ...(dueOnly ? { SCRAPE_DUE_ONLY: 'true' } : {}),
+      ...(sellerPhone ? { SELLER_PHONES: sellerPhone } : {}),
+    }
+    const firstStep = PIPELINE_STEPS.findIndex((step) => step.name === fromStep)
+    const lastStep = PIPELINE_STEPS.findIndex((step) => step.name === toStep)
 
-      const processResult = await this.runCommand('npm', ['run', 'processor'], scraperPath)
+    try {
+      for (let index = firstStep; index <= lastStep; index++) {
+        const step = PIPELINE_STEPS[index]
+
+        if (this.abortRequested) {
+          finalStatus = 'CANCELLED'
+          errorMessage = `Cancelled by user before the ${step.name} step`
+          return finalStatus
+        }
 
-      if (processResult.code !== 0) {
-        finalStatus = 'PROCESSING_FAILED'
-        errorMessage = `Database processing failed with exit code ${processResult.code}`
-        return
+        this.pipelineStep = step.step
+        this.broadcast({
+          type: 'status',
+          data: `\n${'='.repeat(50)}\n[STEP ${index + 1}/${PIPELINE_STEPS.length}] ${step.title}${
+            index === firstStep ? ` (Run #${runId})` : ''
+          }...\n${'='.repeat(50)}\n`,
+          timestamp: new Date(),
+        })
+
+        await prisma.scraperRun.update({
+          where: { id: runId },
+          data: { status: step.status },
+        })
+
+        const result = await this.runCommand('npm', step.args, scraperPath, runEnv)
+
+        // A step that finished anyway counts as completed; one that was stopped
+        // keeps what it staged for a resume
+        if (result.code !== 0 && (this.abortRequested || result.code === CANCELLED_EXIT_CODE)) {
+          finalStatus = 'CANCELLED'
+          errorMessage = `Cancelled during the ${step.name} step`
+          return finalStatus
+        }
+
+        if (step.name === 'scrape') {
+          // The scraper waits AUTH_QR_WAIT_MS for a scan and carries on with the
+          // sessions that logged in; it only gives up when none did
+          if (result.code === AUTH_REQUIRED_EXIT_CODE) {
+            finalStatus = 'AUTH_REQUIRED'
+            const sessions = this.sessionsIn('timeout', 'waiting')
+            errorMessage = `WhatsApp authentication required: QR code was not scanned in time${
+              sessions.length > 0 ? ` for ${sessions.join(', ')}` : ''
+            }`
+            return finalStatus
+          }
+
+          // The scraper stops once every session has dropped; sellers it staged are kept
+          if (result.code === SESSION_LOST_EXIT_CODE) {
+            finalStatus = 'SESSION_LOST'
+            const sessions = this.sessionsIn('session-lost')
+            errorMessage = `WhatsApp session lost: ${sessions.length > 0 ? sessions.join(', ') : 'disconnected'}`
+            return finalStatus
+          }
+        }
+
+        if (result.code !== 0) {
+          finalStatus = step.failedStatus
+          errorMessage = `${step.failure} with exit code ${result.code}`
+          return finalStatus
+        }
+
+        await prisma.scraperRun.update({
+          where: { id: runId },
+          data: { lastCompletedStep: step.name },
+        })
       }
 
-      // All steps completed successfully
+      // All steps of the run completed successfully
       finalStatus = 'COMPLETED'
     } catch (error) {
       finalStatus = 'FAILED'
       errorMessage = error instanceof Error ? error.message : 'Unknown error'
     } finally {
-      // Parse stats from full output
       const fullOutput = this.outputBuffer.join('')
-      const sellersMatch = fullOutput.match(/(\d+) seller\(s\)/)
-      const productsMatch = fullOutput.match(/Saved (\d+) products/)
+      const { scrape, enrich, process: processing, errorCount } = this.progress
+
+      // Scrape totals cover every attempt at the run; the other counts are
+      // added to what earlier attempts recorded
+      const scrapeStats =
+        scrape.stagedSellers !== null
+          ? { sellersProcessed: scrape.stagedSellers, productsScraped: scrape.stagedProducts ?? 0 }
+          : scrape.sellers > 0
+            ? { sellersProcessed: scrape.skipped + scrape.finished }
+            : {}
 
       await prisma.scraperRun.update({
         where: { id: runId },
@@ -227,8 +510,12 @@ class ScraperService {
           completedAt: new Date(),
           output: fullOutput,
           errorMessage,
-          sellersProcessed: sellersMatch ? parseInt(sellersMatch[1]) : 0,
-          productsScraped: productsMatch ? parseInt(productsMatch[1]) : 0,
+          ...scrapeStats,
+          productsEnriched: { increment: enrich.productsDone },
+          productsCreated: { increment: processing.created },
+          productsUpdated: { increment: processing.updated },
+          productsDeactivated: { increment: processing.deactivated },
+          errorCount: { increment: errorCount },
         },
       })
 
@@ -244,104 +531,36 @@ class ScraperService {
         timestamp: new Date(),
       })
 
+      this.pendingQrs.forEach((_, session) => this.setPendingQr(session, null))
+
       // Reset state
       this.pipelineStep = 'IDLE'
       this.currentRunId = null
       this.abortRequested = false
     }
+
+    return finalStatus
   }
 
+  /**
+   * Cancels the current run: the running step is terminated and the run is
+   * marked CANCELLED, keeping what it staged so it can be resumed
+   */
   stopScraper(): boolean {
-    if (this.isRunning()) {
+    if (!this.isRunning()) return false
+
+    if (!this.abortRequested) {
       this.abortRequested = true
       this.broadcast({
         type: 'status',
-        data: '\n⚠️ Abort requested. Pipeline will stop after current step completes.\n',
+        data: '\n⚠️ Cancel requested. Stopping the current step...\n',
         timestamp: new Date(),
       })
-      return true
-    }
-    return false
-  }
-
-  async initScheduler() {
-    try {
-      // Get or create scheduler config
-      let config = await prisma.schedulerConfig.findUnique({ where: { id: 1 } })
-
-      if (!config) {
-        config = await prisma.schedulerConfig.create({
-          data: {
-            id: 1,
-            enabled: false,
-            cronExpr: '0 9,21 * * *', // 9am and 9pm
-          },
-        })
-      }
-
-      if (config.enabled && cron.validate(config.cronExpr)) {
-        this.startScheduler(config.cronExpr)
-      }
-    } catch (error) {
-      // Database might not be initialized yet (during build or first run)
-      console.log('Scheduler init skipped - database not ready:', (error as Error).message)
-    }
-  }
-
-  startScheduler(cronExpr: string) {
-    if (this.scheduledTask) {
-      this.scheduledTask.stop()
-    }
-
-    if (!cron.validate(cronExpr)) {
-      console.error('Invalid cron expression:', cronExpr)
-      return
-    }
-
-    this.scheduledTask = cron.schedule(cronExpr, async () => {
-      console.log('Scheduled scraper run starting...')
-      await this.startScraper('SCHEDULED')
-    })
-
-    console.log(`Scheduler started with cron: ${cronExpr}`)
-  }
-
-  stopScheduler() {
-    if (this.scheduledTask) {
-      this.scheduledTask.stop()
-      this.scheduledTask = null
-    }
-  }
-
-  async updateSchedulerConfig(enabled: boolean, cronExpr: string) {
-    await prisma.schedulerConfig.upsert({
-      where: { id: 1 },
-      update: { enabled, cronExpr },
-      create: { id: 1, enabled, cronExpr },
-    })
-
-    if (enabled && cron.validate(cronExpr)) {
-      this.startScheduler(cronExpr)
-    } else {
-      this.stopScheduler()
-    }
-  }
-
-  async getSchedulerConfig() {
-    try {
-      const config = await prisma.schedulerConfig.findUnique({ where: { id: 1 } })
-      return config || { id: 1, enabled: false, cronExpr: '0 9,21 * * *' }
-    } catch {
-      // Database might not be initialized yet
-      return { id: 1, enabled: false, cronExpr: '0 9,21 * * *' }
+      this.terminateChild()
     }
+    return true
   }
 }
 
 // Singleton instance
 export const scraperService = new ScraperService()
-
-// Initialize scheduler on module load (server-side only)
-if (typeof window === 'undefined') {
-  scraperService.initScheduler().catch(console.error)
-}
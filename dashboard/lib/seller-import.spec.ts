@@ -0,0 +1,179 @@
+import ExcelJS from 'exceljs'
+import type { Seller } from '@prisma/client'
+import { describe, expect, it } from 'vitest'
+import { parseCsv as parseScraperCsv } from '../../gpt/src/utils/csv'
+import {
+  checkRowPhone,
+  parseCsv,
+  parseSellerRows,
+  parseWorkbook,
+  planImport,
+  summarizeImport,
+  toCsvExportUrl,
+} from '@/lib/seller-import'
+
+function seller(overrides: Partial<Seller>): Seller {
+  return {
+    phoneNumber: '919916515577',
+    name: null,
+    city: null,
+    catalogueUrl: null,
+    notes: null,
+    tags: [],
+    ...overrides,
+  } as Seller
+}
+
+describe('parseCsv', () => {
+  it('keeps commas, escaped quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('\uFEFFname,notes\r\n"Shop, Ltd","says ""hi""\nand bye"\r\n\r\n')).toEqual([
+      ['name', 'notes'],
+      ['Shop, Ltd', 'says "hi"\nand bye'],
+    ])
+  })
+
+  // The scraper's sheet import has its own copy (gpt/src/utils/csv.ts); both must read a sheet the same way
+  it.each([
+    'name,phone\nA,1\nB,2',
+    '\uFEFFname,notes\r\n"Shop, Ltd","says ""hi""\nand bye"\r\n\r\n',
+    'a,,c\n,\n\n"",x',
+    '"unterminated,field\nnext',
+    'trailing,comma,\r\nno newline at the end',
+    '',
+  ])('reads %j like the scraper does', (text) => {
+    expect(parseCsv(text)).toEqual(parseScraperCsv(text))
+  })
+})
+
+describe('checkRowPhone', () => {
+  it('takes the phone from the catalogue link, else from the phone column', () => {
+    expect(checkRowPhone('', 'https://wa.me/c/919916515577')).toEqual({ phoneNumber: '919916515577' })
+    expect(checkRowPhone('+91 99165 15577', null)).toEqual({ phoneNumber: '919916515577' })
+    expect(checkRowPhone('919916515577', 'https://wa.me/c/919916515577')).toEqual({
+      phoneNumber: '919916515577',
+    })
+  })
+
+  it('rejects a phone that disagrees with the catalogue link', () => {
+    expect(checkRowPhone('919900000001', 'https://wa.me/c/919916515577')).toEqual({
+      issue: 'Phone 919900000001 does not match catalogue link (919916515577)',
+    })
+  })
+
+  it('rejects links that are not http(s) or have no phone, and missing phones', () => {
+    expect(checkRowPhone('', 'javascript:alert(1)')).toEqual({ issue: 'Catalogue link is not an http(s) URL' })
+    expect(checkRowPhone('', 'https://example.com/shop')).toEqual({ issue: 'Catalogue link has no phone number' })
+    expect(checkRowPhone('12345', null)).toEqual({ issue: 'Missing or invalid phone number' })
+  })
+})
+
+describe('parseWorkbook', () => {
+  it('reads the first worksheet as the cells display, without blank rows', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Sellers')
+    sheet.addRow(['name', 'phone', 'tags'])
+    sheet.addRow(['Phone Hub', 919916515577, 'iphone, mumbai'])
+    sheet.addRow([])
+    sheet.addRow(['Only name'])
+    workbook.addWorksheet('Ignored').addRow(['other'])
+    const buffer = await workbook.xlsx.writeBuffer()
+
+    expect(await parseWorkbook(buffer as ArrayBuffer)).toEqual([
+      ['name', 'phone', 'tags'],
+      ['Phone Hub', '919916515577', 'iphone, mumbai'],
+      ['Only name', '', ''],
+    ])
+  })
+})
+
+describe('toCsvExportUrl', () => {
+  it('builds the CSV export URL from the sheet id and tab', () => {
+    expect(toCsvExportUrl('https://docs.google.com/spreadsheets/d/abc_DEF-123/edit#gid=42')).toBe(
+      'https://docs.google.com/spreadsheets/d/abc_DEF-123/export?format=csv&gid=42'
+    )
+    expect(toCsvExportUrl('https://docs.google.com/spreadsheets/d/abc/edit')).toBe(
+      'https://docs.google.com/spreadsheets/d/abc/export?format=csv&gid=0'
+    )
+  })
+
+  it('rejects anything that is not a Google Sheets link', () => {
+    for (const url of [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://localhost:3000/api/sellers',
+      'http://docs.google.com/spreadsheets/d/abc/edit',
+      'https://docs.google.com.evil.example/spreadsheets/d/abc',
+      'https://evil.example/?docs.google.com/spreadsheets/d/abc',
+      'https://docs.google.com/document/d/abc/edit',
+      'not a url',
+    ]) {
+      expect(toCsvExportUrl(url)).toBeNull()
+    }
+  })
+})
+
+describe('parseSellerRows', () => {
+  it('reads aliased columns, tags and notes', () => {
+    const [row] = parseSellerRows([
+      ['Seller Name', 'Location', 'Catalogue-Link', 'Tags', 'Note'],
+      ['Phone Hub', 'Mumbai', 'https://wa.me/c/919916515577', 'iPhone, Mumbai, iphone', 'calls back'],
+    ])
+    expect(row).toEqual({
+      line: 2,
+      status: 'new',
+      phoneNumber: '919916515577',
+      name: 'Phone Hub',
+      city: 'Mumbai',
+      catalogueUrl: 'https://wa.me/c/919916515577',
+      notes: 'calls back',
+      tags: ['iphone', 'mumbai'],
+    })
+  })
+
+  it('flags invalid and duplicate rows', () => {
+    const rows = parseSellerRows([
+      ['name', 'phone', 'catalogue_link'],
+      ['A', '', 'wa.me/c/919916515577'],
+      ['B', '', 'https://example.com/shop'],
+      ['C', '1234', ''],
+      ['D', '919900000000', 'https://wa.me/c/919916515577'],
+      ['E', '+91 99165 15577', ''],
+      ['F', '', 'https://wa.me/c/919916515577'],
+    ])
+    expect(rows.map(({ line, status, issue }) => [line, status, issue])).toEqual([
+      [2, 'invalid', 'Catalogue link is not an http(s) URL'],
+      [3, 'invalid', 'Catalogue link has no phone number'],
+      [4, 'invalid', 'Missing or invalid phone number'],
+      [5, 'invalid', 'Phone 919900000000 does not match catalogue link (919916515577)'],
+      [6, 'new', undefined],
+      [7, 'duplicate', 'Same phone as an earlier row'],
+    ])
+  })
+
+  it('throws when neither a link nor a phone column is present', () => {
+    expect(() => parseSellerRows([['name'], ['A']])).toThrow(/catalogue_link/)
+  })
+})
+
+describe('planImport', () => {
+  it('only fills in blank fields of existing sellers', () => {
+    const rows = parseSellerRows([
+      ['name', 'city', 'phone', 'tags'],
+      ['New One', 'Pune', '919811111111', ''],
+      ['Renamed', 'Mumbai', '919822222222', 'iphone'],
+      ['Same', 'Delhi', '919833333333', ''],
+      ['Bad', '', '12', ''],
+    ])
+    const planned = planImport(rows, [
+      seller({ phoneNumber: '919822222222', name: 'Kept', city: null }),
+      seller({ phoneNumber: '919833333333', name: 'Same', city: 'Delhi' }),
+    ])
+
+    expect(planned.map(({ status, changes }) => [status, changes])).toEqual([
+      ['new', undefined],
+      ['update', ['city', 'tags']],
+      ['unchanged', undefined],
+      ['invalid', undefined],
+    ])
+    expect(summarizeImport(planned)).toEqual({ new: 1, update: 1, unchanged: 1, duplicate: 0, invalid: 1 })
+  })
+})
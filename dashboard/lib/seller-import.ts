@@ -0,0 +1,264 @@
+import ExcelJS from 'exceljs'
+import type { Seller } from '@prisma/client'
+import { normalizePhone, parseTags, phoneFromCatalogueUrl } from '@/lib/sellers'
+
+// Parsing and planning for bulk seller imports (CSV/XLSX uploads and Google Sheets)
+
+export type ImportRowStatus = 'new' | 'update' | 'unchanged' | 'duplicate' | 'invalid'
+
+export type ImportRow = {
+  // 1-based row number including the header, as shown in a spreadsheet
+  line: number
+  status: ImportRowStatus
+  phoneNumber: string | null
+  name: string | null
+  city: string | null
+  catalogueUrl: string | null
+  notes: string | null
+  tags: string[]
+  issue?: string
+  // Fields that would be filled in on an existing seller
+  changes?: string[]
+}
+
+export type ImportSummary = Record<ImportRowStatus, number>
+
+export type ImportReport = {
+  created: string[]
+  updated: string[]
+  unchanged: string[]
+  failed: { phoneNumber: string; error: string }[]
+}
+
+const HEADER_ALIASES = {
+  name: ['name', 'seller_name', 'seller'],
+  city: ['city', 'location'],
+  phone: ['phone', 'phone_number', 'whatsapp'],
+  url: ['catalogue_link', 'catalogue_url', 'catalog_link', 'catalog_url'],
+  tags: ['tags', 'tag'],
+  notes: ['notes', 'note'],
+}
+
+/**
+ * RFC 4180 CSV parser: quoted fields may contain commas, escaped quotes ("")
+ * and line breaks. Blank lines are dropped. The same as the scraper's
+ * (gpt/src/utils/csv.ts), which seller-import.spec.ts checks it against.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 BOM, which Excel adds to CSV exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim().length > 0))
+}
+
+// Reads the first worksheet of an XLSX workbook as rows of strings, as the cells display
+export async function parseWorkbook(data: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(data)
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return []
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = []
+    for (let i = 1; i <= sheet.columnCount; i++) cells.push(row.getCell(i).text ?? '')
+    rows.push(cells)
+  })
+  return rows.filter((r) => r.some((cell) => cell.trim().length > 0))
+}
+
+export function isWorkbookFile(fileName: string): boolean {
+  return /\.xlsx$/i.test(fileName)
+}
+
+/**
+ * The CSV export URL of a Google Sheets link, or null for anything else. The
+ * URL is rebuilt from the sheet id rather than passed through, so the server
+ * only ever fetches from docs.google.com.
+ */
+export function toCsvExportUrl(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== 'https:' || parsed.hostname !== 'docs.google.com') return null
+
+  const id = parsed.pathname.match(/^\/spreadsheets\/d\/([A-Za-z0-9_-]+)(?:\/|$)/)?.[1]
+  if (!id) return null
+
+  const gid = `${parsed.search}${parsed.hash}`.match(/[?#&]gid=(\d+)/)?.[1] ?? '0'
+  return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=${gid}`
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+/**
+ * The phone a sheet row imports as: the one in its catalogue link, else its
+ * phone column, which must agree with the link when both are given. The
+ * import route checks the rows it commits with this too, so a stale or
+ * edited payload cannot slip a row past the preview's rules.
+ */
+export function checkRowPhone(
+  phone: string,
+  catalogueUrl: string | null
+): { phoneNumber: string } | { issue: string } {
+  if (catalogueUrl && !/^https?:\/\//i.test(catalogueUrl)) {
+    return { issue: 'Catalogue link is not an http(s) URL' }
+  }
+
+  const urlPhone = catalogueUrl ? phoneFromCatalogueUrl(catalogueUrl) : null
+  const columnPhone = normalizePhone(phone)
+  if (catalogueUrl && !urlPhone && !columnPhone) {
+    return { issue: 'Catalogue link has no phone number' }
+  }
+  if (urlPhone && columnPhone && urlPhone !== columnPhone) {
+    return { issue: `Phone ${columnPhone} does not match catalogue link (${urlPhone})` }
+  }
+
+  const phoneNumber = urlPhone ?? columnPhone
+  if (phoneNumber.length < 8 || phoneNumber.length > 20) {
+    return { issue: 'Missing or invalid phone number' }
+  }
+  return { phoneNumber }
+}
+
+/**
+ * Validates sheet rows (header first) without touching the database. Valid
+ * rows come back as 'new'; `planImport` later compares them to the registry.
+ * Keep the rules in step with the scraper's sheet import (gpt/src/sellers/sheet.ts).
+ */
+export function parseSellerRows(rows: string[][]): ImportRow[] {
+  if (rows.length === 0) return []
+
+  const headers = rows[0].map(normalizeHeader)
+  const column = (aliases: string[]) => headers.findIndex((h) => aliases.includes(h))
+  const idx = {
+    name: column(HEADER_ALIASES.name),
+    city: column(HEADER_ALIASES.city),
+    phone: column(HEADER_ALIASES.phone),
+    url: column(HEADER_ALIASES.url),
+    tags: column(HEADER_ALIASES.tags),
+    notes: column(HEADER_ALIASES.notes),
+  }
+
+  if (idx.url === -1 && idx.phone === -1) {
+    throw new Error(
+      'Could not find a "catalogue_link", "catalogue_url" or "phone" column in the header row'
+    )
+  }
+
+  const cell = (row: string[], i: number) => (i === -1 ? '' : (row[i] ?? '').trim())
+  const seen = new Set<string>()
+
+  return rows.slice(1).map((row, i): ImportRow => {
+    const catalogueUrl = cell(row, idx.url) || null
+    const parsed: ImportRow = {
+      line: i + 2,
+      status: 'new',
+      phoneNumber: null,
+      name: cell(row, idx.name) || null,
+      city: cell(row, idx.city) || null,
+      catalogueUrl,
+      notes: cell(row, idx.notes) || null,
+      tags: parseTags(cell(row, idx.tags)),
+    }
+
+    const checked = checkRowPhone(cell(row, idx.phone), catalogueUrl)
+    if ('issue' in checked) {
+      return { ...parsed, status: 'invalid', issue: checked.issue }
+    }
+
+    const { phoneNumber } = checked
+    if (seen.has(phoneNumber)) {
+      return { ...parsed, phoneNumber, status: 'duplicate', issue: 'Same phone as an earlier row' }
+    }
+    seen.add(phoneNumber)
+
+    return { ...parsed, phoneNumber }
+  })
+}
+
+/**
+ * Fields an import would fill in on an existing seller. Like the scraper's
+ * sheet import, only blank fields are touched so dashboard edits are kept.
+ */
+export function importChanges(
+  row: Pick<ImportRow, 'name' | 'city' | 'catalogueUrl' | 'notes' | 'tags'>,
+  existing: Seller
+): Partial<Pick<Seller, 'name' | 'city' | 'catalogueUrl' | 'notes' | 'tags'>> {
+  const changes: Partial<Pick<Seller, 'name' | 'city' | 'catalogueUrl' | 'notes' | 'tags'>> = {}
+  if (!existing.name && row.name) changes.name = row.name
+  if (!existing.city && row.city) changes.city = row.city
+  if (!existing.catalogueUrl && row.catalogueUrl) changes.catalogueUrl = row.catalogueUrl
+  if (!existing.notes && row.notes) changes.notes = row.notes
+  if (existing.tags.length === 0 && row.tags.length > 0) changes.tags = row.tags
+  return changes
+}
+
+// Marks valid rows as new, update or unchanged against the current registry
+export function planImport(rows: ImportRow[], existing: Seller[]): ImportRow[] {
+  const byPhone = new Map(existing.map((seller) => [seller.phoneNumber, seller]))
+
+  return rows.map((row) => {
+    if (row.status === 'invalid' || row.status === 'duplicate' || !row.phoneNumber) return row
+
+    const seller = byPhone.get(row.phoneNumber)
+    if (!seller) return { ...row, status: 'new' }
+
+    const changes = Object.keys(importChanges(row, seller))
+    return changes.length > 0
+      ? { ...row, status: 'update', changes }
+      : { ...row, status: 'unchanged' }
+  })
+}
+
+export function summarizeImport(rows: ImportRow[]): ImportSummary {
+  const summary: ImportSummary = { new: 0, update: 0, unchanged: 0, duplicate: 0, invalid: 0 }
+  for (const row of rows) summary[row.status]++
+  return summary
+}
@@ -0,0 +1,98 @@
+import type { PipelineJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { readOutputOfJob } from './pipeline-jobs'
+
+// "Refresh now" on a seller: a pipeline run over just that seller, followed
+// from the seller's views with its output and the product changes it made
+
+export type ProductChange = {
+  productId: string
+  name: string | null
+  modelName: string | null
+  price: number | null
+  currency: string | null
+  change: 'CREATED' | 'UPDATED' | 'REACTIVATED' | 'DEACTIVATED'
+}
+
+export type RefreshChanges = {
+  created: ProductChange[]
+  updated: ProductChange[]
+  deactivated: ProductChange[]
+}
+
+const CHANGE_TYPES: ProductChange['change'][] = ['CREATED', 'UPDATED', 'REACTIVATED', 'DEACTIVATED']
+
+// Output types worth showing; QR codes and login state are handled on /auth
+const SHOWN_OUTPUT = ['stdout', 'stderr', 'status', 'complete']
+
+/**
+ * Products of `phone` the job's run created, updated or deactivated. Jobs run
+ * one at a time and this one only processed `phone`, so the history recorded
+ * for the seller while it ran is exactly its diff.
+ */
+async function getJobChanges(job: PipelineJob, phone: string): Promise<RefreshChanges> {
+  const history = await prisma.productHistory.findMany({
+    where: {
+      product: { sellerPhone: phone },
+      changeType: { in: CHANGE_TYPES },
+      recordedAt: { gte: job.startedAt!, ...(job.finishedAt ? { lte: job.finishedAt } : {}) },
+    },
+    include: {
+      product: { select: { rawName: true, modelName: true, priceRaw: true, currency: true } },
+    },
+    orderBy: { recordedAt: 'asc' },
+  })
+
+  // The last change of each product wins
+  const latest = new Map<string, ProductChange>()
+  for (const row of history) {
+    latest.set(row.productId, {
+      productId: row.productId,
+      name: row.product.rawName,
+      modelName: row.product.modelName,
+      price: row.product.priceRaw !== null ? Number(row.product.priceRaw) : null,
+      currency: row.product.currency,
+      change: row.changeType as ProductChange['change'],
+    })
+  }
+
+  const changes: RefreshChanges = { created: [], updated: [], deactivated: [] }
+  for (const change of Array.from(latest.values())) {
+    if (change.change === 'CREATED') changes.created.push(change)
+    else if (change.change === 'DEACTIVATED') changes.deactivated.push(change)
+    else changes.updated.push(change)
+  }
+  return changes
+}
+
+/**
+ * Where a refresh of `phone` stands: the job and its run, output after
+ * `afterOutputId`, and the product changes once the job has finished. Null
+ * when the job is not a refresh of `phone`.
+ */
+export async function getSellerRefresh(jobId: number, phone: string, afterOutputId = 0) {
+  const job = await prisma.pipelineJob.findUnique({ where: { id: jobId } })
+  if (!job || job.sellerPhone !== phone) return null
+
+  const [run, output] = await Promise.all([
+    job.runId !== null ? prisma.scraperRun.findUnique({ where: { id: job.runId } }) : null,
+    readOutputOfJob(jobId, afterOutputId),
+  ])
+  const finished = job.status !== 'QUEUED' && job.status !== 'RUNNING'
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    error: job.error,
+    runId: job.runId,
+    runStatus: run?.status ?? null,
+    runError: run?.errorMessage ?? null,
+    output: output
+      .filter((row) => SHOWN_OUTPUT.includes(row.type))
+      .map((row) => ({ id: row.id, type: row.type, data: row.data })),
+    lastOutputId: output.length > 0 ? output[output.length - 1].id : afterOutputId,
+    changes: finished && job.startedAt ? await getJobChanges(job, phone) : null,
+  }
+}
+
+export type SellerRefresh = NonNullable<Awaited<ReturnType<typeof getSellerRefresh>>>
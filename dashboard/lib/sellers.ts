@@ -0,0 +1,130 @@
+// Shared helpers for managing the seller registry
+
+export type SellerInput = {
+  phoneNumber: string
+  name: string | null
+  city: string | null
+  catalogueUrl: string | null
+  notes: string | null
+  tags: string[]
+  enabled: boolean
+  // Manual scrape interval; null leaves it to the adaptive one
+  scrapeIntervalHours: number | null
+}
+
+// Longest manual scrape interval, 90 days
+const MAX_SCRAPE_INTERVAL_HOURS = 24 * 90
+
+// The interval due-only runs use for a seller: the manual one, else the adaptive
+// one the scraper last worked out (null before its first run)
+export function effectiveScrapeInterval(seller: {
+  scrapeIntervalHours: number | null
+  adaptiveIntervalHours: number | null
+}): number | null {
+  return seller.scrapeIntervalHours ?? seller.adaptiveIntervalHours
+}
+
+// When a seller is next due for a scrape, or null when it is due now
+export function nextScrapeDue(seller: {
+  scrapeIntervalHours: number | null
+  adaptiveIntervalHours: number | null
+  lastScannedAt: Date | string | null
+}): Date | null {
+  const hours = effectiveScrapeInterval(seller)
+  if (hours === null || !seller.lastScannedAt) return null
+  const dueAt = new Date(new Date(seller.lastScannedAt).getTime() + hours * 60 * 60 * 1000)
+  return dueAt.getTime() > Date.now() ? dueAt : null
+}
+
+// Keeps digits only, e.g. "+91 99165 15577" -> "919916515577"
+export function normalizePhone(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+// WhatsApp catalogue links look like https://wa.me/c/919916515577
+export function phoneFromCatalogueUrl(url: string): string | null {
+  const match = url.match(/\/c(?:atalog)?\/(\d+)/)
+  return match ? match[1] : null
+}
+
+export function parseTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : []
+  const tags = raw
+    .filter((t): t is string => typeof t === 'string')
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null
+
+/**
+ * Validates a create/update payload. Returns an error message or the
+ * normalized input; `partial` allows omitting the phone number for updates.
+ */
+export function parseSellerInput(
+  body: Record<string, unknown>,
+  partial = false
+): { error: string } | { input: Partial<SellerInput> } {
+  const input: Partial<SellerInput> = {}
+
+  if (body.phoneNumber !== undefined || !partial) {
+    // Fall back to the number embedded in the catalogue link
+    const rawPhone =
+      typeof body.phoneNumber === 'string' && body.phoneNumber.trim()
+        ? body.phoneNumber
+        : typeof body.catalogueUrl === 'string'
+          ? phoneFromCatalogueUrl(body.catalogueUrl) ?? ''
+          : ''
+    const phone = normalizePhone(rawPhone)
+    if (phone.length < 8 || phone.length > 20) {
+      return { error: 'phoneNumber must contain 8-20 digits including the country code' }
+    }
+    input.phoneNumber = phone
+  }
+
+  if (body.name !== undefined) input.name = optionalText(body.name)
+  if (body.city !== undefined) input.city = optionalText(body.city)
+  if (body.notes !== undefined) input.notes = optionalText(body.notes)
+  if (body.tags !== undefined) input.tags = parseTags(body.tags)
+
+  if (body.catalogueUrl !== undefined) {
+    const url = optionalText(body.catalogueUrl)
+    if (url && !/^https?:\/\//i.test(url)) {
+      return { error: 'catalogueUrl must be an http(s) URL' }
+    }
+    input.catalogueUrl = url
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' }
+    }
+    input.enabled = body.enabled
+  }
+
+  if (body.scrapeIntervalHours !== undefined) {
+    const hours = body.scrapeIntervalHours
+    if (hours === null || hours === '') {
+      input.scrapeIntervalHours = null
+    } else if (
+      typeof hours !== 'number' ||
+      !Number.isInteger(hours) ||
+      hours < 1 ||
+      hours > MAX_SCRAPE_INTERVAL_HOURS
+    ) {
+      return {
+        error: `scrapeIntervalHours must be a whole number of hours between 1 and ${MAX_SCRAPE_INTERVAL_HOURS}`,
+      }
+    } else {
+      input.scrapeIntervalHours = hours
+    }
+  }
+
+  return { input }
+}
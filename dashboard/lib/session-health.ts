@@ -0,0 +1,98 @@
+import { prisma } from './prisma'
+
+// WhatsApp sessions the scraper logs in with (whatsapp_sessions) and their health
+
+// Session names double as directory names in the scraper (gpt/src/session/registry.ts)
+export const SESSION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,99}$/
+
+export type SessionHealthStatus = 'healthy' | 'warning' | 'down' | 'unknown' | 'disabled'
+
+export type SessionHealth = {
+  name: string
+  enabled: boolean
+  state: string
+  stateDetail: string | null
+  status: SessionHealthStatus
+  issues: string[]
+  lastCheckedAt: Date | null
+  lastLoginAt: Date | null
+  linkedAt: Date | null
+  tokenAgeDays: number | null
+  failureCount: number
+  consecutiveFailures: number
+  lastFailureAt: Date | null
+  lastFailureReason: string | null
+  lastRunId: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// A session nobody has used for this long may have been unlinked unnoticed
+const STALE_CHECK_DAYS = 2
+// WhatsApp unlinks devices whose phone has been offline for about 14 days
+const TOKEN_WARN_DAYS = Number(process.env.SESSION_TOKEN_WARN_DAYS || 14)
+
+type SessionRow = Omit<SessionHealth, 'status' | 'issues' | 'tokenAgeDays'>
+
+export function assessSession(row: SessionRow, now = new Date()): SessionHealth {
+  const issues: string[] = []
+  let status: SessionHealthStatus = 'healthy'
+
+  const tokenAgeDays = row.linkedAt
+    ? Math.floor((now.getTime() - row.linkedAt.getTime()) / DAY_MS)
+    : null
+
+  if (!row.enabled) {
+    return { ...row, status: 'disabled', issues: [], tokenAgeDays }
+  }
+
+  if (row.state === 'LOGGED_OUT' || row.state === 'DISCONNECTED') {
+    status = 'down'
+    issues.push(row.lastFailureReason || `Session is ${row.state.toLowerCase().replace('_', ' ')}`)
+  } else if (row.state === 'WAITING_FOR_SCAN') {
+    status = 'warning'
+    issues.push('Waiting for the QR code to be scanned')
+  } else if (row.state !== 'CONNECTED') {
+    status = 'unknown'
+  }
+
+  if (status === 'healthy') {
+    if (row.consecutiveFailures > 0) {
+      status = 'warning'
+      issues.push(`${row.consecutiveFailures} failure(s) since the last login`)
+    }
+    if (!row.lastCheckedAt || now.getTime() - row.lastCheckedAt.getTime() > STALE_CHECK_DAYS * DAY_MS) {
+      status = 'warning'
+      issues.push(`Not checked in the last ${STALE_CHECK_DAYS} days`)
+    }
+    if (tokenAgeDays !== null && tokenAgeDays >= TOKEN_WARN_DAYS) {
+      status = 'warning'
+      issues.push(`Linked ${tokenAgeDays} days ago; keep the phone online to avoid being unlinked`)
+    }
+  }
+
+  return { ...row, status, issues, tokenAgeDays }
+}
+
+export async function getSessionHealth(): Promise<SessionHealth[]> {
+  const rows = await prisma.whatsappSession.findMany({ orderBy: { createdAt: 'asc' } })
+  const now = new Date()
+  return rows.map((row) =>
+    assessSession(
+      {
+        name: row.name,
+        enabled: row.enabled,
+        state: row.state,
+        stateDetail: row.stateDetail,
+        lastCheckedAt: row.lastCheckedAt,
+        lastLoginAt: row.lastLoginAt,
+        linkedAt: row.linkedAt,
+        failureCount: row.failureCount,
+        consecutiveFailures: row.consecutiveFailures,
+        lastFailureAt: row.lastFailureAt,
+        lastFailureReason: row.lastFailureReason,
+        lastRunId: row.lastRunId,
+      },
+      now
+    )
+  )
+}
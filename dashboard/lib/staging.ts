@@ -0,0 +1,46 @@
+import { prisma } from './prisma'
+
+// Data the pipeline steps of a run hand to each other (staged_sellers,
+// staged_products); written by the gpt scripts, see gpt/src/pipeline/staging.ts
+
+// Latest run with staged sellers, the default source of a partial run
+export async function latestStagedRunId(): Promise<number | null> {
+  const latest = await prisma.stagedSeller.findFirst({
+    orderBy: { runId: 'desc' },
+    select: { runId: true },
+  })
+  return latest?.runId ?? null
+}
+
+/**
+ * Copies what `sourceRunId` staged into `runId`, as the input of a run that
+ * starts at `fromStep`. Re-enriching starts over from the raw products;
+ * re-processing keeps their enrichment (or enrichment failure). Every seller is processed again.
+ */
+export async function copyStaging(
+  sourceRunId: number,
+  runId: number,
+  fromStep: 'enrich' | 'process'
+): Promise<{ sellers: number; products: number }> {
+  const keepEnrichment = fromStep === 'process'
+
+  const [sellers, products] = await prisma.$transaction([
+    prisma.$executeRaw`
+      INSERT INTO staged_sellers (run_id, seller_phone, outcome, result)
+      SELECT ${runId}, seller_phone, outcome, result
+      FROM staged_sellers
+      WHERE run_id = ${sourceRunId}
+    `,
+    prisma.$executeRaw`
+      INSERT INTO staged_products (run_id, product_id, seller_phone, raw, enrichment, enriched_at, enrichment_error)
+      SELECT ${runId}, product_id, seller_phone, raw,
+        CASE WHEN ${keepEnrichment}::boolean THEN enrichment END,
+        CASE WHEN ${keepEnrichment}::boolean THEN enriched_at END,
+        CASE WHEN ${keepEnrichment}::boolean THEN enrichment_error END
+      FROM staged_products
+      WHERE run_id = ${sourceRunId}
+    `,
+  ])
+
+  return { sellers, products }
+}
@@ -1,7 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import { config as loadEnv } from 'dotenv'
 import { resolve } from 'path'
-import { readFileSync } from 'fs'
 
 // Load environment variables
 loadEnv({ path: resolve(process.cwd(), '.env.local') })
@@ -14,10 +13,32 @@ interface EnrichedProduct {
   modelName: string | null
 }
 
+// Usage: npx ts-node scripts/delete-non-iphones.ts [runId], defaulting to the latest enriched run
 async function main() {
-  // Read the enriched products file
-  const enrichedPath = resolve(__dirname, '../../gpt/products.enriched.json')
-  const enrichedData: EnrichedProduct[] = JSON.parse(readFileSync(enrichedPath, 'utf-8'))
+  // Read the enriched products staged by the run
+  const runArg = process.argv[2]
+  const runId = runArg
+    ? Number(runArg)
+    : (
+        await prisma.stagedProduct.findFirst({
+          where: { enrichedAt: { not: null } },
+          orderBy: { runId: 'desc' },
+          select: { runId: true },
+        })
+      )?.runId
+  if (!runId) {
+    throw new Error('No enriched run found')
+  }
+
+  const staged = await prisma.stagedProduct.findMany({
+    where: { runId, enrichedAt: { not: null } },
+    select: { productId: true, enrichment: true },
+  })
+  const enrichedData: EnrichedProduct[] = staged.map((row) => ({
+    id: row.productId,
+    modelName: (row.enrichment as { modelName?: string | null } | null)?.modelName ?? null,
+  }))
+  console.log(`Loaded ${enrichedData.length} enriched products from run #${runId}`)
 
   // Get IDs of products to DELETE (EXCLUDE or null modelName)
   const idsToDelete = enrichedData
@@ -0,0 +1,193 @@
+import os from 'os'
+import * as cron from 'node-cron'
+import type { PipelineJob, PipelineSchedule } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+import {
+  JobLive,
+  ScraperOutput,
+  claimNextJob,
+  enqueueSteps,
+  finishJob,
+  pruneJobOutput,
+  recordJobHeartbeat,
+  recoverStaleJobs,
+} from '../lib/pipeline-jobs'
+import { getEnabledSchedules, isValidTimezone } from '../lib/scheduler'
+import type { PipelineStepName } from '../lib/pipeline-events'
+import { scraperService } from '../lib/scraper-service'
+
+// Pipeline worker: runs the jobs the dashboard queues (pipeline_jobs) one at a
+// time, across however many workers there are, and queues the scheduled runs.
+// Build with `npm run build:worker`, start with `npm run worker` (pm2: wp-worker).
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`
+// How often an idle worker checks the queue and the schedule
+const POLL_MS = Number(process.env.WORKER_POLL_MS || 5000)
+// How often a running job's output, progress and heartbeat are saved
+const FLUSH_MS = 1000
+
+let stopping = false
+// Cron tasks of the enabled schedules, by schedule id, with the version of the schedule they run
+// (null for schedules that cannot run)
+const scheduledTasks = new Map<number, { task: cron.ScheduledTask | null; version: number }>()
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Queues the run a schedule fired for
+async function enqueueScheduled(schedule: PipelineSchedule) {
+  // Every worker fires; the key (schedule and the minute it fired for) lets only one of them queue the run
+  const slot = new Date()
+  slot.setSeconds(0, 0)
+  try {
+    const result = await enqueueSteps(
+      'SCHEDULED',
+      schedule.firstStep as PipelineStepName,
+      schedule.lastStep as PipelineStepName,
+      {
+        dedupeKey: `schedule:${schedule.id}:${slot.toISOString()}`,
+        scheduleId: schedule.id,
+        sellerTag: schedule.sellerTag,
+        dueOnly: schedule.dueOnly,
+      }
+    )
+    if (result.error) {
+      console.log(`Schedule "${schedule.name}" did not queue a run: ${result.error}`)
+    } else {
+      console.log(`Schedule "${schedule.name}" queued job #${result.jobId}`)
+    }
+  } catch (error) {
+    console.error(`Could not queue the run of schedule "${schedule.name}":`, error)
+  }
+}
+
+// Keeps one cron task per enabled schedule in line with pipeline_schedules, which the dashboard edits
+async function syncSchedules() {
+  const schedules = await getEnabledSchedules()
+  const enabledIds = new Set(schedules.map((schedule) => schedule.id))
+
+  scheduledTasks.forEach(({ task }, id) => {
+    if (enabledIds.has(id)) return
+    task?.destroy()
+    scheduledTasks.delete(id)
+    console.log(`Schedule #${id} removed or disabled`)
+  })
+
+  for (const schedule of schedules) {
+    const version = schedule.updatedAt.getTime()
+    const current = scheduledTasks.get(schedule.id)
+    if (current?.version === version) continue
+
+    current?.task?.destroy()
+    scheduledTasks.delete(schedule.id)
+
+    // The dashboard validates schedules; these only get past it when edited in the database
+    if (!cron.validate(schedule.cronExpr) || !isValidTimezone(schedule.timezone)) {
+      scheduledTasks.set(schedule.id, { task: null, version })
+      console.error(`Schedule "${schedule.name}" has an invalid cron expression or time zone; skipped`)
+      continue
+    }
+
+    const task = cron.schedule(schedule.cronExpr, () => enqueueScheduled(schedule), {
+      name: schedule.name,
+      timezone: schedule.timezone,
+    })
+    scheduledTasks.set(schedule.id, { task, version })
+    console.log(`Schedule "${schedule.name}" set to ${schedule.cronExpr} (${schedule.timezone})`)
+  }
+}
+
+async function runJob(job: PipelineJob) {
+  console.log(`Running job #${job.id}: ${job.kind} ${job.firstStep} → ${job.lastStep}`)
+
+  let pending: ScraperOutput[] = []
+  const unsubscribe = scraperService.subscribe((output) => {
+    // Progress is published with the job's live state instead
+    if (output.type !== 'progress') pending.push(output)
+  })
+
+  const flush = async () => {
+    const output = pending
+    pending = []
+    const live: JobLive = {
+      step: scraperService.getCurrentStep(),
+      progress: scraperService.getProgress(),
+      sessions: scraperService.getSessionAuth(),
+      pendingQrs: scraperService.getPendingQrs(),
+    }
+    const { cancelRequested } = await recordJobHeartbeat(job.id, live, output)
+    if (cancelRequested || stopping) {
+      scraperService.stopScraper()
+    }
+  }
+
+  // Flushes run one after another, never overlapping
+  let flushing: Promise<void> = Promise.resolve()
+  const scheduleFlush = () => {
+    flushing = flushing
+      .then(flush)
+      .catch((error) => console.error(`Could not save the state of job #${job.id}:`, error))
+    return flushing
+  }
+  const timer = setInterval(scheduleFlush, FLUSH_MS)
+
+  try {
+    const status = await scraperService.runJob(job)
+    clearInterval(timer)
+    await scheduleFlush()
+    await finishJob(job.id, status === 'CANCELLED' ? 'CANCELLED' : 'FINISHED')
+    console.log(`Job #${job.id} finished with run status ${status}`)
+  } catch (error) {
+    clearInterval(timer)
+    await scheduleFlush()
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await finishJob(job.id, 'FAILED', message)
+    console.error(`Job #${job.id} failed:`, message)
+  } finally {
+    unsubscribe()
+  }
+}
+
+function shutdown(signal: string) {
+  if (stopping) return
+  stopping = true
+  console.log(`Received ${signal}. Cancelling the running job, if any, and stopping...`)
+  scraperService.stopScraper()
+}
+
+async function main() {
+  process.on('SIGINT', () => shutdown('SIGINT'))
+  process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+  console.log(`Pipeline worker ${WORKER_ID} started`)
+
+  const recovered = await recoverStaleJobs(true)
+  if (recovered > 0) {
+    console.log(`Marked ${recovered} orphaned job(s) and run(s) as INTERRUPTED`)
+  }
+
+  while (!stopping) {
+    try {
+      await syncSchedules()
+      await recoverStaleJobs()
+
+      const job = await claimNextJob(WORKER_ID)
+      if (job) {
+        await runJob(job)
+        await pruneJobOutput()
+        continue
+      }
+    } catch (error) {
+      console.error('Worker error:', error)
+    }
+    await sleep(POLL_MS)
+  }
+
+  scheduledTasks.forEach(({ task }) => task?.destroy())
+  await prisma.$disconnect()
+  console.log('Pipeline worker stopped')
+}
+
+main().catch((error) => {
+  console.error('Pipeline worker failed:', error)
+  process.exit(1)
+})
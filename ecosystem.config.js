@@ -21,5 +21,26 @@ module.exports = {
       // Watch for changes (disable in production)
       watch: false,
     },
+    {
+      name: 'wp-worker',
+      cwd: './dashboard',
+      script: 'npm',
+      args: 'run worker',
+      env: {
+        NODE_ENV: 'production',
+      },
+      // Lets a cancelled pipeline step stop before pm2 kills the worker
+      kill_timeout: 60000,
+      // Restart settings
+      restart_delay: 3000,
+      max_restarts: 10,
+      exp_backoff_restart_delay: 100,
+      // Logging
+      log_date_format: 'YYYY-MM-DD HH:mm:ss',
+      error_file: './logs/worker-error.log',
+      out_file: './logs/worker-out.log',
+      merge_logs: true,
+      watch: false,
+    },
   ],
 }
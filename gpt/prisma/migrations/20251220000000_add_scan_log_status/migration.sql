@@ -0,0 +1,5 @@
+-- Record the scrape outcome per seller scan so a failed scrape can be told
+-- apart from a seller with an empty catalog
+
+ALTER TABLE "scan_logs" ADD COLUMN IF NOT EXISTS "status" VARCHAR(20) NOT NULL DEFAULT 'OK';
+ALTER TABLE "scan_logs" ADD COLUMN IF NOT EXISTS "error_message" TEXT;
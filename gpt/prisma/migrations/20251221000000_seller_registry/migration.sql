@@ -0,0 +1,5 @@
+-- Seller registry: the sellers table decides which catalogs are scraped
+
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "enabled" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "notes" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
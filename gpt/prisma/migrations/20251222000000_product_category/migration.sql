@@ -0,0 +1,8 @@
+-- Product category: id of the matched entry in config/categories.json
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "category" VARCHAR(50);
+
+-- Everything scraped so far came from the hard-coded iPhone filter
+UPDATE "products" SET "category" = 'iphone' WHERE "category" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "products_category_idx" ON "products"("category");
@@ -0,0 +1,31 @@
+-- WhatsApp Business profile captured by the scraper, with change history
+
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_name" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_description" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_address" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_email" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_websites" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_category" TEXT;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "business_hours" JSONB;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "profile_updated_at" TIMESTAMP(3);
+
+CREATE TABLE IF NOT EXISTS "seller_profile_history" (
+    "history_id" SERIAL NOT NULL,
+    "seller_phone" VARCHAR(20) NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changed_fields" TEXT[],
+    "snapshot" JSONB NOT NULL,
+
+    CONSTRAINT "seller_profile_history_pkey" PRIMARY KEY ("history_id")
+);
+
+CREATE INDEX IF NOT EXISTS "seller_profile_history_seller_phone_recorded_at_idx"
+    ON "seller_profile_history"("seller_phone", "recorded_at");
+
+DO $$ BEGIN
+    ALTER TABLE "seller_profile_history"
+        ADD CONSTRAINT "seller_profile_history_seller_phone_fkey"
+        FOREIGN KEY ("seller_phone") REFERENCES "sellers"("phone_number")
+        ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
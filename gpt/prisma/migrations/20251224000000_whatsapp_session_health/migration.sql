@@ -0,0 +1,18 @@
+-- Health of the WhatsApp sessions used by the scraper
+
+CREATE TABLE IF NOT EXISTS "whatsapp_sessions" (
+    "name" VARCHAR(100) NOT NULL,
+    "state" VARCHAR(20) NOT NULL DEFAULT 'UNKNOWN',
+    "state_detail" TEXT,
+    "last_checked_at" TIMESTAMP(3),
+    "last_login_at" TIMESTAMP(3),
+    "linked_at" TIMESTAMP(3),
+    "failure_count" INTEGER NOT NULL DEFAULT 0,
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+    "last_failure_at" TIMESTAMP(3),
+    "last_failure_reason" TEXT,
+    "last_run_id" INTEGER,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_sessions_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,9 @@
+-- Pool of WhatsApp sessions, and which run/session produced each scan
+
+ALTER TABLE "whatsapp_sessions" ADD COLUMN IF NOT EXISTS "enabled" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "whatsapp_sessions" ADD COLUMN IF NOT EXISTS "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "scan_logs" ADD COLUMN IF NOT EXISTS "scraper_run_id" INTEGER;
+ALTER TABLE "scan_logs" ADD COLUMN IF NOT EXISTS "session_name" VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS "scan_logs_scraper_run_id_idx" ON "scan_logs"("scraper_run_id");
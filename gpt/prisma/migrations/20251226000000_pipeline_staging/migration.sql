@@ -0,0 +1,43 @@
+-- Staging tables the pipeline steps of a run hand data through
+
+CREATE TABLE IF NOT EXISTS "staged_sellers" (
+    "run_id" INTEGER NOT NULL,
+    "seller_phone" VARCHAR(20) NOT NULL,
+    "outcome" VARCHAR(20) NOT NULL,
+    "result" JSONB NOT NULL,
+    "staged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "staged_sellers_pkey" PRIMARY KEY ("run_id", "seller_phone")
+);
+
+DO $$ BEGIN
+    ALTER TABLE "staged_sellers"
+        ADD CONSTRAINT "staged_sellers_run_id_fkey"
+        FOREIGN KEY ("run_id") REFERENCES "scraper_runs"("id")
+        ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "staged_products" (
+    "run_id" INTEGER NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "seller_phone" VARCHAR(20) NOT NULL,
+    "raw" JSONB NOT NULL,
+    "enrichment" JSONB,
+    "staged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enriched_at" TIMESTAMP(3),
+
+    CONSTRAINT "staged_products_pkey" PRIMARY KEY ("run_id", "product_id")
+);
+
+CREATE INDEX IF NOT EXISTS "staged_products_run_id_seller_phone_idx"
+    ON "staged_products"("run_id", "seller_phone");
+
+DO $$ BEGIN
+    ALTER TABLE "staged_products"
+        ADD CONSTRAINT "staged_products_run_id_fkey"
+        FOREIGN KEY ("run_id") REFERENCES "scraper_runs"("id")
+        ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,7 @@
+-- Run statistics filled in from the pipeline's progress events
+
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "products_enriched" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "products_created" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "products_updated" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "products_deactivated" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "error_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Last pipeline step a run completed, so interrupted runs can be resumed
+
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "last_completed_step" VARCHAR(20);
@@ -0,0 +1,5 @@
+-- Step range of a run, for runs that re-run part of the pipeline on an earlier run's staged data
+
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "first_step" VARCHAR(20) NOT NULL DEFAULT 'scrape';
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "last_step" VARCHAR(20) NOT NULL DEFAULT 'process';
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "source_run_id" INTEGER;
@@ -0,0 +1,51 @@
+-- Queue of pipeline jobs the dashboard's worker process runs one at a time, with their live output
+
+CREATE TABLE IF NOT EXISTS "pipeline_jobs" (
+    "id" SERIAL NOT NULL,
+    "kind" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'QUEUED',
+    "trigger_type" VARCHAR(20) NOT NULL,
+    "first_step" VARCHAR(20) NOT NULL,
+    "last_step" VARCHAR(20) NOT NULL,
+    "source_run_id" INTEGER,
+    "run_id" INTEGER,
+    "dedupe_key" VARCHAR(100),
+    "cancel_requested" BOOLEAN NOT NULL DEFAULT false,
+    "worker_id" VARCHAR(100),
+    "heartbeat_at" TIMESTAMP(3),
+    "live" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "pipeline_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_jobs_dedupe_key_key" ON "pipeline_jobs"("dedupe_key");
+CREATE INDEX IF NOT EXISTS "pipeline_jobs_status_created_at_idx" ON "pipeline_jobs"("status", "created_at");
+
+-- The lock that keeps a second job from starting while one runs, whichever worker claims it
+CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_jobs_one_running_idx"
+    ON "pipeline_jobs"((true)) WHERE "status" = 'RUNNING';
+
+CREATE TABLE IF NOT EXISTS "pipeline_job_output" (
+    "id" SERIAL NOT NULL,
+    "job_id" INTEGER NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "data" TEXT NOT NULL,
+    "session" VARCHAR(100),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pipeline_job_output_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "pipeline_job_output_job_id_idx" ON "pipeline_job_output"("job_id");
+
+DO $$ BEGIN
+    ALTER TABLE "pipeline_job_output"
+        ADD CONSTRAINT "pipeline_job_output_job_id_fkey"
+        FOREIGN KEY ("job_id") REFERENCES "pipeline_jobs"("id")
+        ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
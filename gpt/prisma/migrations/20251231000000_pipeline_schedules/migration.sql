@@ -0,0 +1,40 @@
+-- Named pipeline schedules, each with its own cron expression, timezone and target,
+-- replacing the single scheduler_config row
+
+CREATE TABLE IF NOT EXISTS "pipeline_schedules" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "cron_expr" VARCHAR(100) NOT NULL,
+    "timezone" VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "target" VARCHAR(20) NOT NULL DEFAULT 'ALL',
+    "seller_tag" VARCHAR(100),
+    "first_step" VARCHAR(20) NOT NULL DEFAULT 'scrape',
+    "last_step" VARCHAR(20) NOT NULL DEFAULT 'process',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pipeline_schedules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_schedules_name_key" ON "pipeline_schedules"("name");
+
+-- The old schedule fired in the server's local time, the closest match being the database's timezone
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'scheduler_config') THEN
+        INSERT INTO "pipeline_schedules" ("name", "cron_expr", "timezone", "enabled")
+        SELECT 'Default', "cron_expr", current_setting('TIMEZONE'), "enabled"
+        FROM "scheduler_config"
+        WHERE "id" = 1
+        ON CONFLICT ("name") DO NOTHING;
+    END IF;
+END $$;
+
+DROP TABLE IF EXISTS "scheduler_config";
+
+-- Schedule behind a scheduled job or run, and the seller tag it scrapes
+ALTER TABLE "pipeline_jobs" ADD COLUMN IF NOT EXISTS "schedule_id" INTEGER;
+ALTER TABLE "pipeline_jobs" ADD COLUMN IF NOT EXISTS "seller_tag" VARCHAR(100);
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "schedule_id" INTEGER;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "seller_tag" VARCHAR(100);
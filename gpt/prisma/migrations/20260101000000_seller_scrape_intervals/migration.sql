@@ -0,0 +1,9 @@
+-- Per-seller scrape intervals: adaptive ones set from each seller's change rate
+-- in scan_logs, with manual overrides, and runs that only scrape the sellers due
+
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "scrape_interval_hours" INTEGER;
+ALTER TABLE "sellers" ADD COLUMN IF NOT EXISTS "adaptive_interval_hours" INTEGER;
+
+ALTER TABLE "pipeline_schedules" ADD COLUMN IF NOT EXISTS "due_only" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "pipeline_jobs" ADD COLUMN IF NOT EXISTS "due_only" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "due_only" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- Runs over a single seller, queued by the dashboard's "Refresh now"
+
+ALTER TABLE "pipeline_jobs" ADD COLUMN IF NOT EXISTS "seller_phone" VARCHAR(20);
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "seller_phone" VARCHAR(20);
@@ -0,0 +1,19 @@
+-- Enrichment results cached by a hash of the product's category, name and
+-- description plus the prompt version, with per-run hit/miss counts
+
+CREATE TABLE IF NOT EXISTS "enrichment_cache" (
+    "content_hash" VARCHAR(64) NOT NULL,
+    "prompt_version" VARCHAR(40) NOT NULL,
+    "model" VARCHAR(100),
+    "enrichment" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "enrichment_cache_pkey" PRIMARY KEY ("content_hash")
+);
+
+CREATE INDEX IF NOT EXISTS "enrichment_cache_last_used_at_idx" ON "enrichment_cache"("last_used_at");
+
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "enrich_cache_hits" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "enrich_cache_misses" INTEGER NOT NULL DEFAULT 0;
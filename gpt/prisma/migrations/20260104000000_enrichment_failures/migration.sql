@@ -0,0 +1,6 @@
+-- Products the enrich step could get no valid result for, with the reason,
+-- and a per-run count of them
+
+ALTER TABLE "staged_products" ADD COLUMN IF NOT EXISTS "enrichment_error" TEXT;
+
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "enrich_failures" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,108 @@
+-- Canonical device models: the names enrichment output is snapped to, with
+-- the aliases sellers and the LLM use for them, release year, storage options
+-- and official colors. Empty storage or color lists are not checked.
+
+CREATE TABLE IF NOT EXISTS "device_models" (
+    "id" SERIAL NOT NULL,
+    "category" VARCHAR(50) NOT NULL,
+    "canonical_name" VARCHAR(100) NOT NULL,
+    "aliases" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "release_year" INTEGER,
+    "storage_options" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "colors" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_models_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "device_models_canonical_name_key" ON "device_models"("canonical_name");
+CREATE INDEX IF NOT EXISTS "device_models_category_idx" ON "device_models"("category");
+
+-- Seeded with the models config/categories.json listed
+INSERT INTO "device_models" ("category", "canonical_name", "aliases", "release_year", "storage_options", "colors") VALUES
+    ('iphone', 'iPhone 13', ARRAY[]::TEXT[], 2021, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Midnight', 'Starlight', 'Blue', 'Pink', 'Green', '(PRODUCT)RED']),
+    ('iphone', 'iPhone 13 mini', ARRAY['iPhone 13 Mini'], 2021, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Midnight', 'Starlight', 'Blue', 'Pink', 'Green', '(PRODUCT)RED']),
+    ('iphone', 'iPhone 13 Pro', ARRAY[]::TEXT[], 2021, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Graphite', 'Gold', 'Silver', 'Sierra Blue', 'Alpine Green']),
+    ('iphone', 'iPhone 13 Pro Max', ARRAY[]::TEXT[], 2021, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Graphite', 'Gold', 'Silver', 'Sierra Blue', 'Alpine Green']),
+    ('iphone', 'iPhone 14', ARRAY[]::TEXT[], 2022, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Midnight', 'Starlight', 'Blue', 'Purple', 'Yellow', '(PRODUCT)RED']),
+    ('iphone', 'iPhone 14 Plus', ARRAY['iPhone 14 Pkus'], 2022, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Midnight', 'Starlight', 'Blue', 'Purple', 'Yellow', '(PRODUCT)RED']),
+    ('iphone', 'iPhone 14 Pro', ARRAY[]::TEXT[], 2022, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Space Black', 'Silver', 'Gold', 'Deep Purple']),
+    ('iphone', 'iPhone 14 Pro Max', ARRAY[]::TEXT[], 2022, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Space Black', 'Silver', 'Gold', 'Deep Purple']),
+    ('iphone', 'iPhone 15', ARRAY[]::TEXT[], 2023, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Black', 'Blue', 'Green', 'Yellow', 'Pink']),
+    ('iphone', 'iPhone 15 Plus', ARRAY[]::TEXT[], 2023, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Black', 'Blue', 'Green', 'Yellow', 'Pink']),
+    ('iphone', 'iPhone 15 Pro', ARRAY['iPhone 15 pro'], 2023, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Black Titanium', 'White Titanium', 'Blue Titanium', 'Natural Titanium']),
+    ('iphone', 'iPhone 15 Pro Max', ARRAY[]::TEXT[], 2023, ARRAY['256 GB', '512 GB', '1 TB'], ARRAY['Black Titanium', 'White Titanium', 'Blue Titanium', 'Natural Titanium']),
+    ('iphone', 'iPhone 16', ARRAY[]::TEXT[], 2024, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Black', 'White', 'Pink', 'Teal', 'Ultramarine']),
+    ('iphone', 'iPhone 16 Plus', ARRAY[]::TEXT[], 2024, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Black', 'White', 'Pink', 'Teal', 'Ultramarine']),
+    ('iphone', 'iPhone 16 Pro', ARRAY[]::TEXT[], 2024, ARRAY['128 GB', '256 GB', '512 GB', '1 TB'], ARRAY['Black Titanium', 'White Titanium', 'Natural Titanium', 'Desert Titanium']),
+    ('iphone', 'iPhone 16 Pro Max', ARRAY[]::TEXT[], 2024, ARRAY['256 GB', '512 GB', '1 TB'], ARRAY['Black Titanium', 'White Titanium', 'Natural Titanium', 'Desert Titanium']),
+    ('iphone', 'iPhone 16e', ARRAY[]::TEXT[], 2025, ARRAY['128 GB', '256 GB', '512 GB'], ARRAY['Black', 'White']),
+    ('iphone', 'iPhone 17', ARRAY[]::TEXT[], 2025, ARRAY['256 GB', '512 GB'], ARRAY['Black', 'White', 'Mist Blue', 'Sage', 'Lavender']),
+    ('iphone', 'iPhone 17 Pro', ARRAY[]::TEXT[], 2025, ARRAY['256 GB', '512 GB', '1 TB'], ARRAY['Silver', 'Cosmic Orange', 'Deep Blue']),
+    ('iphone', 'iPhone 17 Pro Max', ARRAY[]::TEXT[], 2025, ARRAY['256 GB', '512 GB', '1 TB', '2 TB'], ARRAY['Silver', 'Cosmic Orange', 'Deep Blue']),
+    ('iphone', 'iPhone Air', ARRAY[]::TEXT[], 2025, ARRAY['256 GB', '512 GB', '1 TB'], ARRAY['Space Black', 'Cloud White', 'Light Gold', 'Sky Blue']),
+    ('samsung-galaxy', 'Galaxy S23', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S23+', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S23 Ultra', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S23 FE', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S24', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S24+', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S24 Ultra', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S24 FE', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S25', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S25+', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy S25 Ultra', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy Z Fold5', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy Z Fold6', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy Z Flip5', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('samsung-galaxy', 'Galaxy Z Flip6', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 7', ARRAY[]::TEXT[], 2022, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 7a', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 7 Pro', ARRAY[]::TEXT[], 2022, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 8', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 8a', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 8 Pro', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 9', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 9a', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 9 Pro', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 9 Pro XL', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('google-pixel', 'Pixel 9 Pro Fold', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad (9th generation)', ARRAY[]::TEXT[], 2021, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad (10th generation)', ARRAY[]::TEXT[], 2022, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad (A16)', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad mini (6th generation)', ARRAY[]::TEXT[], 2021, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad mini (A17 Pro)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Air 11-inch (M2)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Air 13-inch (M2)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Air 11-inch (M3)', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Air 13-inch (M3)', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Pro 11-inch (M4)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('ipad', 'iPad Pro 13-inch (M4)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 13-inch (M1)', ARRAY[]::TEXT[], 2020, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 13-inch (M2)', ARRAY[]::TEXT[], 2022, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 15-inch (M2)', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 13-inch (M3)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 15-inch (M3)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 13-inch (M4)', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Air 15-inch (M4)', ARRAY[]::TEXT[], 2025, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Pro 14-inch (M3)', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Pro 16-inch (M3)', ARRAY[]::TEXT[], 2023, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Pro 14-inch (M4)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[]),
+    ('macbook', 'MacBook Pro 16-inch (M4)', ARRAY[]::TEXT[], 2024, ARRAY[]::TEXT[], ARRAY[]::TEXT[])
+ON CONFLICT ("canonical_name") DO NOTHING;
+
+-- Products enriched before the catalog get their aliased model names and
+-- differently cased official colors snapped too
+UPDATE "products" p
+SET "model_name" = d."canonical_name"
+FROM "device_models" d
+WHERE p."model_name" = ANY(d."aliases");
+
+UPDATE "products" p
+SET "color" = c."color"
+FROM (SELECT "canonical_name", unnest("colors") AS "color" FROM "device_models") c
+WHERE p."model_name" = c."canonical_name" AND lower(p."color") = lower(c."color") AND p."color" <> c."color";
+
+-- Runs count the products whose enrichment did not match the catalog
+ALTER TABLE "scraper_runs" ADD COLUMN IF NOT EXISTS "catalog_mismatches" INTEGER NOT NULL DEFAULT 0;
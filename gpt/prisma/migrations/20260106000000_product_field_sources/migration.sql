@@ -0,0 +1,4 @@
+-- Where each enriched field of a product came from ("rules" or "llm"), kept
+-- on the product so it outlives the staged rows
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "field_sources" JSONB;
@@ -1,6 +1,11 @@
 import * as fs from 'fs'
 import * as path from 'path'
 
+import { getActiveCategories, matchCategory } from '../src/categories'
+import prisma from '../src/db/client'
+import { resolveStagedRun } from '../src/pipeline/run'
+import { loadStagedProducts } from '../src/pipeline/staging'
+
 interface Product {
   id: string
   name: string
@@ -16,64 +21,9 @@ interface Product {
   sellerCatalogueUrl?: string
 }
 
-// Strict iPhone detection
-function isIPhone(product: Product): boolean {
-  const name = product.name.toLowerCase()
-  const desc = (product.description || '').toLowerCase()
-
-  // Check if name contains iPhone variants
-  const iphoneInName =
-    /iphone|i\s*phone|i-phone/.test(name) ||
-    /^iph\s*\d/.test(name) || // "Iph 11", "Iph 13"
-    /^\d+\s*(pro|plus|max)?\s*\d*\s*gb/i.test(name) // "14 Pro 256gb" style
-
-  // Also check description for iPhone mentions (seller sometimes puts model in desc)
-  const iphoneInDesc = /iphone|i\s*phone/.test(desc)
-
-  // Must have iPhone keyword somewhere
-  if (!iphoneInName && !iphoneInDesc) return false
-
-  // If name has iPhone, it's likely a phone (not accessory)
-  if (iphoneInName) {
-    // Exclude if name is PRIMARILY an accessory (name starts with accessory word)
-    const accessoryStartPatterns = [
-      /^case\b/,
-      /^cover\b/,
-      /^strap\b/,
-      /^charger\b/,
-      /^cable\b/,
-      /^adapter\b/,
-      /^screen\s*guard/,
-      /^tempered/,
-      /^protector/,
-      /^airpod/,
-      /^earbud/,
-      /^tws\b/,
-      /^speaker/,
-      /^powerbank/,
-      /^power\s*bank/,
-    ]
-
-    for (const pattern of accessoryStartPatterns) {
-      if (pattern.test(name)) return false
-    }
-
-    return true
-  }
-
-  // If iPhone only in description, be more careful
-  // This catches cases where name is just "14 Pro 256gb"
-  if (iphoneInDesc) {
-    // Name should look like a phone model
-    const looksLikeModel =
-      /^\d+\s*(pro|plus|max|mini)?/i.test(name) ||
-      /^(xs|xr|se|x)\b/i.test(name) ||
-      /pro\s*max/i.test(name)
-
-    if (looksLikeModel) return true
-  }
-
-  return false
+// Same matching as the scraper, driven by config/categories.json
+function productCategory(product: Product): string | null {
+  return matchCategory(product.name, product.description || '')
 }
 
 // Categorize why products were excluded
@@ -109,22 +59,32 @@ function categorizeExcluded(product: Product): string {
   return 'Other'
 }
 
+// Usage: ts-node scripts/filter-products.ts [runId], defaulting to the latest staged run
 async function main() {
-  const inputPath = path.resolve(__dirname, '../products.json')
   const outputPath = path.resolve(__dirname, '../products-filtered.json')
 
-  if (!fs.existsSync(inputPath)) {
-    console.error('products.json not found')
-    process.exit(1)
+  const run = await resolveStagedRun()
+  const products = (await loadStagedProducts(run.id)) as unknown as Product[]
+  await prisma.$disconnect()
+  console.log(`Loaded ${products.length} products from run #${run.id}`)
+
+  const activeIds = getActiveCategories().map((c) => c.definition.id)
+  console.log(`Active categories: ${activeIds.join(', ')}`)
+
+  // Keep products that match an active category
+  const keptCounts: Record<string, number> = {}
+  const filtered: (Product & { category: string })[] = []
+  const excluded: Product[] = []
+  for (const p of products) {
+    const category = productCategory(p)
+    if (category) {
+      keptCounts[category] = (keptCounts[category] ?? 0) + 1
+      filtered.push({ ...p, category })
+    } else {
+      excluded.push(p)
+    }
   }
 
-  const products: Product[] = JSON.parse(fs.readFileSync(inputPath, 'utf-8'))
-  console.log(`Loaded ${products.length} products`)
-
-  // Filter to only iPhones
-  const filtered = products.filter(isIPhone)
-  const excluded = products.filter((p) => !isIPhone(p))
-
   // Categorize excluded
   const categories: Record<string, string[]> = {}
   for (const p of excluded) {
@@ -135,8 +95,11 @@ async function main() {
 
   console.log('\n=== Filtering Results ===')
   console.log(`Total products: ${products.length}`)
-  console.log(`iPhones kept: ${filtered.length}`)
-  console.log(`Non-iPhones removed: ${excluded.length}`)
+  console.log(`Products kept: ${filtered.length}`)
+  for (const id of activeIds) {
+    console.log(`  ${id}: ${keptCounts[id] ?? 0}`)
+  }
+  console.log(`Products removed: ${excluded.length}`)
 
   console.log('\n=== Excluded by Category ===')
   const sortedCats = Object.entries(categories).sort((a, b) => b[1].length - a[1].length)
@@ -150,10 +113,10 @@ async function main() {
   fs.writeFileSync(outputPath, JSON.stringify(filtered, null, 2))
   console.log(`\n✓ Filtered products saved to: products-filtered.json`)
 
-  // Sample of kept iPhones
-  console.log('\n=== Sample of kept iPhones ===')
+  // Sample of kept products
+  console.log('\n=== Sample of kept products ===')
   filtered.slice(0, 10).forEach((p) => {
-    console.log(`  - ${p.name} | ${p.description?.substring(0, 30) || ''}`)
+    console.log(`  - [${p.category}] ${p.name} | ${p.description?.substring(0, 30) || ''}`)
   })
 }
 
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import { RecordedCatalog } from './replay-source';
+
+export const ARCHIVE_ROOT = path.resolve(
+  process.env.CATALOG_ARCHIVE_DIR || path.join(__dirname, '../../archive'),
+);
+const RETENTION_DAYS = Number(process.env.CATALOG_ARCHIVE_RETENTION_DAYS || 30);
+const MAX_RUNS = Number(process.env.CATALOG_ARCHIVE_MAX_RUNS || 0);
+
+// Archive directory name for a run: "run-<ScraperRun id>" when started by the
+// dashboard, otherwise a timestamped "local-..." directory.
+export function archiveKeyForRun(runId?: string): string {
+  if (runId && runId.trim().length > 0) {
+    return `run-${runId.trim()}`;
+  }
+  return `local-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+}
+
+// Resolves "42", "run-42" or a full path to an archived run directory
+export function resolveArchiveDir(runRef: string): string {
+  const candidates = [
+    path.resolve(runRef),
+    path.join(ARCHIVE_ROOT, runRef),
+    path.join(ARCHIVE_ROOT, `run-${runRef}`),
+  ];
+  const found = candidates.find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isDirectory(),
+  );
+  if (!found) {
+    throw new Error(`No archived run found for "${runRef}" in ${ARCHIVE_ROOT}`);
+  }
+  return found;
+}
+
+// Writes the raw getProducts/getCollections responses of one run, one
+// gzipped file per seller, in the format ReplayCatalogSource reads.
+export class CatalogArchive {
+  readonly dir: string;
+
+  constructor(runKey: string) {
+    this.dir = path.join(ARCHIVE_ROOT, runKey);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  write(phone: string, recorded: RecordedCatalog): void {
+    const filePath = path.join(this.dir, `${phone}.json.gz`);
+    try {
+      fs.writeFileSync(filePath, zlib.gzipSync(JSON.stringify(recorded)));
+    } catch (err) {
+      // Archiving is best effort and must never fail the scrape
+      console.error(`Failed to archive catalog for ${phone}:`, err);
+    }
+  }
+}
+
+// Drops archived runs older than CATALOG_ARCHIVE_RETENTION_DAYS and, if
+// CATALOG_ARCHIVE_MAX_RUNS is set, everything beyond the newest N runs.
+export function pruneArchives(keep?: string): void {
+  if (!fs.existsSync(ARCHIVE_ROOT)) return;
+
+  const runs = fs
+    .readdirSync(ARCHIVE_ROOT)
+    .map((name) => {
+      const dirPath = path.join(ARCHIVE_ROOT, name);
+      const stat = fs.statSync(dirPath);
+      return { name, dirPath, isDir: stat.isDirectory(), mtime: stat.mtimeMs };
+    })
+    .filter((run) => run.isDir && run.name !== keep)
+    .sort((a, b) => b.mtime - a.mtime);
+
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  // The run being written counts towards MAX_RUNS
+  const maxOthers = MAX_RUNS > 0 ? MAX_RUNS - (keep ? 1 : 0) : Infinity;
+
+  runs.forEach((run, index) => {
+    const expired = RETENTION_DAYS > 0 && run.mtime < cutoff;
+    if (expired || index >= maxOthers) {
+      fs.rmSync(run.dirPath, { recursive: true, force: true });
+      console.log(`Pruned archived run ${run.name}`);
+    }
+  });
+}
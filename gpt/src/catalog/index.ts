@@ -0,0 +1,65 @@
+import * as path from 'path';
+
+import { ReplayCatalogSource } from './replay-source';
+import { CatalogSession } from './session-pool';
+import { AuthRequiredError, CatalogSource } from './types';
+
+export * from './types';
+export * from './archive';
+export * from './rate-limited-source';
+export * from './replay-source';
+export * from './session-pool';
+
+const DEFAULT_REPLAY_DIR = path.resolve(__dirname, '../../fixtures/catalogs');
+
+// Picks the catalog source from CATALOG_SOURCE ("wppconnect" or "replay")
+export async function createCatalogSource(): Promise<CatalogSource> {
+  const kind = (process.env.CATALOG_SOURCE || 'wppconnect').toLowerCase();
+
+  if (kind === 'replay') {
+    const dir = path.resolve(process.env.CATALOG_REPLAY_DIR || DEFAULT_REPLAY_DIR);
+    console.log(`Using replay catalog source from ${dir}`);
+    return new ReplayCatalogSource(dir);
+  }
+
+  if (kind === 'wppconnect') {
+    // Loaded lazily so replay runs never need puppeteer
+    const { createWppconnectSource } = await import('./wppconnect-source');
+    return createWppconnectSource();
+  }
+
+  throw new Error('Invalid CATALOG_SOURCE. Supported values are "wppconnect" and "replay".');
+}
+
+// All sessions to scrape with. Replay has a single pseudo-session; for
+// wppconnect every registered WhatsApp session is started in parallel (so
+// their QR codes can be scanned together) and the ones that fail are skipped.
+export async function createCatalogSessions(): Promise<CatalogSession[]> {
+  const kind = (process.env.CATALOG_SOURCE || 'wppconnect').toLowerCase();
+  if (kind !== 'wppconnect') {
+    return [{ name: kind, source: await createCatalogSource() }];
+  }
+
+  const { loadSessionNames } = await import('../session/registry');
+  const { createWppconnectSource } = await import('./wppconnect-source');
+  const names = await loadSessionNames();
+  console.log(`Starting ${names.length} WhatsApp session(s): ${names.join(', ')}`);
+
+  const started = await Promise.allSettled(names.map((name) => createWppconnectSource(name)));
+  const sessions: CatalogSession[] = [];
+  const errors: unknown[] = [];
+  started.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      sessions.push({ name: names[i], source: outcome.value });
+    } else {
+      errors.push(outcome.reason);
+      console.error(`✗ [${names[i]}] Session could not be started:`, outcome.reason);
+    }
+  });
+
+  if (sessions.length === 0) {
+    // Prefer the error that tells the user what to do
+    throw errors.find((e) => e instanceof AuthRequiredError) ?? errors[0];
+  }
+  return sessions;
+}
@@ -0,0 +1,37 @@
+import { RateLimiter } from '../utils/rate-limiter';
+import { BusinessProfile, CatalogCollection, CatalogProduct, CatalogSource } from './types';
+
+// Routes every catalog call through a shared RateLimiter
+export class RateLimitedCatalogSource implements CatalogSource {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: CatalogSource,
+    private readonly limiter: RateLimiter,
+  ) {
+    this.name = inner.name;
+  }
+
+  async getProducts(chatId: string, limit: number): Promise<CatalogProduct[]> {
+    await this.limiter.acquire();
+    return this.inner.getProducts(chatId, limit);
+  }
+
+  async getCollections(
+    chatId: string,
+    collectionLimit: number,
+    productLimit: number,
+  ): Promise<CatalogCollection[]> {
+    await this.limiter.acquire();
+    return this.inner.getCollections(chatId, collectionLimit, productLimit);
+  }
+
+  async getBusinessProfile(chatId: string): Promise<BusinessProfile | null> {
+    await this.limiter.acquire();
+    return this.inner.getBusinessProfile(chatId);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import { BusinessProfile, CatalogCollection, CatalogProduct, CatalogSource } from './types';
+
+// Recorded payload for one seller, stored as "<phone>.json" (or the gzipped
+// "<phone>.json.gz" written by the catalog archive) in the replay dir
+export type RecordedCatalog = {
+  seller?: {
+    phone: string;
+    name?: string;
+    city?: string;
+    catalogueUrl?: string;
+  };
+  fetchedAt?: string;
+  products?: CatalogProduct[];
+  collections?: CatalogCollection[];
+  profile?: BusinessProfile | null;
+};
+
+export function readRecordedCatalog(filePath: string): RecordedCatalog {
+  const buffer = fs.readFileSync(filePath);
+  const text = filePath.endsWith('.gz')
+    ? zlib.gunzipSync(buffer).toString('utf-8')
+    : buffer.toString('utf-8');
+  return JSON.parse(text) as RecordedCatalog;
+}
+
+// Lists the seller phones that have a recording in `dir`
+export function listRecordedPhones(dir: string): string[] {
+  const phones = new Set<string>();
+  for (const file of fs.readdirSync(dir)) {
+    const match = file.match(/^(\d+)\.json(\.gz)?$/);
+    if (match) phones.add(match[1]);
+  }
+  return Array.from(phones).sort();
+}
+
+// Serves recorded catalog payloads from disk so the pipeline can run without
+// a logged-in WhatsApp session. Sellers without a recording have an empty catalog.
+export class ReplayCatalogSource implements CatalogSource {
+  readonly name = 'replay';
+  private readonly cache = new Map<string, RecordedCatalog>();
+
+  constructor(private readonly dir: string) {
+    if (!fs.existsSync(dir)) {
+      throw new Error(`Catalog replay directory not found at ${dir}`);
+    }
+  }
+
+  private load(chatId: string): RecordedCatalog {
+    const phone = chatId.replace(/@c\.us$/, '');
+    const cached = this.cache.get(phone);
+    if (cached) return cached;
+
+    const filePath = [`${phone}.json`, `${phone}.json.gz`]
+      .map((file) => path.join(this.dir, file))
+      .find((candidate) => fs.existsSync(candidate));
+    let recorded: RecordedCatalog = {};
+    if (filePath) {
+      recorded = readRecordedCatalog(filePath);
+    } else {
+      console.warn(`No recorded catalog for ${phone} in ${this.dir}`);
+    }
+
+    this.cache.set(phone, recorded);
+    return recorded;
+  }
+
+  // Seller metadata captured alongside the payload, if any
+  getRecordedSeller(phone: string): RecordedCatalog['seller'] {
+    return this.load(`${phone}@c.us`).seller;
+  }
+
+  async getProducts(chatId: string, limit: number): Promise<CatalogProduct[]> {
+    return (this.load(chatId).products ?? []).slice(0, limit);
+  }
+
+  async getCollections(
+    chatId: string,
+    collectionLimit: number,
+    productLimit: number,
+  ): Promise<CatalogCollection[]> {
+    return (this.load(chatId).collections ?? []).slice(0, collectionLimit).map((col) => ({
+      ...col,
+      products: (col.products ?? []).slice(0, productLimit),
+    }));
+  }
+
+  async getBusinessProfile(chatId: string): Promise<BusinessProfile | null> {
+    return this.load(chatId).profile ?? null;
+  }
+
+  async close(): Promise<void> {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,118 @@
+import { SellerOutcome } from '../types';
+import { RateLimiter } from '../utils/rate-limiter';
+import { RateLimitedCatalogSource } from './rate-limited-source';
+import { CatalogSource } from './types';
+
+// One logged-in catalog source, e.g. a WhatsApp account
+export type CatalogSession = {
+  name: string;
+  source: CatalogSource;
+};
+
+export type PooledSession = {
+  name: string;
+  // Rate limited per session, since WhatsApp limits each account separately
+  source: CatalogSource;
+  inFlight: number;
+  consecutiveFailures: number;
+  coolingUntil: number;
+  lostReason: string | null;
+};
+
+export type SessionPoolOptions = {
+  requestsPerMinute: number;
+  // Sellers failing in a row before a session is rested (likely rate-limited)
+  maxConsecutiveFailures: number;
+  cooldownMs: number;
+};
+
+// Spreads sellers over several catalog sessions: each seller goes to the least
+// busy usable session. Sessions that drop are taken out for the rest of the
+// run; sessions that keep failing are rested for a while.
+export class SessionPool {
+  private readonly sessions: PooledSession[];
+  private readonly sources: CatalogSource[];
+
+  constructor(
+    sessions: CatalogSession[],
+    private readonly options: SessionPoolOptions,
+  ) {
+    this.sources = sessions.map((s) => s.source);
+    this.sessions = sessions.map((session) => ({
+      name: session.name,
+      source: new RateLimitedCatalogSource(session.source, new RateLimiter(options.requestsPerMinute)),
+      inFlight: 0,
+      consecutiveFailures: 0,
+      coolingUntil: 0,
+      lostReason: null,
+    }));
+  }
+
+  get size(): number {
+    return this.sessions.length;
+  }
+
+  get names(): string[] {
+    return this.sessions.map((s) => s.name);
+  }
+
+  // Sessions that have not dropped
+  get activeCount(): number {
+    return this.sessions.filter((s) => !s.lostReason).length;
+  }
+
+  // Least busy session not in `exclude`. Resting sessions are only handed out
+  // when nothing else is left. Null when every candidate has dropped.
+  acquire(exclude: Set<string> = new Set()): PooledSession | null {
+    const now = Date.now();
+    const candidates = this.sessions.filter((s) => !s.lostReason && !exclude.has(s.name));
+    const rested = candidates.filter((s) => s.coolingUntil <= now);
+    const pool = rested.length > 0 ? rested : candidates;
+    if (pool.length === 0) return null;
+
+    const session = pool.reduce((best, s) => (s.inFlight < best.inFlight ? s : best));
+    session.inFlight += 1;
+    return session;
+  }
+
+  release(session: PooledSession, outcome: SellerOutcome | null): void {
+    session.inFlight = Math.max(0, session.inFlight - 1);
+    if (outcome === null) return;
+
+    if (outcome === 'FAILED' || outcome === 'TIMEOUT') {
+      session.consecutiveFailures += 1;
+      if (session.consecutiveFailures >= this.options.maxConsecutiveFailures) {
+        session.coolingUntil = Date.now() + this.options.cooldownMs;
+        session.consecutiveFailures = 0;
+        console.warn(
+          `⚠ [${session.name}] ${this.options.maxConsecutiveFailures} sellers failed in a row; ` +
+            `resting the session for ${Math.round(this.options.cooldownMs / 1000)}s`,
+        );
+      }
+    } else {
+      session.consecutiveFailures = 0;
+    }
+  }
+
+  markLost(session: PooledSession, reason: string): void {
+    if (session.lostReason) return;
+    session.lostReason = reason;
+    console.error(
+      `✗ [${session.name}] Removed from the session pool: ${reason} (${this.activeCount} session(s) left)`,
+    );
+  }
+
+  lostReasons(): string[] {
+    return this.sessions
+      .filter((s) => s.lostReason)
+      .map((s) => `${s.name}: ${s.lostReason}`);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(
+      this.sources.map((source) =>
+        source.close().catch((err) => console.error(`Error closing ${source.name} source:`, err)),
+      ),
+    );
+  }
+}
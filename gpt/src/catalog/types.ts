@@ -0,0 +1,63 @@
+// Raw product as returned by the WhatsApp catalog APIs. Only `id` is relied on
+// everywhere; the remaining fields vary between WPPConnect versions.
+export type CatalogProduct = {
+  id: string;
+  name?: string;
+  description?: string;
+  price?: any;
+  currency?: string;
+  availability?: any;
+  [key: string]: any;
+};
+
+export type CatalogCollection = {
+  id?: string;
+  name?: string;
+  products?: CatalogProduct[];
+  [key: string]: any;
+};
+
+// WhatsApp Business profile of a seller, normalized from the raw profile and
+// contact data. Fields are null when the seller has not filled them in.
+export type BusinessProfile = {
+  businessName: string | null;
+  description: string | null;
+  address: string | null;
+  email: string | null;
+  websites: string[];
+  category: string | null;
+  // Opening hours as returned by WhatsApp, e.g. { timezone, config: { mon: {...} } }
+  hours: Record<string, any> | null;
+};
+
+// Anything that can serve a seller's catalog: a live WhatsApp session, a
+// directory of recorded payloads, etc. `chatId` is always "<phone>@c.us".
+export interface CatalogSource {
+  readonly name: string;
+  getProducts(chatId: string, limit: number): Promise<CatalogProduct[]>;
+  getCollections(
+    chatId: string,
+    collectionLimit: number,
+    productLimit: number,
+  ): Promise<CatalogCollection[]>;
+  // Null when the chat is not a business account
+  getBusinessProfile(chatId: string): Promise<BusinessProfile | null>;
+  close(): Promise<void>;
+}
+
+// Thrown by catalog calls once the live session has dropped, so the run stops
+// instead of marking every remaining seller as failed
+export class SessionLostError extends Error {
+  constructor(readonly reason: string) {
+    super(`WhatsApp session lost: ${reason}`);
+    this.name = 'SessionLostError';
+  }
+}
+
+// Thrown when a live session needs a QR scan that did not happen in time
+export class AuthRequiredError extends Error {
+  constructor(readonly reason: string) {
+    super(`WhatsApp authentication required: ${reason}`);
+    this.name = 'AuthRequiredError';
+  }
+}
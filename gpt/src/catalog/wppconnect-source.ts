@@ -0,0 +1,278 @@
+import * as wppconnect from '@wppconnect-team/wppconnect';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  SessionState,
+  recordSessionFailure,
+  recordSessionLogin,
+  recordSessionState,
+} from '../session/health';
+import { DEFAULT_SESSION_NAME } from '../session/registry';
+import {
+  AuthRequiredError,
+  BusinessProfile,
+  CatalogCollection,
+  CatalogProduct,
+  CatalogSource,
+  SessionLostError,
+} from './types';
+
+const SESSION_DATA_DIR = path.resolve(__dirname, '../../session-data');
+// Tokens are stored as <session>.data.json, so all sessions share the directory
+const TOKEN_DIR = path.resolve(__dirname, '../../tokens');
+// How long to wait for a QR code to be scanned before giving up (0 = wait indefinitely)
+const AUTH_QR_WAIT_MS = Math.max(0, Number(process.env.AUTH_QR_WAIT_MS || 180000));
+// Connection state is polled this often during a run (0 disables polling; state
+// change events are still watched). The session counts as lost after
+// SESSION_MAX_FAILED_CHECKS polls in a row that are not CONNECTED.
+const SESSION_CHECK_INTERVAL_MS = Math.max(0, Number(process.env.SESSION_CHECK_INTERVAL_MS || 30000));
+const SESSION_MAX_FAILED_CHECKS = Math.max(1, Number(process.env.SESSION_MAX_FAILED_CHECKS || 3));
+
+// Socket states that mean the session will not come back without user action
+const LOST_STATES = new Set<string>([
+  wppconnect.SocketState.CONFLICT,
+  wppconnect.SocketState.UNPAIRED,
+  wppconnect.SocketState.UNPAIRED_IDLE,
+  wppconnect.SocketState.TOS_BLOCK,
+  wppconnect.SocketState.SMB_TOS_BLOCK,
+  wppconnect.SocketState.DEPRECATED_VERSION,
+  wppconnect.SocketState.PROXYBLOCK,
+]);
+
+const sessionStateFor = (socketState: string): SessionState =>
+  socketState === wppconnect.SocketState.UNPAIRED || socketState === wppconnect.SocketState.UNPAIRED_IDLE
+    ? 'LOGGED_OUT'
+    : 'DISCONNECTED';
+
+// Machine-readable stdout lines picked up by the dashboard (lib/scraper-service.ts)
+// to show the QR code on /auth; keep the prefixes in sync with it. Both are
+// followed by the session name.
+const QR_SIGNAL = '[wa-qr]';
+const AUTH_SIGNAL = '[wa-auth]';
+
+// Browser profile of a session. The default session keeps the original location.
+const sessionDataDir = (sessionName: string) =>
+  sessionName === DEFAULT_SESSION_NAME ? SESSION_DATA_DIR : path.join(SESSION_DATA_DIR, sessionName);
+
+const ensureDir = (dirPath: string) => {
+  if (!fs.existsSync(dirPath)) {
+    fs.mkdirSync(dirPath, { recursive: true });
+  }
+};
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+
+// Maps WA-JS business profile and contact objects onto BusinessProfile
+function toBusinessProfile(raw: any, contact: any): BusinessProfile {
+  const websites = (Array.isArray(raw?.website) ? raw.website : [])
+    .map((site: any) => text(typeof site === 'string' ? site : site?.url))
+    .filter((url: string | null): url is string => url !== null);
+  const category = Array.isArray(raw?.categories) ? raw.categories[0] : null;
+
+  return {
+    businessName: text(contact?.verifiedName) ?? text(contact?.name) ?? text(contact?.pushname),
+    description: text(raw?.description),
+    address: text(raw?.address),
+    email: text(raw?.email),
+    websites,
+    category: text(category?.localized_display_name) ?? text(category?.name),
+    hours: raw?.businessHours && typeof raw.businessHours === 'object' ? raw.businessHours : null,
+  };
+}
+
+export class WppconnectCatalogSource implements CatalogSource {
+  readonly name = 'wppconnect';
+
+  private lostReason: string | null = null;
+  private failedChecks = 0;
+  private monitor: NodeJS.Timeout | null = null;
+  private pendingRecord: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: wppconnect.Whatsapp,
+    readonly sessionName: string,
+  ) {}
+
+  // Watches the connection for the rest of the run; catalog calls fail fast
+  // with SessionLostError once the session is gone
+  startHealthMonitor(): void {
+    this.client.onStateChange((state) => {
+      if (LOST_STATES.has(state)) this.markLost(state, `state changed to ${state}`);
+    });
+
+    if (SESSION_CHECK_INTERVAL_MS > 0) {
+      this.monitor = setInterval(() => this.checkConnection(), SESSION_CHECK_INTERVAL_MS);
+      this.monitor.unref();
+    }
+  }
+
+  private async checkConnection(): Promise<void> {
+    if (this.lostReason) return;
+
+    let state: string;
+    try {
+      state = await this.client.getConnectionState();
+    } catch (error) {
+      state = `check failed (${(error as Error).message})`;
+    }
+
+    if (state === wppconnect.SocketState.CONNECTED) {
+      this.failedChecks = 0;
+      return;
+    }
+    if (LOST_STATES.has(state)) {
+      this.markLost(state, `state is ${state}`);
+      return;
+    }
+
+    this.failedChecks += 1;
+    console.warn(
+      `⚠ [${this.sessionName}] WhatsApp session not connected: ${state} (${this.failedChecks}/${SESSION_MAX_FAILED_CHECKS})`,
+    );
+    if (this.failedChecks >= SESSION_MAX_FAILED_CHECKS) {
+      this.markLost(state, `not connected for ${this.failedChecks} checks in a row (last: ${state})`);
+    }
+  }
+
+  private markLost(socketState: string, reason: string): void {
+    if (this.lostReason) return;
+    this.lostReason = reason;
+    console.error(`✗ [${this.sessionName}] WhatsApp session lost: ${reason}`);
+    console.log(`${AUTH_SIGNAL} ${this.sessionName} session-lost ${reason}`);
+    this.pendingRecord = recordSessionFailure(this.sessionName, sessionStateFor(socketState), reason);
+  }
+
+  private assertConnected(): void {
+    if (this.lostReason) throw new SessionLostError(this.lostReason);
+  }
+
+  async getProducts(chatId: string, limit: number): Promise<CatalogProduct[]> {
+    this.assertConnected();
+    const products = await this.client.getProducts(chatId, limit);
+    return Array.isArray(products) ? products : [];
+  }
+
+  async getCollections(
+    chatId: string,
+    collectionLimit: number,
+    productLimit: number,
+  ): Promise<CatalogCollection[]> {
+    this.assertConnected();
+    // Typings declare string limits, but the underlying call takes numbers
+    const collections = await (this.client as any).getCollections(
+      chatId,
+      collectionLimit,
+      productLimit,
+    );
+    return Array.isArray(collections) ? collections : [];
+  }
+
+  async getBusinessProfile(chatId: string): Promise<BusinessProfile | null> {
+    this.assertConnected();
+    const raw = await this.client.getBusinessProfile(chatId);
+    if (!raw) return null;
+    const contact = await this.client.getContact(chatId).catch(() => null);
+    return toBusinessProfile(raw, contact);
+  }
+
+  async close(): Promise<void> {
+    if (this.monitor) clearInterval(this.monitor);
+    await this.pendingRecord;
+    await this.client.close();
+  }
+}
+
+// Starts (or restores) a WhatsApp session and waits for WAPI to be injected
+export async function createWppconnectSource(
+  sessionName: string = DEFAULT_SESSION_NAME,
+): Promise<WppconnectCatalogSource> {
+  const dataDir = sessionDataDir(sessionName);
+  ensureDir(dataDir);
+  ensureDir(TOKEN_DIR);
+
+  const lockPath = path.join(dataDir, 'SingletonLock');
+  if (fs.existsSync(lockPath)) {
+    try { fs.unlinkSync(lockPath); } catch (e) {}
+  }
+
+  let qrTimedOut = false;
+  let scannedAt: Date | null = null;
+  const waitLabel = AUTH_QR_WAIT_MS > 0 ? `${Math.round(AUTH_QR_WAIT_MS / 1000)}s` : 'indefinitely';
+
+  let client: wppconnect.Whatsapp;
+  try {
+    client = await wppconnect.create({
+      session: sessionName,
+      catchQR: (base64Qr, asciiQR, attempt) => {
+        console.log(asciiQR);
+        console.log(`[${sessionName}] QR code #${attempt} ready; scan it from WhatsApp > Linked Devices.`);
+        console.log(`${QR_SIGNAL} ${sessionName} ${base64Qr}`);
+      },
+      logQR: false,
+      statusFind: (statusSession) => {
+        if (statusSession === 'isLogged') {
+          console.log(`✓ [${sessionName}] WhatsApp session active`);
+          console.log(`${AUTH_SIGNAL} ${sessionName} logged-in`);
+        } else if (statusSession === 'notLogged') {
+          console.log(
+            `⚠ [${sessionName}] WhatsApp session not logged in; waiting ${waitLabel} for the QR code to be scanned`,
+          );
+          console.log(`${AUTH_SIGNAL} ${sessionName} waiting ${AUTH_QR_WAIT_MS}`);
+          void recordSessionState(sessionName, 'WAITING_FOR_SCAN');
+        } else if (statusSession === 'qrReadSuccess') {
+          console.log(`✓ [${sessionName}] QR code scanned`);
+          scannedAt = new Date();
+          console.log(`${AUTH_SIGNAL} ${sessionName} logged-in`);
+        } else if (statusSession === 'autocloseCalled' || statusSession === 'qrReadFail') {
+          qrTimedOut = true;
+          console.log(`${AUTH_SIGNAL} ${sessionName} timeout`);
+        }
+      },
+      headless: true,
+      devtools: false,
+      useChrome: true,
+      debug: false,
+      updatesLog: false,
+      autoClose: AUTH_QR_WAIT_MS,
+      tokenStore: 'file',
+      folderNameToken: TOKEN_DIR,
+      puppeteerOptions: {
+        userDataDir: dataDir,
+        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      }
+    });
+  } catch (error) {
+    const reason = qrTimedOut
+      ? `QR code was not scanned within ${waitLabel}`
+      : `could not start session: ${(error as Error).message}`;
+    await recordSessionFailure(sessionName, qrTimedOut ? 'LOGGED_OUT' : 'DISCONNECTED', reason);
+    if (qrTimedOut) {
+      throw new AuthRequiredError(reason);
+    }
+    throw error;
+  }
+
+  console.log(`[${sessionName}] Client initialized. Waiting for WAPI injection...`);
+  await new Promise((r) => setTimeout(r, 10000));
+
+  // Check the session before any seller is touched
+  const state = await client.getConnectionState().catch((error) => `unknown (${error.message})`);
+  if (state !== wppconnect.SocketState.CONNECTED) {
+    const reason = `not connected before the run started (state: ${state})`;
+    console.error(`✗ [${sessionName}] WhatsApp session lost: ${reason}`);
+    console.log(`${AUTH_SIGNAL} ${sessionName} session-lost ${reason}`);
+    await recordSessionFailure(sessionName, sessionStateFor(state), reason);
+    await client.close().catch(() => undefined);
+    throw new SessionLostError(reason);
+  }
+
+  const tokenPath = path.join(TOKEN_DIR, `${sessionName}.data.json`);
+  const tokenSavedAt = fs.existsSync(tokenPath) ? fs.statSync(tokenPath).mtime : null;
+  await recordSessionLogin(sessionName, scannedAt, tokenSavedAt);
+
+  const source = new WppconnectCatalogSource(client, sessionName);
+  source.startHealthMonitor();
+  return source;
+}
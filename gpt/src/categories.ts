@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+
+import { DeviceCatalog } from './device-models';
+
+// Product categories the scraper keeps and the LLM normalizes, defined in
+// config/categories.json (or CATEGORY_CONFIG_PATH). The dashboard reads the
+// same file for its model filters. The models of each category are in the
+// device catalog (src/device-models.ts).
+export const CATEGORY_CONFIG_PATH = process.env.CATEGORY_CONFIG_PATH
+  ? path.resolve(process.env.CATEGORY_CONFIG_PATH)
+  : path.join(__dirname, '../config/categories.json');
+
+export type CategoryDefinition = {
+  id: string;
+  label: string;
+  active: boolean;
+  include: {
+    // A name match is enough, unless the name starts like an accessory
+    name: string[];
+    // A description-only match also needs the name to look like a model
+    description: string[];
+    nameWhenDescriptionOnly: string[];
+  };
+  // Matched against the name; any hit rules the product out of this category
+  exclude: string[];
+  accessory: string[];
+  llm: {
+    scope: string;
+    excludeExamples: string;
+  };
+  // Filter shortcuts: group label -> model name prefixes
+  modelGroups: Record<string, string[]>;
+};
+
+type CompiledCategory = {
+  definition: CategoryDefinition;
+  nameInclude: RegExp[];
+  descriptionInclude: RegExp[];
+  nameWhenDescriptionOnly: RegExp[];
+  exclude: RegExp[];
+  accessory: RegExp[];
+};
+
+function compile(categoryId: string, patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).map((pattern) => {
+    try {
+      return new RegExp(pattern, 'i');
+    } catch (error) {
+      throw new Error(`Invalid pattern "${pattern}" in category "${categoryId}": ${error}`);
+    }
+  });
+}
+
+export function loadCategoryDefinitions(): CategoryDefinition[] {
+  const parsed = JSON.parse(fs.readFileSync(CATEGORY_CONFIG_PATH, 'utf-8'));
+  const categories = parsed?.categories;
+  if (!Array.isArray(categories)) {
+    throw new Error(`${CATEGORY_CONFIG_PATH} must contain a "categories" array.`);
+  }
+
+  const ids = new Set<string>();
+  for (const category of categories as CategoryDefinition[]) {
+    if (!category.id || ids.has(category.id)) {
+      throw new Error(`Category ids must be present and unique (got "${category.id}").`);
+    }
+    ids.add(category.id);
+  }
+
+  return categories as CategoryDefinition[];
+}
+
+let activeCategories: CompiledCategory[] | null = null;
+
+// ACTIVE_CATEGORIES=iphone,ipad overrides the "active" flags in the config file
+export function getActiveCategories(): CompiledCategory[] {
+  if (activeCategories) return activeCategories;
+
+  const override = (process.env.ACTIVE_CATEGORIES || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const definitions = loadCategoryDefinitions().filter((category) =>
+    override.length > 0 ? override.includes(category.id) : category.active,
+  );
+  if (definitions.length === 0) {
+    throw new Error('No active product categories; check config/categories.json or ACTIVE_CATEGORIES.');
+  }
+
+  activeCategories = definitions.map((definition) => ({
+    definition,
+    nameInclude: compile(definition.id, definition.include?.name),
+    descriptionInclude: compile(definition.id, definition.include?.description),
+    nameWhenDescriptionOnly: compile(definition.id, definition.include?.nameWhenDescriptionOnly),
+    exclude: compile(definition.id, definition.exclude),
+    accessory: compile(definition.id, definition.accessory),
+  }));
+  return activeCategories;
+}
+
+function matches(category: CompiledCategory, name: string, description: string): boolean {
+  const nameLower = name.toLowerCase().trim();
+  const descLower = (description || '').toLowerCase();
+
+  if (category.exclude.some((pattern) => pattern.test(nameLower))) return false;
+
+  if (category.nameInclude.some((pattern) => pattern.test(nameLower))) {
+    return !category.accessory.some((pattern) => pattern.test(nameLower));
+  }
+
+  // Sellers sometimes put the brand only in the description, e.g. name "14 Pro 256gb"
+  if (category.descriptionInclude.some((pattern) => pattern.test(descLower))) {
+    return category.nameWhenDescriptionOnly.some((pattern) => pattern.test(nameLower));
+  }
+
+  return false;
+}
+
+// Returns the id of the first active category the product belongs to, or null
+export function matchCategory(name: string, description: string): string | null {
+  const category = getActiveCategories().find((c) => matches(c, name, description));
+  return category ? category.definition.id : null;
+}
+
+// Validation rules for the enrichment prompt, one block per active category,
+// with the category's canonical models from `catalog`
+export function describeCategoriesForPrompt(catalog: DeviceCatalog): string {
+  return getActiveCategories()
+    .map(({ definition }) =>
+      [
+        `Category "${definition.id}" (${definition.label}): ONLY ${definition.llm.scope}.`,
+        `  Valid models: ${catalog.modelsOf(definition.id).map((model) => model.canonicalName).join(', ')}`,
+        `  Not valid (set modelName to "EXCLUDE"): ${definition.llm.excludeExamples}`,
+      ].join('\n'),
+    )
+    .join('\n');
+}
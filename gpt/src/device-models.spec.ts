@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { DeviceCatalog, DeviceModel, modelKey } from './device-models';
+
+vi.mock('./db/client', () => ({ default: {} }));
+
+function model(category: string, canonicalName: string, aliases: string[] = []): DeviceModel {
+  return { category, canonicalName, aliases, releaseYear: null, storageOptions: [], colors: [] };
+}
+
+describe('modelKey', () => {
+  it('ignores case, spacing and punctuation but keeps plus signs', () => {
+    expect(modelKey('  iPhone 15 PRO ')).toBe(modelKey('iphone-15 pro'));
+    expect(modelKey('Galaxy S23+')).not.toBe(modelKey('Galaxy S23'));
+  });
+});
+
+describe('DeviceCatalog', () => {
+  const pixel = model('android', 'Pixel 8', ['Google Pixel 8']);
+  const note = model('android', 'Galaxy Note', ['Note']);
+  const notebook = model('laptop', 'Notebook', ['Note']);
+  const catalog = new DeviceCatalog([pixel, note, notebook]);
+
+  it('finds models by canonical name or alias', () => {
+    expect(catalog.find('pixel 8')).toBe(pixel);
+    expect(catalog.find('Google Pixel-8')).toBe(pixel);
+    expect(catalog.find('Pixel 9')).toBeUndefined();
+  });
+
+  it('only answers a name shared by several models within a category', () => {
+    expect(catalog.find('Note')).toBeUndefined();
+    expect(catalog.find('Note', 'laptop')).toBe(notebook);
+    expect(catalog.find('Pixel 8', 'laptop')).toBeUndefined();
+  });
+
+  it('lists the models of a category', () => {
+    expect(catalog.modelsOf('android')).toEqual([pixel, note]);
+  });
+});
+
+describe('readDeviceModelFile', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'device-models-'));
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  async function read(contents?: unknown) {
+    if (contents !== undefined) {
+      const file = path.join(dir, 'models.json');
+      fs.writeFileSync(file, JSON.stringify(contents));
+      vi.stubEnv('DEVICE_MODELS_PATH', file);
+    }
+    vi.resetModules();
+    const { readDeviceModelFile } = await import('./device-models');
+    return readDeviceModelFile();
+  }
+
+  it('reads the shipped catalog', async () => {
+    const models = await read();
+    expect(models.length).toBeGreaterThan(0);
+    expect(new DeviceCatalog(models).find('iphone 13 mini', 'iphone')?.canonicalName).toBe('iPhone 13 mini');
+  });
+
+  it('fills in missing lists and release years', async () => {
+    expect(await read({ models: [{ category: 'iphone', canonicalName: 'iPhone X' }] })).toEqual([
+      model('iphone', 'iPhone X'),
+    ]);
+  });
+
+  it('rejects malformed entries and repeated names', async () => {
+    await expect(read({})).rejects.toThrow('must contain a "models" array');
+    await expect(read({ models: [{ category: 'iphone' }] })).rejects.toThrow(
+      'needs a "category" and a "canonicalName"',
+    );
+    await expect(read({ models: [{ ...model('iphone', 'iPhone X'), colors: 'Silver' }] })).rejects.toThrow(
+      'must be lists of strings',
+    );
+    await expect(read({ models: [{ ...model('iphone', 'iPhone X'), releaseYear: '2017' }] })).rejects.toThrow(
+      '"releaseYear" must be a year',
+    );
+    await expect(read({ models: [model('iphone', 'iPhone X'), model('iphone', 'iPhone X')] })).rejects.toThrow(
+      '"iPhone X" is listed twice',
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+
+import prisma from './db/client';
+
+// Canonical device models (device_models): the model names enrichment may
+// return, the other spellings that mean them, and the storage options and
+// official colors each was sold with. The LLM is given the canonical names;
+// its answers are snapped to them (see src/enrichment/snap.ts). The table is
+// maintained from config/device-models.json (or DEVICE_MODELS_PATH) with
+// `npm run sync-device-models`.
+export const DEVICE_MODELS_PATH = process.env.DEVICE_MODELS_PATH
+  ? path.resolve(process.env.DEVICE_MODELS_PATH)
+  : path.join(__dirname, '../config/device-models.json');
+
+export type DeviceModel = {
+  category: string;
+  canonicalName: string;
+  aliases: string[];
+  releaseYear: number | null;
+  storageOptions: string[];
+  colors: string[];
+};
+
+// Case, spacing and punctuation do not tell models apart ("iphone 15 PRO" is "iPhone 15 Pro")
+export function modelKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9+]+/g, ' ').trim();
+}
+
+export class DeviceCatalog {
+  private readonly byKey = new Map<string, DeviceModel[]>();
+
+  constructor(readonly models: DeviceModel[]) {
+    for (const model of models) {
+      for (const name of [model.canonicalName, ...model.aliases]) {
+        const key = modelKey(name);
+        const known = this.byKey.get(key) ?? [];
+        if (!known.includes(model)) this.byKey.set(key, [...known, model]);
+      }
+    }
+  }
+
+  modelsOf(category: string): DeviceModel[] {
+    return this.models.filter((model) => model.category === category);
+  }
+
+  // The model `name` (canonical or alias) stands for, within `category` when given
+  find(name: string, category?: string | null): DeviceModel | undefined {
+    const matches = (this.byKey.get(modelKey(name)) ?? []).filter(
+      (model) => !category || model.category === category,
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+}
+
+// The catalog of the given categories, in the order the models were added
+export async function loadDeviceCatalog(categoryIds: string[]): Promise<DeviceCatalog> {
+  const models: DeviceModel[] = await prisma.deviceModel.findMany({
+    where: { category: { in: categoryIds } },
+    orderBy: { id: 'asc' },
+    select: {
+      category: true,
+      canonicalName: true,
+      aliases: true,
+      releaseYear: true,
+      storageOptions: true,
+      colors: true,
+    },
+  });
+
+  const empty = categoryIds.filter((id) => !models.some((model) => model.category === id));
+  if (empty.length > 0) {
+    throw new Error(
+      `No device models for category ${empty.map((id) => `"${id}"`).join(', ')}. ` +
+        'Add them to the device_models table before enriching.',
+    );
+  }
+  return new DeviceCatalog(models);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// The models in DEVICE_MODELS_PATH; throws on a malformed entry or a repeated name
+export function readDeviceModelFile(): DeviceModel[] {
+  const parsed = JSON.parse(fs.readFileSync(DEVICE_MODELS_PATH, 'utf-8'));
+  if (!Array.isArray(parsed?.models)) {
+    throw new Error(`${DEVICE_MODELS_PATH} must contain a "models" array.`);
+  }
+
+  const names = new Set<string>();
+  return parsed.models.map((entry: Record<string, unknown>, index: number): DeviceModel => {
+    const where = `model ${index + 1} in ${DEVICE_MODELS_PATH}`;
+    if (typeof entry?.category !== 'string' || typeof entry.canonicalName !== 'string' || !entry.canonicalName) {
+      throw new Error(`${where} needs a "category" and a "canonicalName".`);
+    }
+    const aliases = entry.aliases ?? [];
+    const storageOptions = entry.storageOptions ?? [];
+    const colors = entry.colors ?? [];
+    if (!isStringArray(aliases) || !isStringArray(storageOptions) || !isStringArray(colors)) {
+      throw new Error(`${where}: "aliases", "storageOptions" and "colors" must be lists of strings.`);
+    }
+    const releaseYear = entry.releaseYear ?? null;
+    if (releaseYear !== null && !Number.isInteger(releaseYear)) {
+      throw new Error(`${where}: "releaseYear" must be a year.`);
+    }
+    if (names.has(entry.canonicalName)) {
+      throw new Error(`${where}: "${entry.canonicalName}" is listed twice.`);
+    }
+    names.add(entry.canonicalName);
+    return {
+      category: entry.category,
+      canonicalName: entry.canonicalName,
+      aliases,
+      releaseYear: releaseYear as number | null,
+      storageOptions,
+      colors,
+    };
+  });
+}
+
+export type DeviceModelSyncReport = {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  // In the table but not in the file; deleted only when pruning
+  missing: string[];
+  deleted: string[];
+};
+
+function sameModel(a: DeviceModel, b: DeviceModel): boolean {
+  return JSON.stringify([a.category, a.aliases, a.releaseYear, a.storageOptions, a.colors]) ===
+    JSON.stringify([b.category, b.aliases, b.releaseYear, b.storageOptions, b.colors]);
+}
+
+// Makes device_models match `models`, keyed by canonical name
+export async function syncDeviceModels(models: DeviceModel[], prune = false): Promise<DeviceModelSyncReport> {
+  const report: DeviceModelSyncReport = { created: [], updated: [], unchanged: [], missing: [], deleted: [] };
+  const existing = await prisma.deviceModel.findMany({ orderBy: { id: 'asc' } });
+  const byName = new Map(existing.map((model) => [model.canonicalName, model]));
+
+  for (const model of models) {
+    const current = byName.get(model.canonicalName);
+    if (!current) {
+      await prisma.deviceModel.create({ data: model });
+      report.created.push(model.canonicalName);
+    } else if (sameModel(current, model)) {
+      report.unchanged.push(model.canonicalName);
+    } else {
+      await prisma.deviceModel.update({ where: { canonicalName: model.canonicalName }, data: model });
+      report.updated.push(model.canonicalName);
+    }
+  }
+
+  const listed = new Set(models.map((model) => model.canonicalName));
+  report.missing = existing.map((model) => model.canonicalName).filter((name) => !listed.has(name));
+  if (prune && report.missing.length > 0) {
+    await prisma.deviceModel.deleteMany({ where: { canonicalName: { in: report.missing } } });
+    report.deleted = report.missing;
+  }
+  return report;
+}
@@ -1,21 +1,44 @@
-import fs from 'fs';
-import path from 'path';
-import OpenAI from 'openai';
 import { config as loadEnv } from 'dotenv';
-import { GoogleGenAI } from '@google/genai';
 
+import { describeCategoriesForPrompt, getActiveCategories } from './categories';
+import prisma from './db/client';
+import { DeviceCatalog, loadDeviceCatalog } from './device-models';
+import {
+  CACHE_ENABLED,
+  EnrichmentInput,
+  EnrichmentResult,
+  MockProvider,
+  RULES_ENABLED,
+  RuleFields,
+  createEnrichmentProvider,
+  emptyResult,
+  enrichBatch,
+  enrichmentCacheKey,
+  extractWithRules,
+  lookupEnrichment,
+  mergeRuleFields,
+  promptVersion,
+  pruneEnrichmentCache,
+  snapToCatalog,
+  storeEnrichment,
+  toEnrichmentInput,
+} from './enrichment';
+import { emitEvent, errorMessage } from './pipeline/events';
+import {
+  CANCELLED_EXIT_CODE,
+  finishStandaloneRun,
+  handleStopSignals,
+  resolveStagedRun,
+  stopRequested,
+} from './pipeline/run';
+import { loadUnenrichedProducts, saveEnrichment, saveEnrichmentFailures } from './pipeline/staging';
 import { EnrichedProduct } from './types';
 
 loadEnv();
 
-const RAW_PRODUCTS_PATH = path.join(__dirname, '../products.json');
-const ENRICHED_PRODUCTS_PATH = path.join(__dirname, '../products.enriched.json');
-
-const PROVIDER = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
-const GLOBAL_MODEL = (process.env.LLM_MODEL || '').trim() || undefined;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || GLOBAL_MODEL || 'gpt-5-nano';
-const GEMINI_MODEL = process.env.GEMINI_MODEL || GLOBAL_MODEL || 'gemini-2.0-flash-001';
 const BATCH_SIZE = Number(process.env.LLM_BATCH_SIZE || 20);
+// Cached results are saved to the staging table in chunks this size
+const CACHE_SAVE_CHUNK = 500;
 
 type RawProduct = EnrichedProduct;
 
@@ -27,327 +50,177 @@ function chunk<T>(items: T[], size: number): T[][] {
   return result;
 }
 
-function loadRawProducts(): RawProduct[] {
-  if (!fs.existsSync(RAW_PRODUCTS_PATH)) {
-    throw new Error(`products.json not found at ${RAW_PRODUCTS_PATH}. Run "npm start" first.`);
-  }
-
-  const data = fs.readFileSync(RAW_PRODUCTS_PATH, 'utf-8');
-  const parsed = JSON.parse(data);
-  if (!Array.isArray(parsed)) {
-    throw new Error('products.json must contain an array of products.');
-  }
-  return parsed as RawProduct[];
-}
-
-type EnrichmentResult = {
-  id: string;
-  modelName: string | null;
-  storageGb: string | null;
-  color: string | null;
-  warranty: string | null;
-  batteryHealth: string | null;
-  condition: string | null;
-};
-
-function emptyResult(id: string): EnrichmentResult {
-  return {
-    id,
-    modelName: null,
-    storageGb: null,
-    color: null,
-    warranty: null,
-    batteryHealth: null,
-    condition: null,
-  };
-}
-
-async function enrichBatchWithOpenAI(
-  client: OpenAI,
-  batch: RawProduct[],
+// Snaps `results` to the device catalog; products that do not match it are logged and counted on the run
+async function snapResults(
+  runId: number,
+  catalog: DeviceCatalog,
+  categories: Map<string, string | null>,
+  results: EnrichmentResult[],
 ): Promise<EnrichmentResult[]> {
-  if (batch.length === 0) {
-    return [];
-  }
-
-  const payload = batch.map((product) => ({
-    id: product.id,
-    name: product.name ?? '',
-    description: product.description ?? '',
-    priceRaw: product.priceRaw ?? null,
-    currency: product.currency ?? null,
-    availability: product.availability ?? null,
-  }));
-
-  const prompt = `
-You are a product catalog normalization assistant for used/new iPhones.
-
-IMPORTANT VALIDATION RULES:
-1. ONLY process iPhone 13 through iPhone 17 series devices (including mini, Plus, Pro, Pro Max, e, and Air variants)
-2. Valid models: iPhone 13/13 mini/13 Pro/13 Pro Max, iPhone 14/14 Plus/14 Pro/14 Pro Max, iPhone 15/15 Plus/15 Pro/15 Pro Max, iPhone 16/16 Plus/16 Pro/16 Pro Max/16e, iPhone 17/17 Pro/iPhone Air
-3. If a product is NOT a valid iPhone 13-17 device (e.g., older models like iPhone 12, iPhone SE, or accessories like cases, chargers, cables, screen protectors, AirPods), set modelName to "EXCLUDE"
-
-For each input product, extract:
-- "modelName": Normalized model name (e.g. "iPhone 14 Pro Max"). Set to "EXCLUDE" if not a valid iPhone 13-17 device or if it's an accessory.
-- "storageGb": Storage capacity with unit (e.g. "128 GB").
-- "color": Short color description.
-- "warranty": Short warranty description if present, else "".
-- "batteryHealth": Battery health percentage if present (e.g. "85%", "90%"), else "". Note: also commonly written as "BH" or "bh".
-- "condition": Product condition (e.g. "New", "Used", "Like new", "Refurbished", "Minor scratches", "Dents", "Excellent"). Extract from name/description, else "".
-
-Return a STRICT JSON array with one element per input product, in the SAME ORDER, with keys:
-["id","modelName","storageGb","color","warranty","batteryHealth","condition"].
-Do not include any extra text before or after the JSON.
-
-Products:
-${JSON.stringify(payload, null, 2)}
-  `.trim();
-
-  try {
-    const response = await client.responses.create({
-      model: OPENAI_MODEL,
-      input: prompt,
-    });
-
-    const text = (response as any).output_text as string | undefined;
-    if (!text) {
-      console.warn('LLM response had no output_text; falling back to empty enrichment.');
-      return batch.map((product) => emptyResult(product.id));
-    }
-
-    let parsed: any;
-    try {
-      parsed = JSON.parse(text);
-    } catch (error) {
-      console.error('Failed to parse LLM JSON output for batch:', error);
-      return batch.map((product) => emptyResult(product.id));
-    }
-
-    if (!Array.isArray(parsed)) {
-      console.error('LLM output is not an array; falling back to empty enrichment.');
-      return batch.map((product) => emptyResult(product.id));
+  const snapped = results.map((result) => snapToCatalog(result, categories.get(result.id) ?? null, catalog));
+  const mismatched = snapped.filter((result) => result.catalogIssues);
+  if (mismatched.length > 0) {
+    for (const { id, catalogIssues } of mismatched) {
+      console.warn(`Product ${id} does not match the device catalog: ${catalogIssues!.join('; ')}`);
     }
-
-    return batch.map((product, index) => {
-      const enriched = parsed[index];
-      if (!enriched || typeof enriched !== 'object') {
-        return emptyResult(product.id);
-      }
-      return {
-        id: product.id,
-        modelName:
-          typeof enriched.modelName === 'string' && enriched.modelName.trim().length > 0
-            ? enriched.modelName
-            : null,
-        storageGb:
-          typeof enriched.storageGb === 'string' && enriched.storageGb.trim().length > 0
-            ? enriched.storageGb
-            : null,
-        color:
-          typeof enriched.color === 'string' && enriched.color.trim().length > 0
-            ? enriched.color
-            : null,
-        warranty:
-          typeof enriched.warranty === 'string' && enriched.warranty.trim().length > 0
-            ? enriched.warranty
-            : null,
-        batteryHealth:
-          typeof enriched.batteryHealth === 'string' && enriched.batteryHealth.trim().length > 0
-            ? enriched.batteryHealth
-            : null,
-        condition:
-          typeof enriched.condition === 'string' && enriched.condition.trim().length > 0
-            ? enriched.condition
-            : null,
-      };
+    await prisma.scraperRun.update({
+      where: { id: runId },
+      data: { catalogMismatches: { increment: mismatched.length } },
     });
-  } catch (error) {
-    console.error('Error during LLM enrichment batch:', error);
-    return batch.map((product) => emptyResult(product.id));
   }
+  return snapped;
 }
 
-async function enrichBatchWithGemini(
-  client: GoogleGenAI,
-  batch: RawProduct[],
-): Promise<EnrichmentResult[]> {
-  if (batch.length === 0) {
-    return [];
+async function main() {
+  handleStopSignals('batch');
+  const run = await resolveStagedRun();
+  // Only products not enriched yet, so an interrupted enrich resumes where it stopped
+  const rawProducts: RawProduct[] = await loadUnenrichedProducts(run.id);
+  console.log(`Loaded ${rawProducts.length} products awaiting enrichment from run #${run.id}`);
+  if (rawProducts.length === 0) {
+    await prisma.$disconnect();
+    return;
   }
 
-  const payload = batch.map((product) => ({
-    id: product.id,
-    name: product.name ?? '',
-    description: product.description ?? '',
-    priceRaw: product.priceRaw ?? null,
-    currency: product.currency ?? null,
-    availability: product.availability ?? null,
-  }));
-
-  const prompt = `
-You are a product catalog normalization assistant for used/new iPhones.
-
-IMPORTANT VALIDATION RULES:
-1. ONLY process iPhone 13 through iPhone 17 series devices (including mini, Plus, Pro, Pro Max, e, and Air variants)
-2. Valid models: iPhone 13/13 mini/13 Pro/13 Pro Max, iPhone 14/14 Plus/14 Pro/14 Pro Max, iPhone 15/15 Plus/15 Pro/15 Pro Max, iPhone 16/16 Plus/16 Pro/16 Pro Max/16e, iPhone 17/17 Pro/iPhone Air
-3. If a product is NOT a valid iPhone 13-17 device (e.g., older models like iPhone 12, iPhone SE, or accessories like cases, chargers, cables, screen protectors, AirPods), set modelName to "EXCLUDE"
-
-For each input product, extract:
-- "modelName": Normalized model name (e.g. "iPhone 14 Pro Max"). Set to "EXCLUDE" if not a valid iPhone 13-17 device or if it's an accessory.
-- "storageGb": Storage capacity with unit (e.g. "128 GB").
-- "color": Short color description.
-- "warranty": Short warranty description if present, else "".
-- "batteryHealth": Battery health percentage if present (e.g. "85%", "90%"), else "". Note: also commonly written as "BH" or "bh".
-- "condition": Product condition (e.g. "New", "Used", "Like new", "Refurbished", "Minor scratches", "Dents", "Excellent"). Extract from name/description, else "".
-
-Return a STRICT JSON array with one element per input product, in the SAME ORDER, with keys:
-["id","modelName","storageGb","color","warranty","batteryHealth","condition"].
-
-Products:
-${JSON.stringify(payload, null, 2)}
-  `.trim();
-
-  try {
-    const response = await client.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: prompt,
-    });
-
-    const responseTextRaw =
-      typeof (response as any).text === 'function'
-        ? (response as any).text()
-        : (response as any).text;
-    const text = typeof responseTextRaw === 'string' ? responseTextRaw : '';
-    if (!text) {
-      console.warn('Gemini response had no text; falling back to empty enrichment.');
-      return batch.map((product) => emptyResult(product.id));
-    }
-
-    let jsonSnippet = text.trim();
-    const fenced = text.match(/```json([\s\S]*?)```/i);
-    if (fenced?.[1]) {
-      jsonSnippet = fenced[1].trim();
-    } else {
-      const bracketMatch = text.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
-      if (bracketMatch?.[1]) {
-        jsonSnippet = bracketMatch[1].trim();
-      }
-    }
-
-    let parsed: any;
-    try {
-      parsed = JSON.parse(jsonSnippet);
-    } catch (error) {
-      console.error('Failed to parse Gemini JSON output for batch:', error);
-      return batch.map((product) => emptyResult(product.id));
+  const catalog = await loadDeviceCatalog(getActiveCategories().map(({ definition }) => definition.id));
+  const categoryRules = describeCategoriesForPrompt(catalog);
+  const version = promptVersion(categoryRules);
+  const categories = new Map(rawProducts.map((product) => [product.id, product.category ?? null]));
+
+  const provider = createEnrichmentProvider(catalog);
+  console.log(`Using ${provider.name} provider with model ${provider.model}`);
+  // Mock answers must never stand in for a real model's
+  const useCache = CACHE_ENABLED && !(provider instanceof MockProvider);
+
+  // Unchanged listings take their enrichment from the cache; only the rest go to the LLM
+  const cacheKeys = new Map(
+    rawProducts.map((product) => [product.id, enrichmentCacheKey(product, version, provider)]),
+  );
+  let toEnrich = rawProducts;
+  if (useCache) {
+    const pruned = await pruneEnrichmentCache();
+    if (pruned > 0) console.log(`Pruned ${pruned} unused enrichment cache entries`);
+
+    const cached = await lookupEnrichment(Array.from(cacheKeys.values()));
+    const hits = rawProducts.filter((product) => cached.has(cacheKeys.get(product.id)!));
+    // Cached results are snapped like fresh ones, so catalog edits apply to them too
+    for (const part of chunk(hits, CACHE_SAVE_CHUNK)) {
+      const results = part.map((product) => ({
+        ...emptyResult(product.id),
+        ...cached.get(cacheKeys.get(product.id)!)!,
+      }));
+      await saveEnrichment(run.id, await snapResults(run.id, catalog, categories, results));
     }
-
-    if (!Array.isArray(parsed)) {
-      console.error('Gemini output is not an array; falling back to empty enrichment.');
-      return batch.map((product) => emptyResult(product.id));
-    }
-
-    return batch.map((product, index) => {
-      const enriched = parsed[index];
-      if (!enriched || typeof enriched !== 'object') {
-        return emptyResult(product.id);
-      }
-      return {
-        id: product.id,
-        modelName:
-          typeof enriched.modelName === 'string' && enriched.modelName.trim().length > 0
-            ? enriched.modelName
-            : null,
-        storageGb:
-          typeof enriched.storageGb === 'string' && enriched.storageGb.trim().length > 0
-            ? enriched.storageGb
-            : null,
-        color:
-          typeof enriched.color === 'string' && enriched.color.trim().length > 0
-            ? enriched.color
-            : null,
-        warranty:
-          typeof enriched.warranty === 'string' && enriched.warranty.trim().length > 0
-            ? enriched.warranty
-            : null,
-        batteryHealth:
-          typeof enriched.batteryHealth === 'string' && enriched.batteryHealth.trim().length > 0
-            ? enriched.batteryHealth
-            : null,
-        condition:
-          typeof enriched.condition === 'string' && enriched.condition.trim().length > 0
-            ? enriched.condition
-            : null,
-      };
+    toEnrich = rawProducts.filter((product) => !cached.has(cacheKeys.get(product.id)!));
+
+    await prisma.scraperRun.update({
+      where: { id: run.id },
+      data: {
+        enrichCacheHits: { increment: hits.length },
+        enrichCacheMisses: { increment: toEnrich.length },
+      },
     });
-  } catch (error) {
-    console.error('Error during Gemini enrichment batch:', error);
-    return batch.map((product) => emptyResult(product.id));
+    console.log(
+      `Enrichment cache (prompt ${version}): ${hits.length} hit(s), ${toEnrich.length} miss(es)`,
+    );
   }
-}
 
-async function main() {
-  const rawProducts = loadRawProducts();
-  console.log(`Loaded ${rawProducts.length} products from products.json`);
+  const batches = chunk(toEnrich, BATCH_SIZE);
+  emitEvent({
+    type: 'enrich-started',
+    products: rawProducts.length,
+    batches: batches.length,
+    cached: rawProducts.length - toEnrich.length,
+  });
+  if (toEnrich.length === 0) {
+    console.log(`All ${rawProducts.length} products were enriched from the cache`);
+    emitEvent({ type: 'enrich-finished', products: rawProducts.length });
+    await prisma.$disconnect();
+    return;
+  }
 
-  let enrichBatchFn: (batch: RawProduct[]) => Promise<EnrichmentResult[]>;
-  if (PROVIDER === 'gemini') {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        'GEMINI_API_KEY is not set. Please set it before running "npm run enrich" with LLM_PROVIDER=gemini.',
-      );
-    }
-    const geminiClient = new GoogleGenAI({ apiKey });
-    enrichBatchFn = (batch) => enrichBatchWithGemini(geminiClient, batch);
-    console.log(`Using Gemini provider with model ${GEMINI_MODEL}`);
-  } else if (PROVIDER === 'openai') {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        'OPENAI_API_KEY is not set. Please set it before running "npm run enrich" with LLM_PROVIDER=openai.',
-      );
+  // Fields the rules are sure of are not asked of the LLM
+  const ruleFields = new Map<string, RuleFields>();
+  const inputs = new Map<string, EnrichmentInput>();
+  for (const product of toEnrich) {
+    const input = toEnrichmentInput(product);
+    const rules = RULES_ENABLED ? extractWithRules(input) : {};
+    if (Object.keys(rules).length > 0) {
+      ruleFields.set(product.id, rules);
+      input.known = rules;
     }
-    const openAiClient = new OpenAI({ apiKey });
-    enrichBatchFn = (batch) => enrichBatchWithOpenAI(openAiClient, batch);
-    console.log(`Using OpenAI provider with model ${OPENAI_MODEL}`);
-  } else {
-    throw new Error('Invalid LLM_PROVIDER. Supported values are "openai" and "gemini".');
+    inputs.set(product.id, input);
+  }
+  if (RULES_ENABLED) {
+    const fieldCount = Array.from(ruleFields.values()).reduce((sum, rules) => sum + Object.keys(rules).length, 0);
+    console.log(`Rules extracted ${fieldCount} field(s) for ${ruleFields.size} of ${toEnrich.length} product(s)`);
   }
 
-  const batches = chunk(rawProducts, BATCH_SIZE);
-  const enrichmentMap = new Map<string, EnrichmentResult>();
-
+  let failed = 0;
   for (let index = 0; index < batches.length; index++) {
+    if (stopRequested()) {
+      // Enriched batches are saved; the rest is picked up when the run resumes
+      console.log(`Stopped after ${index} of ${batches.length} batches; run #${run.id} can be resumed.`);
+      await finishStandaloneRun(run, 'CANCELLED');
+      await prisma.$disconnect();
+      process.exit(CANCELLED_EXIT_CODE);
+    }
+
     const batch = batches[index];
     console.log(
-      `Enriching batch ${index + 1}/${batches.length} (size ${batch.length}, provider ${PROVIDER})...`,
+      `Enriching batch ${index + 1}/${batches.length} (size ${batch.length}, provider ${provider.name})...`,
+    );
+    const enriched = await enrichBatch(
+      provider,
+      batch.map((product) => inputs.get(product.id)!),
+      categoryRules,
     );
-    const enriched = await enrichBatchFn(batch);
-    enriched.forEach((result) => {
-      enrichmentMap.set(result.id, result);
+    const results = enriched.results.map((result) => mergeRuleFields(result, ruleFields.get(result.id)));
+    // Failed products keep what the rules found, for the staging view; they are still not processed
+    const failures = enriched.failures.map((failure) => {
+      const rules = ruleFields.get(failure.id);
+      if (!rules) return failure;
+      const { id: _id, ...enrichment } = mergeRuleFields(emptyResult(failure.id), rules);
+      return { ...failure, enrichment };
     });
+    // Saved per batch, so a crash only loses the batch in flight
+    await saveEnrichment(run.id, await snapResults(run.id, catalog, categories, results));
+    if (useCache) {
+      // What the rules and the model said; snapping is redone on every use
+      await storeEnrichment(
+        results.map(({ id, ...enrichment }) => ({ key: cacheKeys.get(id)!, enrichment })),
+        version,
+        provider.model,
+      );
+    }
+    // Failures are not cached, so the product is tried again next run
+    if (failures.length > 0) {
+      await saveEnrichmentFailures(run.id, failures);
+      await prisma.scraperRun.update({
+        where: { id: run.id },
+        data: { enrichFailures: { increment: failures.length } },
+      });
+      const phones = new Map(batch.map((product) => [product.id, product.sellerPhone]));
+      for (const { id, reason } of failures) {
+        console.error(`Enrichment failed for product ${id}: ${reason}`);
+        emitEvent({ type: 'error', step: 'enrich', message: `Product ${id}: ${reason}`, phone: phones.get(id) });
+      }
+      failed += failures.length;
+    }
+    emitEvent({ type: 'batch-enriched', batch: index + 1, batches: batches.length, products: batch.length });
   }
 
-  const enrichedProducts: EnrichedProduct[] = rawProducts.map((product) => {
-    const enriched = enrichmentMap.get(product.id) ?? emptyResult(product.id);
-    return {
-      ...product,
-      modelName: enriched.modelName,
-      storageGb: enriched.storageGb,
-      color: enriched.color,
-      warranty: enriched.warranty,
-      batteryHealth: enriched.batteryHealth,
-      condition: enriched.condition,
-    };
-  });
-
-  fs.writeFileSync(ENRICHED_PRODUCTS_PATH, JSON.stringify(enrichedProducts, null, 2));
-  console.log(`Saved enriched products to ${ENRICHED_PRODUCTS_PATH}`);
+  console.log(
+    `Saved enrichment for ${rawProducts.length - failed} products to run #${run.id}` +
+      (failed > 0 ? `; ${failed} product(s) failed enrichment` : ''),
+  );
+  emitEvent({ type: 'enrich-finished', products: rawProducts.length });
+  await prisma.$disconnect();
 }
 
 main().catch((error) => {
   console.error('Enrichment failed:', error);
+  emitEvent({ type: 'error', step: 'enrich', message: errorMessage(error) });
   process.exit(1);
 });
 
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { enrichBatch } from './batch';
+import { EnrichmentInput, EnrichmentProvider, EnrichmentRequest } from './types';
+
+vi.hoisted(() => {
+  process.env.ENRICH_RETRIES = '1';
+  process.env.ENRICH_RETRY_DELAY_MS = '0';
+});
+
+function input(id: string): EnrichmentInput {
+  return { id, category: 'iphone', name: id, description: '', priceRaw: null, currency: null, availability: null };
+}
+
+function answer(id: string) {
+  return { id, modelName: 'iPhone 13', storageGb: '', color: '', warranty: '', batteryHealth: '', condition: '' };
+}
+
+// A provider that answers every product except the ids `drops` says to leave
+// out of a call, and records the ids each call was for
+function flakyProvider(drops: (ids: string[], call: number) => string[]): EnrichmentProvider & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    name: 'flaky',
+    model: 'flaky',
+    calls,
+    async complete({ products }: EnrichmentRequest) {
+      const ids = products.map((product) => product.id);
+      calls.push(ids);
+      const dropped = drops(ids, calls.length);
+      return JSON.stringify(ids.filter((id) => !dropped.includes(id)).map(answer));
+    },
+  };
+}
+
+const ids = (items: { id: string }[]) => items.map(({ id }) => id).sort();
+
+describe('enrichBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('makes one call when every product is answered', async () => {
+    const provider = flakyProvider(() => []);
+    const { results, failures } = await enrichBatch(provider, ['a', 'b', 'c'].map(input), '');
+    expect(ids(results)).toEqual(['a', 'b', 'c']);
+    expect(failures).toEqual([]);
+    expect(provider.calls).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('retries only the products that failed', async () => {
+    const provider = flakyProvider((_, call) => (call === 1 ? ['b'] : []));
+    const { results, failures } = await enrichBatch(provider, ['a', 'b', 'c'].map(input), '');
+    expect(ids(results)).toEqual(['a', 'b', 'c']);
+    expect(failures).toEqual([]);
+    expect(provider.calls).toEqual([['a', 'b', 'c'], ['b']]);
+  });
+
+  it('splits products still failing after the retries down to single products', async () => {
+    // 'd' poisons any call it is part of; the others go through once it is on its own
+    const provider = flakyProvider((batch) => (batch.includes('d') ? batch : []));
+    const { results, failures } = await enrichBatch(provider, ['a', 'b', 'c', 'd'].map(input), '');
+
+    expect(ids(results)).toEqual(['a', 'b', 'c']);
+    expect(failures).toEqual([{ id: 'd', reason: 'missing from the output' }]);
+    expect(provider.calls).toEqual([
+      ['a', 'b', 'c', 'd'],
+      ['a', 'b', 'c', 'd'],
+      ['a', 'b'],
+      ['c', 'd'],
+      ['c', 'd'],
+      ['c'],
+      ['d'],
+      ['d'],
+    ]);
+  });
+
+  it('fails every product of a call that throws, with the reason', async () => {
+    const provider: EnrichmentProvider = {
+      name: 'down',
+      model: 'down',
+      complete: async () => {
+        throw new Error('429 quota exceeded');
+      },
+    };
+    const { results, failures } = await enrichBatch(provider, [input('a')], '');
+    expect(results).toEqual([]);
+    expect(failures).toEqual([{ id: 'a', reason: 'down call failed: 429 quota exceeded' }]);
+  });
+
+  it('retries a batch whose provider call keeps failing as a whole, without splitting it', async () => {
+    const calls: string[][] = [];
+    const provider: EnrichmentProvider = {
+      name: 'down',
+      model: 'down',
+      complete: async ({ products }) => {
+        calls.push(products.map(({ id }) => id));
+        throw new Error('503 service unavailable');
+      },
+    };
+    const batch = Array.from({ length: 20 }, (_, i) => input(`p${i}`));
+    const { results, failures, callFailed } = await enrichBatch(provider, batch, '');
+
+    expect(results).toEqual([]);
+    expect(failures).toHaveLength(20);
+    expect(callFailed).toBe(true);
+    expect(calls).toHaveLength(2);
+    expect(calls.every((ids) => ids.length === 20)).toBe(true);
+  });
+
+  it('stops splitting when the provider goes down mid-split', async () => {
+    let call = 0;
+    const provider: EnrichmentProvider = {
+      name: 'flaky',
+      model: 'flaky',
+      complete: async ({ products }) => {
+        call += 1;
+        if (call > 2) throw new Error('connection reset');
+        return JSON.stringify(products.filter(({ id }) => id === 'a' || id === 'b').map(({ id }) => answer(id)));
+      },
+    };
+    const { results, failures, callFailed } = await enrichBatch(provider, ['a', 'b', 'c', 'd'].map(input), '');
+
+    // 'c' and 'd' go unanswered and are split; the provider is down by the time 'c' goes alone
+    expect(ids(results)).toEqual(['a', 'b']);
+    expect(failures).toEqual([
+      { id: 'c', reason: 'flaky call failed: connection reset' },
+      { id: 'd', reason: 'flaky call failed: connection reset' },
+    ]);
+    expect(callFailed).toBe(true);
+    expect(call).toBe(4);
+  });
+
+  it('fails products of an unparseable answer', async () => {
+    const provider: EnrichmentProvider = { name: 'chatty', model: 'chatty', complete: async () => 'No JSON here' };
+    const { failures } = await enrichBatch(provider, [input('a')], '');
+    expect(failures).toHaveLength(1);
+    expect(failures[0].reason).toMatch(/^unparseable chatty output: /);
+  });
+
+  it('does nothing for an empty batch', async () => {
+    const provider = flakyProvider(() => []);
+    expect(await enrichBatch(provider, [], '')).toEqual({ results: [], failures: [] });
+    expect(provider.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { errorMessage } from '../pipeline/events';
+import { sleep } from '../utils/retry';
+import { buildEnrichmentPrompt, parseEnrichmentOutput } from './prompt';
+import { BatchEnrichment, EnrichmentFailure, EnrichmentInput, EnrichmentProvider } from './types';
+
+// Extra attempts at the products still failing, for a batch and again for each split of it;
+// a batch whose provider call keeps failing is only retried whole, never split
+const RETRIES = Number(process.env.ENRICH_RETRIES ?? 1);
+const RETRY_DELAY_MS = Number(process.env.ENRICH_RETRY_DELAY_MS ?? 1000);
+
+// One call for `items`. A failed call or an unusable answer fails every item;
+// a failed call is flagged as such.
+async function enrichOnce(
+  provider: EnrichmentProvider,
+  items: EnrichmentInput[],
+  categoryRules: string,
+): Promise<BatchEnrichment> {
+  let text: string;
+  try {
+    text = await provider.complete({ prompt: buildEnrichmentPrompt(items, categoryRules), products: items });
+  } catch (error) {
+    const reason = `${provider.name} call failed: ${errorMessage(error)}`;
+    return { results: [], failures: items.map(({ id }) => ({ id, reason })), callFailed: true };
+  }
+
+  try {
+    return parseEnrichmentOutput(text, items);
+  } catch (error) {
+    const reason = `unparseable ${provider.name} output: ${errorMessage(error)}`;
+    return { results: [], failures: items.map(({ id }) => ({ id, reason })) };
+  }
+}
+
+// Calls for `items`, then up to RETRIES more times for those still failing, backing off in between
+async function enrichWithRetries(
+  provider: EnrichmentProvider,
+  items: EnrichmentInput[],
+  categoryRules: string,
+): Promise<BatchEnrichment> {
+  const outcome = await enrichOnce(provider, items, categoryRules);
+  const results = [...outcome.results];
+  let failures = outcome.failures;
+  let callFailed = outcome.callFailed;
+
+  for (let attempt = 1; attempt <= RETRIES && failures.length > 0; attempt++) {
+    console.warn(
+      `${failures.length} of ${items.length} product(s) failed enrichment (${failures[0].reason}); ` +
+        `retrying (attempt ${attempt + 1}/${RETRIES + 1})...`,
+    );
+    await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    const failedIds = new Set(failures.map(({ id }) => id));
+    const retry = await enrichOnce(
+      provider,
+      items.filter(({ id }) => failedIds.has(id)),
+      categoryRules,
+    );
+    results.push(...retry.results);
+    failures = retry.failures;
+    callFailed = retry.callFailed;
+  }
+
+  return callFailed ? { results, failures, callFailed } : { results, failures };
+}
+
+/**
+ * Enriches one batch with `provider`, matching the answer to the products by
+ * id. Products without a valid result are retried, then split in halves
+ * (retried in turn) down to one product per call. When the provider call
+ * itself keeps failing, splitting would only multiply the calls to a provider
+ * that is down, so the batch fails as a whole. What fails comes back in
+ * `failures`; nothing is silently left empty.
+ */
+export async function enrichBatch(
+  provider: EnrichmentProvider,
+  batch: EnrichmentInput[],
+  categoryRules: string,
+): Promise<BatchEnrichment> {
+  if (batch.length === 0) {
+    return { results: [], failures: [] };
+  }
+
+  const outcome = await enrichWithRetries(provider, batch, categoryRules);
+  if (outcome.failures.length === 0 || outcome.callFailed || batch.length === 1) {
+    return outcome;
+  }
+
+  const failedIds = new Set(outcome.failures.map(({ id }) => id));
+  const failed = batch.filter(({ id }) => failedIds.has(id));
+  const middle = Math.ceil(failed.length / 2);
+  const parts = failed.length === 1 ? [failed] : [failed.slice(0, middle), failed.slice(middle)];
+  console.warn(
+    failed.length === 1
+      ? `Retrying product ${failed[0].id} on its own`
+      : `Splitting ${failed.length} failing products into batches of ${parts[0].length} and ${parts[1].length}`,
+  );
+
+  const results = [...outcome.results];
+  const failures: EnrichmentFailure[] = [];
+  for (const [index, part] of parts.entries()) {
+    const split = await enrichBatch(provider, part, categoryRules);
+    results.push(...split.results);
+    failures.push(...split.failures);
+    if (split.callFailed) {
+      // The provider went down mid-split: the parts left fail without a call
+      const reason = split.failures[0].reason;
+      const rest = parts.slice(index + 1).flat();
+      failures.push(...rest.map(({ id }) => ({ id, reason })));
+      return { results, failures, callFailed: true };
+    }
+  }
+  return { results, failures };
+}
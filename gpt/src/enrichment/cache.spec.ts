@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { enrichmentCacheKey, promptVersion } from './cache';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+const product = { category: 'iphone', name: 'iPhone 13 128GB', description: 'Like new' };
+const openai = { name: 'openai', model: 'gpt-4o-mini' };
+
+describe('enrichmentCacheKey', () => {
+  it('is the same for the same listing, prompt and model', () => {
+    const version = promptVersion('iPhone 13');
+    expect(enrichmentCacheKey({ ...product }, version, { ...openai })).toBe(
+      enrichmentCacheKey(product, version, openai),
+    );
+  });
+
+  it('changes with the listing and the prompt', () => {
+    const version = promptVersion('iPhone 13');
+    const key = enrichmentCacheKey(product, version, openai);
+    expect(enrichmentCacheKey({ ...product, description: 'Used' }, version, openai)).not.toBe(key);
+    expect(enrichmentCacheKey({ ...product, category: 'ipad' }, version, openai)).not.toBe(key);
+    expect(enrichmentCacheKey(product, promptVersion('iPhone 13, iPhone 14'), openai)).not.toBe(key);
+  });
+
+  it('changes with the provider and model that answer', () => {
+    const version = promptVersion('iPhone 13');
+    const key = enrichmentCacheKey(product, version, openai);
+    expect(enrichmentCacheKey(product, version, { ...openai, model: 'gpt-4o' })).not.toBe(key);
+    expect(enrichmentCacheKey(product, version, { name: 'gemini', model: 'gpt-4o-mini' })).not.toBe(key);
+  });
+});
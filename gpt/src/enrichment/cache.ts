@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db/client';
+import { ProductEnrichment } from '../pipeline/staging';
+import { EnrichmentProvider } from './types';
+
+// Enrichment results cached by what the LLM saw (enrichment_cache), so only
+// new or changed listings are sent to the provider. Entries are keyed by a
+// hash of the product's category, name and description together with the
+// prompt version and the provider and model that answered, so switching
+// models starts from an empty cache; bump ENRICH_PROMPT_VERSION whenever the
+// prompt, the rules (./rules) or what the answers mean change.
+
+export const ENRICH_PROMPT_VERSION = '3';
+
+export const CACHE_ENABLED = process.env.ENRICH_CACHE !== 'false';
+// Entries not used for this long are dropped at the start of an enrich; 0 keeps them all
+const CACHE_RETENTION_DAYS = Number(process.env.ENRICH_CACHE_RETENTION_DAYS ?? 90);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Version of the prompt the cache keys include. The category rules (valid
+ * models per category) are part of the prompt, so editing them invalidates
+ * the cache as well.
+ */
+export function promptVersion(categoryRules: string): string {
+  const rules = crypto.createHash('sha256').update(categoryRules).digest('hex').slice(0, 12);
+  return `${ENRICH_PROMPT_VERSION}-${rules}`;
+}
+
+export function enrichmentCacheKey(
+  product: { category?: string | null; name?: string | null; description?: string | null },
+  version: string,
+  provider: Pick<EnrichmentProvider, 'name' | 'model'>,
+): string {
+  const base = [
+    version,
+    provider.name,
+    provider.model,
+    product.category ?? '',
+    product.name ?? '',
+    product.description ?? '',
+  ].join('|');
+  return crypto.createHash('sha256').update(base).digest('hex');
+}
+
+// Cached enrichment for each of `keys` that has one; marks them used
+export async function lookupEnrichment(keys: string[]): Promise<Map<string, ProductEnrichment>> {
+  const unique = Array.from(new Set(keys));
+  if (unique.length === 0) return new Map();
+
+  const rows: { contentHash: string; enrichment: unknown }[] = await prisma.enrichmentCache.findMany({
+    where: { contentHash: { in: unique } },
+    select: { contentHash: true, enrichment: true },
+  });
+  if (rows.length > 0) {
+    await prisma.enrichmentCache.updateMany({
+      where: { contentHash: { in: rows.map((row) => row.contentHash) } },
+      data: { lastUsedAt: new Date(), hits: { increment: 1 } },
+    });
+  }
+
+  return new Map(rows.map((row) => [row.contentHash, row.enrichment as ProductEnrichment]));
+}
+
+export async function storeEnrichment(
+  entries: { key: string; enrichment: ProductEnrichment }[],
+  version: string,
+  model: string,
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  // A batch can hold the same listing twice (e.g. two sellers posting it)
+  const byKey = new Map(entries.map((entry) => [entry.key, entry.enrichment]));
+  await prisma.enrichmentCache.createMany({
+    data: Array.from(byKey, ([contentHash, enrichment]) => ({
+      contentHash,
+      promptVersion: version,
+      model,
+      enrichment: enrichment as unknown as Prisma.InputJsonValue,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+export async function pruneEnrichmentCache(now = new Date()): Promise<number> {
+  if (CACHE_RETENTION_DAYS <= 0) return 0;
+  const { count } = await prisma.enrichmentCache.deleteMany({
+    where: { lastUsedAt: { lt: new Date(now.getTime() - CACHE_RETENTION_DAYS * DAY_MS) } },
+  });
+  return count;
+}
@@ -0,0 +1,25 @@
+import { GoogleGenAI } from '@google/genai';
+
+import { EnrichmentProvider, EnrichmentRequest } from './types';
+
+export class GeminiProvider implements EnrichmentProvider {
+  readonly name = 'gemini';
+  private readonly client: GoogleGenAI;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+  ) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async complete({ prompt }: EnrichmentRequest): Promise<string> {
+    const response = await this.client.models.generateContent({ model: this.model, contents: prompt });
+    // `text` is a getter in current SDK versions and a method in older ones
+    const raw = typeof (response as any).text === 'function' ? (response as any).text() : (response as any).text;
+    if (typeof raw !== 'string' || !raw) {
+      throw new Error('response had no text');
+    }
+    return raw;
+  }
+}
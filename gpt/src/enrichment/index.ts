@@ -0,0 +1,61 @@
+import { DeviceCatalog } from '../device-models';
+import { GeminiProvider } from './gemini-provider';
+import { MockProvider } from './mock-provider';
+import { OpenAICompatibleProvider, OpenAIProvider } from './openai-provider';
+import { EnrichmentProvider } from './types';
+
+export * from './types';
+export * from './cache';
+export * from './prompt';
+export * from './batch';
+export * from './rules';
+export * from './snap';
+export * from './gemini-provider';
+export * from './mock-provider';
+export * from './openai-provider';
+
+const PROVIDERS = ['openai', 'gemini', 'openai-compatible', 'mock'];
+
+// Picks the provider from LLM_PROVIDER. LLM_MODEL is the model of providers whose own
+// model variable (OPENAI_MODEL, GEMINI_MODEL) is unset, and required for openai-compatible.
+// The mock answers from `catalog`.
+export function createEnrichmentProvider(catalog: DeviceCatalog): EnrichmentProvider {
+  const kind = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  const globalModel = (process.env.LLM_MODEL || '').trim() || undefined;
+
+  if (kind === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        'OPENAI_API_KEY is not set. Please set it before running "npm run enrich" with LLM_PROVIDER=openai.',
+      );
+    }
+    return new OpenAIProvider(apiKey, process.env.OPENAI_MODEL || globalModel || 'gpt-5-nano');
+  }
+
+  if (kind === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        'GEMINI_API_KEY is not set. Please set it before running "npm run enrich" with LLM_PROVIDER=gemini.',
+      );
+    }
+    return new GeminiProvider(apiKey, process.env.GEMINI_MODEL || globalModel || 'gemini-2.0-flash-001');
+  }
+
+  if (kind === 'openai-compatible') {
+    const baseUrl = process.env.LLM_BASE_URL;
+    if (!baseUrl || !globalModel) {
+      throw new Error(
+        'LLM_BASE_URL and LLM_MODEL must be set with LLM_PROVIDER=openai-compatible, e.g. http://localhost:11434/v1 and llama3.1.',
+      );
+    }
+    return new OpenAICompatibleProvider(baseUrl, globalModel, process.env.LLM_API_KEY);
+  }
+
+  if (kind === 'mock') {
+    return new MockProvider(catalog);
+  }
+
+  throw new Error(`Invalid LLM_PROVIDER. Supported values are ${PROVIDERS.map((p) => `"${p}"`).join(', ')}.`);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { DeviceCatalog, DeviceModel } from '../device-models';
+import { MockProvider } from './mock-provider';
+import { EnrichmentInput } from './types';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+function model(canonicalName: string): DeviceModel {
+  return { category: 'iphone', canonicalName, aliases: [], releaseYear: null, storageOptions: [], colors: [] };
+}
+
+function input(id: string, name: string, description = '', category: string | null = 'iphone'): EnrichmentInput {
+  return { id, category, name, description, priceRaw: null, currency: null, availability: null };
+}
+
+function answer(id: string, modelName: string, storageGb = '') {
+  return { id, modelName, storageGb, color: '', warranty: '', batteryHealth: '', condition: '' };
+}
+
+describe('MockProvider', () => {
+  const provider = new MockProvider(new DeviceCatalog([model('iPhone 15'), model('iPhone 15 Pro Max')]));
+
+  it('answers with the longest catalog model in the name and the first storage size', async () => {
+    const answers = await provider.complete({
+      prompt: '',
+      products: [
+        input('a', 'iPhone 15 Pro Max 256gb'),
+        input('b', 'IPHONE 15', 'also in 512 GB'),
+        input('c', 'Pixel 8 128GB'),
+        input('d', 'iPhone 15', '', null),
+      ],
+    });
+    expect(JSON.parse(answers)).toEqual([
+      answer('a', 'iPhone 15 Pro Max', '256 GB'),
+      answer('b', 'iPhone 15', '512 GB'),
+      answer('c', 'EXCLUDE', '128 GB'),
+      answer('d', 'EXCLUDE'),
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { DeviceCatalog } from '../device-models';
+import { EnrichmentInput, EnrichmentProvider, EnrichmentRequest } from './types';
+
+// Answers without calling any LLM, the same way every time, so the pipeline
+// can be run end to end in tests and offline (LLM_PROVIDER=mock). The model is
+// the longest catalog model of the product's category found in its name, and
+// the storage the first "<n> GB/TB" in its name or description.
+export class MockProvider implements EnrichmentProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  constructor(private readonly catalog: DeviceCatalog) {}
+
+  async complete({ products }: EnrichmentRequest): Promise<string> {
+    return JSON.stringify(products.map((product) => this.answer(product)));
+  }
+
+  private answer(product: EnrichmentInput) {
+    const models = product.category
+      ? this.catalog.modelsOf(product.category).map((model) => model.canonicalName)
+      : [];
+    const name = product.name.toLowerCase();
+    const modelName = models
+      .filter((model) => name.includes(model.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    const storage = `${product.name} ${product.description}`.match(/(\d+)\s*(gb|tb)\b/i);
+
+    return {
+      id: product.id,
+      modelName: modelName ?? 'EXCLUDE',
+      storageGb: storage ? `${storage[1]} ${storage[2].toUpperCase()}` : '',
+      color: '',
+      warranty: '',
+      batteryHealth: '',
+      condition: '',
+    };
+  }
+}
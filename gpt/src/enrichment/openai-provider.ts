@@ -0,0 +1,55 @@
+import OpenAI from 'openai';
+
+import { EnrichmentProvider, EnrichmentRequest } from './types';
+
+// OpenAI's hosted models, through the Responses API
+export class OpenAIProvider implements EnrichmentProvider {
+  readonly name = 'openai';
+  private readonly client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+  ) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete({ prompt }: EnrichmentRequest): Promise<string> {
+    const response = await this.client.responses.create({ model: this.model, input: prompt });
+    const text = (response as any).output_text as string | undefined;
+    if (!text) {
+      throw new Error('response had no output_text');
+    }
+    return text;
+  }
+}
+
+// Any server speaking the OpenAI Chat Completions API at `baseURL`, e.g. a
+// local Ollama (http://localhost:11434/v1) or llama.cpp server. Most of them
+// ignore the API key, so it may be empty.
+export class OpenAICompatibleProvider implements EnrichmentProvider {
+  readonly name = 'openai-compatible';
+  private readonly client: OpenAI;
+
+  constructor(
+    baseURL: string,
+    readonly model: string,
+    apiKey = '',
+  ) {
+    // The SDK insists on a key
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' });
+  }
+
+  async complete({ prompt }: EnrichmentRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+    });
+    const text = response.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error('response had no message content');
+    }
+    return text;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildEnrichmentPrompt, parseEnrichmentOutput } from './prompt';
+import { EnrichmentInput } from './types';
+
+function input(id: string): EnrichmentInput {
+  return {
+    id,
+    category: 'iphone',
+    name: `iPhone 13 ${id}`,
+    description: '',
+    priceRaw: null,
+    currency: null,
+    availability: null,
+  };
+}
+
+function answer(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    modelName: 'iPhone 13',
+    storageGb: '128 GB',
+    color: '',
+    warranty: '',
+    batteryHealth: '',
+    condition: 'Used',
+    ...overrides,
+  };
+}
+
+const batch = [input('a'), input('b')];
+
+describe('parseEnrichmentOutput', () => {
+  it('matches elements to products by id, not position, and blanks empty fields', () => {
+    const output = JSON.stringify([answer('b', { storageGb: '256 GB' }), answer('a')]);
+    const { results, failures } = parseEnrichmentOutput(output, batch);
+
+    expect(failures).toEqual([]);
+    const result = (id: string, storageGb: string) => ({
+      id,
+      modelName: 'iPhone 13',
+      storageGb,
+      color: null,
+      warranty: null,
+      batteryHealth: null,
+      condition: 'Used',
+    });
+    expect(results).toEqual([result('a', '128 GB'), result('b', '256 GB')]);
+  });
+
+  it('takes the JSON out of code fences and prose', () => {
+    const output = `Here you go:\n\`\`\`json\n${JSON.stringify([answer('a'), answer('b')])}\n\`\`\`\nAnything else?`;
+    expect(parseEnrichmentOutput(output, batch).results).toHaveLength(2);
+  });
+
+  it('fails products that are missing or answered more than once', () => {
+    const output = JSON.stringify([answer('a'), answer('a'), answer('B')]);
+    expect(parseEnrichmentOutput(output, batch)).toEqual({
+      results: [],
+      failures: [
+        { id: 'a', reason: 'answered 2 times' },
+        { id: 'b', reason: 'missing from the output (1 element(s) had unknown ids)' },
+      ],
+    });
+  });
+
+  it('fails elements that do not fit the result schema', () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [answer('a', { price: '100' }), 'unexpected key(s) price'],
+      [answer('a', { color: undefined }), 'color is missing'],
+      [answer('a', { storageGb: 128 }), 'storageGb is not a string'],
+      [answer('a', { condition: 'x'.repeat(201) }), 'condition is too long'],
+      [answer('a', { modelName: '  ' }), 'modelName is empty'],
+    ];
+    for (const [element, reason] of cases) {
+      const { failures } = parseEnrichmentOutput(JSON.stringify([element, answer('b')]), batch);
+      expect(failures).toEqual([{ id: 'a', reason }]);
+    }
+  });
+
+  it('accepts null fields', () => {
+    const output = JSON.stringify([answer('a', { color: null }), answer('b')]);
+    expect(parseEnrichmentOutput(output, batch).failures).toEqual([]);
+  });
+
+  it('throws when the answer is not a JSON array', () => {
+    expect(() => parseEnrichmentOutput('{"id": "a"}', batch)).toThrow('output is not an array');
+    expect(() => parseEnrichmentOutput('Sorry, I cannot help with that.', batch)).toThrow();
+  });
+});
+
+describe('buildEnrichmentPrompt', () => {
+  it('includes the category rules and the products', () => {
+    const prompt = buildEnrichmentPrompt([{ ...input('a'), known: { storageGb: '128 GB' } }], '- iphone: iPhone 13');
+    expect(prompt).toContain('- iphone: iPhone 13');
+    expect(prompt).toContain('"id": "a"');
+    expect(prompt).toContain('"storageGb": "128 GB"');
+  });
+});
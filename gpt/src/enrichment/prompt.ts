@@ -0,0 +1,157 @@
+import { EnrichedProduct } from '../types';
+import { BatchEnrichment, ENRICHMENT_FIELDS, EnrichmentFailure, EnrichmentInput, EnrichmentResult } from './types';
+
+// The enrichment prompt and the parsing of its answer, shared by every provider
+
+// Longer values are the model rambling (or echoing the description), not an extracted field
+const MAX_FIELD_LENGTH = 200;
+
+export function toEnrichmentInput(product: EnrichedProduct): EnrichmentInput {
+  return {
+    id: product.id,
+    category: product.category ?? null,
+    name: product.name ?? '',
+    description: product.description ?? '',
+    priceRaw: product.priceRaw ?? null,
+    currency: product.currency ?? null,
+    availability: product.availability ?? null,
+  };
+}
+
+export function emptyResult(id: string): EnrichmentResult {
+  return {
+    id,
+    modelName: null,
+    storageGb: null,
+    color: null,
+    warranty: null,
+    batteryHealth: null,
+    condition: null,
+  };
+}
+
+// `categoryRules` lists the valid models per category (describeCategoriesForPrompt)
+export function buildEnrichmentPrompt(products: EnrichmentInput[], categoryRules: string): string {
+  return `
+You are a product catalog normalization assistant for used/new devices.
+
+IMPORTANT VALIDATION RULES:
+Each product has a "category". Only the models listed for that category are valid:
+${categoryRules}
+If a product is NOT one of its category's valid models (or it's an accessory), set modelName to "EXCLUDE".
+
+For each input product, extract:
+- "modelName": Normalized model name, spelled exactly as in the valid model list (e.g. "iPhone 14 Pro Max"). Set to "EXCLUDE" if not a valid model for its category or if it's an accessory.
+- "storageGb": Storage capacity with unit (e.g. "128 GB").
+- "color": Short color description.
+- "warranty": Short warranty description if present, else "".
+- "batteryHealth": Battery health percentage if present (e.g. "85%", "90%"), else "". Note: also commonly written as "BH" or "bh".
+- "condition": Product condition (e.g. "New", "Used", "Like new", "Refurbished", "Minor scratches", "Dents", "Excellent"). Extract from name/description, else "".
+
+Some products have a "known" object with fields that were already extracted. Do not extract those again: set them to "".
+
+Return a STRICT JSON array with one element per input product, with exactly these keys:
+["id","modelName","storageGb","color","warranty","batteryHealth","condition"].
+"id" must be the product's id, copied unchanged. Every other value must be a string ("" when unknown).
+Do not include any extra text before or after the JSON.
+
+Products:
+${JSON.stringify(products, null, 2)}
+  `.trim();
+}
+
+// Models wrap JSON in code fences or prose despite the prompt; takes the JSON part
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?([\s\S]*?)```/i);
+  if (fenced?.[1]) return fenced[1].trim();
+  const bracketMatch = text.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
+  return bracketMatch?.[1] ? bracketMatch[1].trim() : text.trim();
+}
+
+// Blank strings count as missing
+function cleanField(value: string | null): string | null {
+  return value !== null && value.trim().length > 0 ? value : null;
+}
+
+/**
+ * Checks one element of the answer against the result schema: an object with
+ * exactly the result keys, a string id, a non-empty modelName and string (or
+ * null) fields of sane length. Returns why it does not fit, or null.
+ */
+function schemaViolation(item: unknown): string | null {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return 'not an object';
+  }
+  const record = item as Record<string, unknown>;
+  if (typeof record.id !== 'string') {
+    return 'id is not a string';
+  }
+
+  const allowed: readonly string[] = ['id', ...ENRICHMENT_FIELDS];
+  const extra = Object.keys(record).filter((key) => !allowed.includes(key));
+  if (extra.length > 0) {
+    return `unexpected key(s) ${extra.join(', ')}`;
+  }
+  for (const key of ENRICHMENT_FIELDS) {
+    const value = record[key];
+    if (value === undefined) return `${key} is missing`;
+    if (value !== null && typeof value !== 'string') return `${key} is not a string`;
+    if (typeof value === 'string' && value.length > MAX_FIELD_LENGTH) return `${key} is too long`;
+  }
+  if (cleanField(record.modelName as string | null) === null) {
+    return 'modelName is empty';
+  }
+  return null;
+}
+
+/**
+ * Turns a provider's answer into a result for each product of `batch`,
+ * matched by id. Throws when the answer is not a JSON array. Products whose
+ * id the array has no valid element for, or several, are failures; elements
+ * for ids outside the batch are ignored.
+ */
+export function parseEnrichmentOutput(text: string, batch: EnrichmentInput[]): BatchEnrichment {
+  const parsed: unknown = JSON.parse(extractJson(text));
+  if (!Array.isArray(parsed)) {
+    throw new Error('output is not an array');
+  }
+
+  const wanted = new Set(batch.map((product) => product.id));
+  const answers = new Map<string, unknown[]>();
+  let unmatched = 0;
+  for (const item of parsed) {
+    const id = item && typeof item === 'object' ? (item as Record<string, unknown>).id : undefined;
+    if (typeof id !== 'string' || !wanted.has(id)) {
+      unmatched += 1;
+      continue;
+    }
+    answers.set(id, [...(answers.get(id) ?? []), item]);
+  }
+
+  const results: EnrichmentResult[] = [];
+  const failures: EnrichmentFailure[] = [];
+  for (const { id } of batch) {
+    const items = answers.get(id) ?? [];
+    if (items.length > 1) {
+      failures.push({ id, reason: `answered ${items.length} times` });
+      continue;
+    }
+    if (items.length === 0) {
+      // Unmatched elements are usually this product's answer under a mangled id
+      const hint = unmatched > 0 ? ` (${unmatched} element(s) had unknown ids)` : '';
+      failures.push({ id, reason: `missing from the output${hint}` });
+      continue;
+    }
+    const violation = schemaViolation(items[0]);
+    if (violation) {
+      failures.push({ id, reason: violation });
+      continue;
+    }
+    const result = emptyResult(id);
+    for (const key of ENRICHMENT_FIELDS) {
+      result[key] = cleanField((items[0] as Record<string, string | null>)[key]);
+    }
+    results.push(result);
+  }
+  return { results, failures };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { emptyResult } from './prompt';
+import { extractWithRules, mergeRuleFields } from './rules';
+import { EnrichmentInput } from './types';
+
+function product(name: string, description = ''): EnrichmentInput {
+  return { id: '1', category: 'iphone', name, description, priceRaw: null, currency: null, availability: null };
+}
+
+describe('extractWithRules', () => {
+  it('reads storage, battery health, color and condition', () => {
+    expect(extractWithRules(product('iPhone 14 Pro 256gb Deep Purple', 'BH 89, like new'))).toEqual({
+      storageGb: '256 GB',
+      batteryHealth: '89%',
+      color: 'Deep Purple',
+      condition: 'Like new',
+    });
+  });
+
+  it('spells storage with a space and an upper-case unit, and knows terabytes', () => {
+    expect(extractWithRules(product('iPhone 15 Pro Max 1TB')).storageGb).toBe('1 TB');
+    expect(extractWithRules(product('iPhone 13', 'Storage: 128 GB')).storageGb).toBe('128 GB');
+  });
+
+  it('ignores RAM and sizes phones are not sold with', () => {
+    expect(extractWithRules(product('Galaxy S23 8GB RAM 256GB')).storageGb).toBe('256 GB');
+    expect(extractWithRules(product('iPhone 13 100GB')).storageGb).toBeUndefined();
+  });
+
+  it('reads battery health however it is written, within 50-100%', () => {
+    expect(extractWithRules(product('iPhone 12', 'battery health 92%')).batteryHealth).toBe('92%');
+    expect(extractWithRules(product('iPhone 12 88% BH')).batteryHealth).toBe('88%');
+    expect(extractWithRules(product('iPhone 12', 'Battery: 100')).batteryHealth).toBe('100%');
+    expect(extractWithRules(product('iPhone 12', 'battery 30')).batteryHealth).toBeUndefined();
+  });
+
+  it('takes the longest color name and spells gray the official way', () => {
+    expect(extractWithRules(product('iPhone 8 Rose Gold')).color).toBe('Rose Gold');
+    expect(extractWithRules(product('iPhone X space grey')).color).toBe('Space Gray');
+    expect(extractWithRules(product('iPhone 11 Grey')).color).toBe('Gray');
+  });
+
+  it('reads colors from the name only', () => {
+    expect(extractWithRules(product('iPhone 13', 'comes with a black case')).color).toBeUndefined();
+  });
+
+  it('reads clear-cut conditions only', () => {
+    expect(extractWithRules(product('iPhone 13', 'sealed pack')).condition).toBe('New');
+    expect(extractWithRules(product('iPhone 13 refurb')).condition).toBe('Refurbished');
+    expect(extractWithRules(product('iPhone 13', 'pre-owned')).condition).toBe('Used');
+    expect(extractWithRules(product('iPhone 13', 'brand new battery')).condition).toBeUndefined();
+  });
+
+  it('leaves ambiguous fields to the LLM', () => {
+    expect(extractWithRules(product('iPhone 13 128GB/256GB Black/White', 'like new, used 2 months'))).toEqual({});
+  });
+
+  it('prefers the name over the description', () => {
+    expect(extractWithRules(product('iPhone 13 128GB', 'also have 256GB and 512GB')).storageGb).toBe('128 GB');
+  });
+});
+
+describe('mergeRuleFields', () => {
+  it('puts the rule fields over the model output and records where each came from', () => {
+    const result = { ...emptyResult('1'), modelName: 'iPhone 13', storageGb: '64 GB', warranty: '3 months' };
+    expect(mergeRuleFields(result, { storageGb: '128 GB', color: 'Blue' })).toEqual({
+      ...result,
+      storageGb: '128 GB',
+      color: 'Blue',
+      sources: { modelName: 'llm', storageGb: 'rules', color: 'rules', warranty: 'llm' },
+    });
+  });
+
+  it('records only model sources without rule fields', () => {
+    const merged = mergeRuleFields({ ...emptyResult('1'), modelName: 'iPhone 13' });
+    expect(merged.sources).toEqual({ modelName: 'llm' });
+  });
+});
@@ -0,0 +1,114 @@
+import { ENRICHMENT_FIELDS, EnrichmentField, EnrichmentInput, EnrichmentResult, FieldSources } from './types';
+
+// Deterministic extraction of the fields listings spell out in a handful of
+// ways (storage, battery health, common colors and conditions), run before
+// the LLM. A field is only filled in when the text leaves no doubt, i.e. one
+// distinct value is found; anything ambiguous is left to the model.
+
+export const RULES_ENABLED = process.env.ENRICH_RULES !== 'false';
+
+export type RuleFields = Partial<Record<EnrichmentField, string>>;
+
+// Storage sizes devices are actually sold with; "8GB" next to "256GB" is RAM
+const STORAGE_SIZES = new Set(['32 GB', '64 GB', '128 GB', '256 GB', '512 GB', '1 TB', '2 TB', '4 TB', '8 TB']);
+const STORAGE_PATTERN = /\b(\d{1,4})\s*(gb|tb)\b(?!\s*(?:ram|memory))/gi;
+
+const BATTERY_PATTERNS = [
+  /\b(?:bh|battery(?:\s*health)?)\s*[:=-]?\s*(\d{2,3})\b/gi,
+  /\b(\d{2,3})\s*%\s*(?:bh|battery)\b/gi,
+];
+
+// Longest names first, so "Rose Gold" is not also read as "Gold"
+const COLORS = [
+  'Natural Titanium', 'Black Titanium', 'White Titanium', 'Blue Titanium', 'Desert Titanium',
+  'Deep Purple', 'Space Black', 'Space Gray', 'Space Grey', 'Sierra Blue', 'Alpine Green', 'Pacific Blue',
+  'Rose Gold', 'Jet Black', 'Product Red',
+  'Midnight', 'Starlight', 'Graphite', 'Lavender', 'Phantom Black',
+  'Black', 'White', 'Silver', 'Gold', 'Blue', 'Red', 'Green', 'Purple', 'Pink', 'Yellow', 'Gray', 'Grey',
+  'Orange', 'Teal', 'Ultramarine',
+].sort((a, b) => b.length - a.length);
+const COLOR_SPELLINGS: Record<string, string> = { Grey: 'Gray', 'Space Grey': 'Space Gray' };
+
+// Phrases that settle the condition; a bare "new" is not one ("new battery"),
+// nor is "brand new" followed by a part
+const CONDITIONS: { pattern: RegExp; value: string }[] = [
+  { pattern: /\b(?:like\s*new|mint(?:\s*condition)?)\b/i, value: 'Like new' },
+  { pattern: /\b(?:refurbished|refurb)\b/i, value: 'Refurbished' },
+  {
+    pattern: /\b(?:brand\s*new(?!\s*(?:battery|screen|display|body|housing|back))|seal(?:ed)?\s*pack(?:ed)?|box\s*pack(?:ed)?|unopened)\b/i,
+    value: 'New',
+  },
+  { pattern: /\b(?:used|pre-?owned|second\s*hand)\b/i, value: 'Used' },
+];
+
+// The one distinct value `find` gets from the first of `texts` it finds any in
+function single(texts: string[], find: (text: string) => string[]): string | undefined {
+  for (const text of texts) {
+    const values = Array.from(new Set(find(text)));
+    if (values.length === 1) return values[0];
+    if (values.length > 1) return undefined;
+  }
+  return undefined;
+}
+
+function findStorage(text: string): string[] {
+  return Array.from(text.matchAll(STORAGE_PATTERN), (match) => `${Number(match[1])} ${match[2].toUpperCase()}`)
+    .filter((size) => STORAGE_SIZES.has(size));
+}
+
+function findBatteryHealth(text: string): string[] {
+  return BATTERY_PATTERNS.flatMap((pattern) => Array.from(text.matchAll(pattern), (match) => Number(match[1])))
+    .filter((percent) => percent >= 50 && percent <= 100)
+    .map((percent) => `${percent}%`);
+}
+
+function findColors(text: string): string[] {
+  let rest = text;
+  const found: string[] = [];
+  for (const color of COLORS) {
+    const pattern = new RegExp(`\\b${color.replace(/\s+/g, '\\s*')}\\b`, 'gi');
+    if (pattern.test(rest)) {
+      found.push(COLOR_SPELLINGS[color] ?? color);
+      // Blanked out so the words are not matched again by a shorter name
+      rest = rest.replace(pattern, ' ');
+    }
+  }
+  return found;
+}
+
+function findConditions(text: string): string[] {
+  return CONDITIONS.filter(({ pattern }) => pattern.test(text)).map(({ value }) => value);
+}
+
+// The fields the rules are sure of for `product`. Colors are only read from
+// the name; descriptions mention the colors of cases and cables too.
+export function extractWithRules(product: EnrichmentInput): RuleFields {
+  const texts = [product.name, product.description];
+  const fields: RuleFields = {
+    storageGb: single(texts, findStorage),
+    batteryHealth: single(texts, findBatteryHealth),
+    color: single([product.name], findColors),
+    condition: single(texts, findConditions),
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * The model's `result` with the fields the rules extracted put back in, and
+ * where each field came from. Rules win: the model was told to leave those
+ * fields empty.
+ */
+export function mergeRuleFields(result: EnrichmentResult, rules: RuleFields = {}): EnrichmentResult {
+  const merged: EnrichmentResult = { ...result };
+  const sources: FieldSources = {};
+  for (const field of ENRICHMENT_FIELDS) {
+    const ruled = rules[field];
+    if (ruled !== undefined) {
+      merged[field] = ruled;
+      sources[field] = 'rules';
+    } else if (result[field] !== null) {
+      sources[field] = 'llm';
+    }
+  }
+  return { ...merged, sources };
+}
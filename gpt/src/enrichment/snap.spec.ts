@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { DeviceCatalog, DeviceModel } from '../device-models';
+import { emptyResult } from './prompt';
+import { snapToCatalog } from './snap';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+const iphone14Pro: DeviceModel = {
+  category: 'iphone',
+  canonicalName: 'iPhone 14 Pro',
+  aliases: ['14 Pro'],
+  releaseYear: 2022,
+  storageOptions: ['128 GB', '256 GB', '512 GB', '1 TB'],
+  colors: ['Space Black', 'Silver', 'Gold', 'Deep Purple'],
+};
+
+const iphoneX: DeviceModel = {
+  category: 'iphone',
+  canonicalName: 'iPhone X',
+  aliases: [],
+  releaseYear: 2017,
+  storageOptions: ['64 GB', '256 GB'],
+  colors: ['Space Gray', 'Silver'],
+};
+
+const catalog = new DeviceCatalog([iphone14Pro, iphoneX]);
+
+function snap(modelName: string | null, storageGb: string | null = null, color: string | null = null) {
+  return snapToCatalog({ ...emptyResult('1'), modelName, storageGb, color }, 'iphone', catalog);
+}
+
+describe('snapToCatalog', () => {
+  it('snaps the model, storage and color to the catalog spelling', () => {
+    expect(snap('14 pro', '1024gb', 'purple')).toEqual({
+      ...emptyResult('1'),
+      modelName: 'iPhone 14 Pro',
+      storageGb: '1 TB',
+      color: 'Deep Purple',
+    });
+    expect(snap('iPhone X', '64GB', 'space grey')).toMatchObject({ storageGb: '64 GB', color: 'Space Gray' });
+  });
+
+  it('keeps storage and colors the model was not sold with, and flags them', () => {
+    expect(snap('iPhone X', '128 GB', 'Blue')).toMatchObject({
+      storageGb: '128 GB',
+      color: 'Blue',
+      catalogIssues: [
+        'storage "128 GB" is not an option of iPhone X',
+        'color "Blue" is not an official color of iPhone X',
+      ],
+    });
+  });
+
+  it('flags a color that could be more than one official color', () => {
+    expect(snap('iPhone 14 Pro', null, 'Silver Gold').catalogIssues).toEqual([
+      'color "Silver Gold" is not an official color of iPhone 14 Pro',
+    ]);
+  });
+
+  it('flags models the catalog does not know', () => {
+    expect(snap('Galaxy S23', '256 GB')).toMatchObject({
+      modelName: 'Galaxy S23',
+      storageGb: '256 GB',
+      catalogIssues: ['model "Galaxy S23" is not in the device catalog'],
+    });
+  });
+
+  it('leaves excluded and model-less results alone', () => {
+    expect(snap('EXCLUDE', '1024gb')).toEqual({ ...emptyResult('1'), modelName: 'EXCLUDE', storageGb: '1024gb' });
+    expect(snap(null, 'Blue')).not.toHaveProperty('catalogIssues');
+  });
+});
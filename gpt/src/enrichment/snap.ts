@@ -0,0 +1,80 @@
+import { DeviceCatalog, DeviceModel } from '../device-models';
+import { EnrichmentResult } from './types';
+
+// Snaps an enrichment to the device catalog: the model to its canonical name,
+// storage and color to the spelling of one of the model's options. Values the
+// catalog has no match for are kept as they are, and flagged in
+// `catalogIssues`.
+
+const STORAGE_PATTERN = /(\d+(?:\.\d+)?)\s*(gb|tb)\b/i;
+
+function normalizeStorage(value: string): string | null {
+  const match = value.match(STORAGE_PATTERN);
+  if (!match) return null;
+  const size = Number(match[1]);
+  const unit = match[2].toUpperCase();
+  return unit === 'GB' && size >= 1024 && size % 1024 === 0 ? `${size / 1024} TB` : `${size} ${unit}`;
+}
+
+function colorWords(color: string): string[] {
+  return color
+    .toLowerCase()
+    .replace(/grey/g, 'gray')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// The official color `value` means: the same words, or the only official color
+// its words are part of ("Purple" for "Deep Purple") or that is part of it
+function matchColor(value: string, colors: string[]): string | undefined {
+  const words = colorWords(value);
+  if (words.length === 0) return undefined;
+  const same = colors.find((color) => colorWords(color).join(' ') === words.join(' '));
+  if (same) return same;
+
+  const overlapping = colors.filter((color) => {
+    const official = colorWords(color);
+    return words.every((word) => official.includes(word)) || official.every((word) => words.includes(word));
+  });
+  return overlapping.length === 1 ? overlapping[0] : undefined;
+}
+
+function snapStorage(value: string, model: DeviceModel, issues: string[]): string {
+  const size = normalizeStorage(value);
+  if (model.storageOptions.length === 0) return size ?? value;
+  if (size && model.storageOptions.includes(size)) return size;
+  issues.push(`storage "${value}" is not an option of ${model.canonicalName}`);
+  return value;
+}
+
+function snapColor(value: string, model: DeviceModel, issues: string[]): string {
+  if (model.colors.length === 0) return value;
+  const color = matchColor(value, model.colors);
+  if (color) return color;
+  issues.push(`color "${value}" is not an official color of ${model.canonicalName}`);
+  return value;
+}
+
+export function snapToCatalog(
+  result: EnrichmentResult,
+  category: string | null,
+  catalog: DeviceCatalog,
+): EnrichmentResult {
+  if (!result.modelName || result.modelName === 'EXCLUDE') {
+    return result;
+  }
+
+  const model = catalog.find(result.modelName, category);
+  if (!model) {
+    return { ...result, catalogIssues: [`model "${result.modelName}" is not in the device catalog`] };
+  }
+
+  const issues: string[] = [];
+  const snapped: EnrichmentResult = {
+    ...result,
+    modelName: model.canonicalName,
+    storageGb: result.storageGb !== null ? snapStorage(result.storageGb, model, issues) : null,
+    color: result.color !== null ? snapColor(result.color, model, issues) : null,
+  };
+  return issues.length > 0 ? { ...snapped, catalogIssues: issues } : snapped;
+}
@@ -0,0 +1,67 @@
+// Fields enrichment fills in on a product
+export const ENRICHMENT_FIELDS = ['modelName', 'storageGb', 'color', 'warranty', 'batteryHealth', 'condition'] as const;
+
+export type EnrichmentField = (typeof ENRICHMENT_FIELDS)[number];
+
+// Where a field's value came from: the rule-based extractor (./rules) or the model
+export type FieldSource = 'rules' | 'llm';
+
+export type FieldSources = Partial<Record<EnrichmentField, FieldSource>>;
+
+// What the LLM is shown about a product
+export type EnrichmentInput = {
+  id: string;
+  category: string | null;
+  name: string;
+  description: string;
+  priceRaw: any;
+  currency: string | null;
+  availability: any;
+  // Fields the rules already extracted, which the LLM is not asked for
+  known?: Partial<Record<EnrichmentField, string>>;
+};
+
+export type EnrichmentResult = {
+  id: string;
+  modelName: string | null;
+  storageGb: string | null;
+  color: string | null;
+  warranty: string | null;
+  batteryHealth: string | null;
+  condition: string | null;
+  // Which of the fields above came from rules and which from the model
+  sources?: FieldSources;
+  // What did not match the device catalog (./snap); absent when everything did
+  catalogIssues?: string[];
+};
+
+// A product the provider gave no valid result for, and why
+export type EnrichmentFailure = {
+  id: string;
+  reason: string;
+};
+
+// Everything a batch came back with: a result or a failure for each product.
+// `callFailed` is set when the failures are the provider's (quota, outage,
+// network) rather than its answer's.
+export type BatchEnrichment = {
+  results: EnrichmentResult[];
+  failures: EnrichmentFailure[];
+  callFailed?: boolean;
+};
+
+// One batch to enrich: the prompt built for it and the products it covers
+export type EnrichmentRequest = {
+  prompt: string;
+  products: EnrichmentInput[];
+};
+
+// Anything that can answer an enrichment prompt: a hosted LLM, a local
+// OpenAI-compatible server, a canned mock, etc. Providers only move text;
+// prompt building and parsing the answer are shared (see ./prompt).
+export interface EnrichmentProvider {
+  readonly name: string;
+  readonly model: string;
+  // The model's raw answer to `request.prompt`; throws when the call fails
+  complete(request: EnrichmentRequest): Promise<string>;
+}
@@ -0,0 +1,43 @@
+import { config as loadEnv } from 'dotenv';
+
+import prisma from './db/client';
+import { importSellers } from './sellers/registry';
+import { loadSellerSheet, SheetIssue } from './sellers/sheet';
+
+loadEnv();
+
+function logIssues(label: string, issues: SheetIssue[]) {
+  if (issues.length === 0) return;
+  console.warn(`${label}:`);
+  for (const issue of issues) {
+    console.warn(`  line ${issue.line}: ${issue.reason}${issue.value ? ` (${issue.value})` : ''}`);
+  }
+}
+
+// Imports sellers from a Google Sheet, CSV URL or local CSV file into the
+// seller registry.
+// Usage: npm run import-sellers -- [sheetUrl|file.csv]  (defaults to SELLERS_SHEET_URL)
+async function main() {
+  const source = process.argv[2] || process.env.SELLERS_SHEET_URL;
+  if (!source) {
+    throw new Error('Pass a sheet URL or CSV file, or set SELLERS_SHEET_URL.');
+  }
+
+  const { sellers, invalid, duplicates } = await loadSellerSheet(source);
+  logIssues('Skipped invalid rows', invalid);
+  logIssues('Skipped duplicate rows', duplicates);
+
+  const report = await importSellers(sellers);
+
+  console.log(
+    `Imported ${sellers.length} seller(s): ${report.created.length} created, ` +
+      `${report.updated.length} updated, ${report.unchanged.length} unchanged, ` +
+      `${invalid.length + duplicates.length} row(s) skipped.`,
+  );
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Seller import failed:', error);
+  process.exit(1);
+});
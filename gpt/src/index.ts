@@ -1,8 +1,28 @@
-import * as wppconnect from '@wppconnect-team/wppconnect';
-import * as fs from 'fs';
-import * as path from 'path';
 import { config as loadEnv } from 'dotenv';
 
+import {
+  AuthRequiredError,
+  CatalogArchive,
+  SessionLostError,
+  SessionPool,
+  archiveKeyForRun,
+  createCatalogSessions,
+  pruneArchives,
+} from './catalog';
+import { emitEvent, errorMessage } from './pipeline/events';
+import { CANCELLED_EXIT_CODE, PipelineRun, finishStandaloneRun, startRun } from './pipeline/run';
+import {
+  loadStagedSellers,
+  logStagedScrape,
+  pruneStaging,
+  stageSellerScrape,
+} from './pipeline/staging';
+import { logScrapeSummary, scrapeCatalogForSeller } from './scraper';
+import { refreshScrapeIntervals, selectDueSellers } from './sellers/intervals';
+import { loadRegisteredSellers } from './sellers/registry';
+import { SellerConfig, SellerScrapeResult } from './types';
+import { runPool } from './utils/pool';
+
 loadEnv();
 
 // ------------------------------------------------------------------
@@ -13,425 +33,246 @@ const DEFAULT_TARGET_PHONE_NUMBER = '919916515577';
 
 const TARGET_PHONE_NUMBER = process.env.TARGET_PHONE_NUMBER || DEFAULT_TARGET_PHONE_NUMBER;
 const SELLER_NAME = process.env.SELLER_NAME;
-const SELLERS_SHEET_URL = process.env.SELLERS_SHEET_URL;
-const SELLER_PHONES = process.env.SELLER_PHONES; // comma-separated list for multi-seller runs
-const SESSION_DATA_DIR = path.resolve(__dirname, '../session-data');
-const TOKEN_DIR = path.resolve(__dirname, '../tokens');
-
-const ensureDir = (dirPath: string) => {
-    if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
-    }
-};
-
-ensureDir(SESSION_DATA_DIR);
-ensureDir(TOKEN_DIR);
+const SELLER_PHONES = process.env.SELLER_PHONES; // comma-separated list, overrides the registry
+const SELLER_TAG = process.env.SELLER_TAG; // only registry sellers with this tag (set by scheduled tag runs)
+const SCRAPE_DUE_ONLY = process.env.SCRAPE_DUE_ONLY === 'true'; // only sellers whose scrape interval is up
+const CATALOG_ARCHIVE_ENABLED = process.env.CATALOG_ARCHIVE !== 'false';
+// Parallel sellers per WhatsApp session
+const SCRAPE_CONCURRENCY = Math.max(1, Number(process.env.SCRAPE_CONCURRENCY || 1));
+// Per session, shared by its workers; 0 disables the limit
+const SCRAPE_REQUESTS_PER_MINUTE = Number(process.env.SCRAPE_REQUESTS_PER_MINUTE || 0);
+// A session whose sellers fail this many times in a row is rested for SESSION_COOLDOWN_MS
+const SESSION_FAILOVER_AFTER = Math.max(1, Number(process.env.SESSION_FAILOVER_AFTER || 3));
+const SESSION_COOLDOWN_MS = Number(process.env.SESSION_COOLDOWN_MS || 600000);
+// Exit codes the dashboard maps to AUTH_REQUIRED and SESSION_LOST
+const AUTH_REQUIRED_EXIT_CODE = 2;
+const SESSION_LOST_EXIT_CODE = 3;
 // ------------------------------------------------------------------
 
-type ScrapedProduct = {
-  id: string;
-  name: string;
-  description: string;
-  availability: any;
-  priceRaw: any;
-  priceFormatted: string;
-  currency: string | undefined;
-  productUrl: string;
-  sellerPhone: string;
-  sellerName?: string;
-  sellerCity?: string;
-  sellerCatalogueUrl?: string;
-  imageCount: number;
-};
-
-type SellerConfig = {
-  phone: string;
-  name?: string;
-  city?: string;
-  catalogueUrl?: string;
-};
-
-// Extract image count from product data (already fetched from getProducts/getCollections)
-function getImageCount(product: any): number {
-  let count = 0;
-
-  // Check image_cdn_urls (from WhatsApp catalog API)
-  if (product.image_cdn_urls && Array.isArray(product.image_cdn_urls)) {
-    count = product.image_cdn_urls.length > 0 ? 1 : 0;
-  }
-  // Check additional_image_cdn_urls
-  if (product.additional_image_cdn_urls && Array.isArray(product.additional_image_cdn_urls)) {
-    count += product.additional_image_cdn_urls.length;
-  }
-
-  // Alternative field names used by wppconnect
-  if (count === 0) {
-    // Check for main image
-    if (product.imageFull || product.imageUrl || product.image || product.imageHashes) {
-      count = 1;
-    }
-    // Check additionalImages array
-    if (product.additionalImages && Array.isArray(product.additionalImages)) {
-      count += product.additionalImages.length;
-    }
-    // Check images array (some versions)
-    if (product.images && Array.isArray(product.images)) {
-      count = product.images.length;
-    }
-    // Check mediaCount if available
-    if (product.mediaCount && typeof product.mediaCount === 'number') {
-      count = product.mediaCount;
-    }
-  }
-
-  return count;
-}
-
-// Strict iPhone detection - only actual iPhone devices, not accessories
-function isIPhone(name: string, description: string): boolean {
-  const nameLower = name.toLowerCase();
-  const descLower = (description || '').toLowerCase();
-
-  // Check if name contains iPhone variants
-  const iphoneInName =
-    /iphone|i\s*phone|i-phone/.test(nameLower) ||
-    /^iph\s*\d/.test(nameLower) || // "Iph 11", "Iph 13"
-    /^\d+\s*(pro|plus|max)?\s*\d*\s*gb/i.test(nameLower); // "14 Pro 256gb" style
-
-  // Also check description for iPhone mentions
-  const iphoneInDesc = /iphone|i\s*phone/.test(descLower);
-
-  // Must have iPhone keyword somewhere
-  if (!iphoneInName && !iphoneInDesc) return false;
-
-  // If name has iPhone, check it's not primarily an accessory
-  if (iphoneInName) {
-    const accessoryStartPatterns = [
-      /^case\b/,
-      /^cover\b/,
-      /^strap\b/,
-      /^charger\b/,
-      /^cable\b/,
-      /^adapter\b/,
-      /^screen\s*guard/,
-      /^tempered/,
-      /^protector/,
-      /^airpod/,
-      /^earbud/,
-      /^tws\b/,
-      /^speaker/,
-      /^powerbank/,
-      /^power\s*bank/,
-    ];
-
-    for (const pattern of accessoryStartPatterns) {
-      if (pattern.test(nameLower)) return false;
-    }
-
-    return true;
-  }
-
-  // If iPhone only in description, name should look like a phone model
-  if (iphoneInDesc) {
-    const looksLikeModel =
-      /^\d+\s*(pro|plus|max|mini)?/i.test(nameLower) ||
-      /^(xs|xr|se|x)\b/i.test(nameLower) ||
-      /pro\s*max/i.test(nameLower);
-
-    if (looksLikeModel) return true;
+// Sellers come from the registry (the `sellers` table), narrowed to SELLER_TAG
+// when set, unless SELLER_PHONES overrides it for an ad-hoc run.
+// TARGET_PHONE_NUMBER is the last resort for an empty registry.
+async function resolveSellers(): Promise<SellerConfig[]> {
+  if (SELLER_PHONES && SELLER_PHONES.trim().length > 0) {
+    return SELLER_PHONES.split(',')
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .map((phone) => ({ phone }));
   }
 
-  return false;
-}
-
-
-function toCsvExportUrl(url: string): string {
-  if (!url.includes('docs.google.com/spreadsheets')) {
-    return url;
+  if (SELLER_TAG) {
+    const tagged = await loadRegisteredSellers(SELLER_TAG);
+    console.log(`Loaded ${tagged.length} enabled seller(s) tagged "${SELLER_TAG}" from the registry.`);
+    return tagged;
   }
-  if (url.includes('/export?')) {
-    return url;
-  }
-
-  const idMatch = url.match(/\/d\/([^/]+)/);
-  const id = idMatch?.[1];
-  if (!id) return url;
-
-  const gidMatch = url.match(/[?#]gid=(\d+)/);
-  const gid = gidMatch?.[1] ?? '0';
-
-  return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=${gid}`;
-}
-
-async function fetchSellersFromSheet(sheetUrl: string): Promise<SellerConfig[]> {
-  try {
-    const csvUrl = toCsvExportUrl(sheetUrl);
-    console.log(`Fetching sellers from Google Sheet CSV: ${csvUrl}`);
-    const res = await fetch(csvUrl);
-    if (!res.ok) {
-      console.error(`Failed to fetch sheet: ${res.status} ${res.statusText}`);
-      return [];
-    }
-    const text = await res.text();
-    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-    if (lines.length <= 1) {
-      console.warn('Sheet CSV appears to have no data rows.');
-      return [];
-    }
-
-    const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
 
-    const nameIdx = headers.findIndex((h) => h === 'name');
-    const cityIdx = headers.findIndex((h) => h === 'city');
-    const urlIdx = headers.findIndex(
-      (h) => h === 'catalogue_link' || h === 'catalogue_url',
-    );
-
-    if (urlIdx === -1) {
-      console.error(
-        'Could not find a "catalogue_link" or "catalogue_url" column in the sheet headers.',
-      );
-      return [];
-    }
-
-    const sellerMap = new Map<string, SellerConfig>();
-
-    for (let i = 1; i < lines.length; i++) {
-      const row = lines[i].split(',');
-      const rawUrl = row[urlIdx]?.trim();
-      if (!rawUrl) continue;
-
-      const match = rawUrl.match(/\/catalog\/(\d+)/);
-      if (!match) continue;
-
-      const phone = match[1];
-      if (!phone) continue;
-
-      if (!sellerMap.has(phone)) {
-        const name = nameIdx !== -1 ? row[nameIdx]?.trim() : undefined;
-        const city = cityIdx !== -1 ? row[cityIdx]?.trim() : undefined;
-        sellerMap.set(phone, { phone, name, city, catalogueUrl: rawUrl });
-      }
-    }
-
-    const sellers = Array.from(sellerMap.values());
-    console.log(`Parsed ${sellers.length} unique sellers from sheet.`);
-    return sellers;
-  } catch (err) {
-    console.error('Error fetching or parsing sellers sheet:', err);
-    return [];
+  const registered = await loadRegisteredSellers();
+  if (registered.length > 0) {
+    console.log(`Loaded ${registered.length} enabled seller(s) from the registry.`);
+    return registered;
   }
-}
 
-async function scrapeCatalogForSeller(
-  client: any,
-  sellerPhone: string,
-  sellerName?: string,
-  sellerCity?: string,
-  sellerCatalogueUrl?: string,
-): Promise<ScrapedProduct[]> {
-  console.log(`Fetching catalog for ${sellerPhone}...`);
-  const chatId = `${sellerPhone}@c.us`;
-
-  const allProducts = new Map<string, any>();
-
-  const addProducts = (products: any[], source: string) => {
-    if (!products || !Array.isArray(products)) return;
-    products.forEach((p) => {
-      if (p && p.id) {
-        if (!allProducts.has(p.id)) {
-          allProducts.set(p.id, { ...p, _source: source });
-        }
-      }
-    });
-  };
-
-  console.log('Fetching products...');
-  try {
-    const mainList = await client.getProducts(chatId, 5000);
-    console.log(`Found ${mainList?.length || 0} products in main list`);
-    addProducts(mainList, 'main_list');
-  } catch (e) {
-    console.error('Error fetching main list:', e);
-  }
-
-  try {
-    const collections = await (client as any).getCollections(chatId, 100, 100);
-    if (collections && collections.length > 0) {
-      console.log(`Found ${collections.length} collections`);
-      for (const col of collections) {
-        addProducts(col.products, `collection: ${col.name}`);
-      }
-    }
-  } catch (e) {
-    console.log('Error fetching collections:', e);
-  }
-
-  console.log(`Total unique products for ${sellerPhone}: ${allProducts.size}`);
-
-  // Filter to only iPhone products using strict matching
-  const productsArray = Array.from(allProducts.values());
-  const iPhoneProducts = productsArray.filter((p) => isIPhone(p.name || '', p.description || ''));
-
-  console.log(
-    `Found ${iPhoneProducts.length} iPhone products out of ${allProducts.size} total for ${sellerPhone}`,
+  console.warn(
+    'No enabled sellers in the registry. Add them from the dashboard or run "npm run import-sellers".',
   );
+  return [{ phone: TARGET_PHONE_NUMBER, name: SELLER_NAME }];
+}
 
-  if (iPhoneProducts.length === 0) {
-    console.log('No iPhone products found for this seller. Skipping...');
-    return [];
-  }
-
-  const selectedProducts = iPhoneProducts;
-
-  const outputList: ScrapedProduct[] = [];
-
-  for (const p of selectedProducts) {
-    const rawPrice = p.price;
-    const currency = p.currency as string | undefined;
-    let formattedPrice = 'N/A';
-
-    if (rawPrice && currency) {
-      const value = Number(rawPrice);
-      try {
-        formattedPrice = new Intl.NumberFormat('en-US', {
-          style: 'currency',
-          currency: currency,
-        }).format(value / 1000);
-      } catch (e) {
-        formattedPrice = `${currency} ${value / 1000}`;
-      }
+// Scrapes one seller, failing over to another session when the session in use
+// drops or the seller fails on it. Null once every session has dropped.
+async function scrapeWithFailover(
+  pool: SessionPool,
+  seller: SellerConfig,
+  archive: CatalogArchive | null,
+): Promise<Awaited<ReturnType<typeof scrapeCatalogForSeller>> | null> {
+  const tried = new Set<string>();
+  let scraped: Awaited<ReturnType<typeof scrapeCatalogForSeller>> | null = null;
+
+  for (let session = pool.acquire(tried); session; session = pool.acquire(tried)) {
+    tried.add(session.name);
+    try {
+      scraped = await scrapeCatalogForSeller(session.source, seller, archive);
+    } catch (err) {
+      pool.release(session, null);
+      if (!(err instanceof SessionLostError)) throw err;
+      pool.markLost(session, err.reason);
+      continue;
     }
 
-    const record: ScrapedProduct = {
-      id: p.id,
-      name: p.name,
-      description: p.description,
-      availability: p.availability,
-      priceRaw: rawPrice,
-      priceFormatted: formattedPrice,
-      currency: currency,
-      productUrl: `https://web.whatsapp.com/product/${p.id}/${sellerPhone}`,
-      sellerPhone: sellerPhone,
-      sellerName: sellerName,
-      sellerCity: sellerCity,
-      sellerCatalogueUrl: sellerCatalogueUrl,
-      imageCount: getImageCount(p),
-    };
+    scraped.result.session = session.name;
+    pool.release(session, scraped.result.outcome);
 
-    outputList.push(record);
+    const failed = scraped.result.outcome === 'FAILED' || scraped.result.outcome === 'TIMEOUT';
+    if (!failed || tried.size >= pool.activeCount) break;
+    console.log(`Retrying ${seller.phone} on another session after ${scraped.result.outcome} on ${session.name}`);
   }
 
-  console.log(`✓ Collected ${outputList.length} products for ${sellerPhone}`);
-  return outputList;
+  return scraped;
 }
 
 async function start() {
-  let client: any = null;
+  let pool: SessionPool | null = null;
+  let activeRun: PipelineRun | null = null;
 
+  // Sellers are staged as they finish, so stopping mid-scrape only loses the
+  // ones in flight; a resume of the run scrapes those and the rest
+  let shuttingDown = false;
   const shutdown = async (signal: string) => {
-    console.log(`\nReceived ${signal}. Closing client...`);
-    if (client) {
-      try {
-        await client.close();
-        console.log('Client closed successfully.');
-      } catch (err) {
-        console.error('Error closing client:', err);
-      }
+    // npm forwards the signal it gets, so the script can see it twice
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\nReceived ${signal}. Closing catalog sessions...`);
+    if (pool) {
+      await pool.close();
+      console.log('Catalog sessions closed.');
     }
-    process.exit(0);
+    if (activeRun) {
+      await finishStandaloneRun(activeRun, 'CANCELLED').catch((err) =>
+        console.error('Could not record the run as cancelled:', err),
+      );
+    }
+    process.exit(CANCELLED_EXIT_CODE);
   };
 
   process.on('SIGINT', () => shutdown('SIGINT'));
   process.on('SIGTERM', () => shutdown('SIGTERM'));
 
   try {
-    const lockPath = path.join(__dirname, '../session-data/SingletonLock');
-    if (fs.existsSync(lockPath)) {
-        try { fs.unlinkSync(lockPath); } catch (e) {}
-    }
-
-    client = await wppconnect.create({
-      session: 'whatsapp-store-session',
-      catchQR: (base64Qr, asciiQR) => { console.log(asciiQR); },
-      logQR: false,
-      statusFind: (statusSession, session) => {
-        if (statusSession === 'isLogged') {
-          console.log('✓ WhatsApp session active');
-        } else if (statusSession === 'notLogged') {
-          console.log('⚠ Please scan QR code to login');
-        }
-      },
-      headless: true, 
-      devtools: false,
-      useChrome: true,
-      debug: false,
-      updatesLog: false,
-      autoClose: 0, 
-      tokenStore: 'file', 
-      folderNameToken: TOKEN_DIR,
-      puppeteerOptions: {
-        userDataDir: SESSION_DATA_DIR,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
-      }
+    const sessions = await createCatalogSessions();
+    pool = new SessionPool(sessions, {
+      requestsPerMinute: SCRAPE_REQUESTS_PER_MINUTE,
+      maxConsecutiveFailures: SESSION_FAILOVER_AFTER,
+      cooldownMs: SESSION_COOLDOWN_MS,
     });
 
-    console.log('Client initialized. Waiting for WAPI injection...');
-    await new Promise((r) => setTimeout(r, 10000));
-
+    const run = await startRun('CLI');
+    activeRun = run;
+    let exitCode = 0;
     try {
-      let sellerConfigs: SellerConfig[] = [];
-
-      if (SELLERS_SHEET_URL) {
-        sellerConfigs = await fetchSellersFromSheet(SELLERS_SHEET_URL);
+      let sellerConfigs = await resolveSellers();
+      await pruneStaging();
+
+      // Scan history sets each seller's scrape interval; due-only runs skip the
+      // sellers whose interval is not up yet
+      const intervals = await refreshScrapeIntervals(sellerConfigs.map((seller) => seller.phone));
+      if (SCRAPE_DUE_ONLY) {
+        const { due, notDue, nextDueAt } = selectDueSellers(sellerConfigs, intervals);
+        console.log(
+          `${due.length} seller(s) due for a scrape, ${notDue.length} not due yet` +
+            (nextDueAt ? ` (next one due ${nextDueAt.toISOString()})` : ''),
+        );
+        sellerConfigs = due;
       }
 
-      if (sellerConfigs.length === 0) {
-        sellerConfigs = [];
-
-        if (SELLER_PHONES && SELLER_PHONES.trim().length > 0) {
-          SELLER_PHONES.split(',')
-            .map((p) => p.trim())
-            .filter(Boolean)
-            .forEach((phone) => {
-              sellerConfigs.push({ phone });
-            });
-        } else {
-          sellerConfigs.push({ phone: TARGET_PHONE_NUMBER, name: SELLER_NAME });
-        }
+      // Sellers this run already staged (before a crash, say) are not scraped
+      // again; failed ones get another try
+      const staged = await loadStagedSellers(run.id);
+      const done = new Set(
+        staged
+          .filter(({ result }) => result.outcome === 'OK' || result.outcome === 'EMPTY')
+          .map(({ result }) => result.phone),
+      );
+      const pendingSellers = sellerConfigs.filter((seller) => !done.has(seller.phone));
+      if (pendingSellers.length < sellerConfigs.length) {
+        console.log(
+          `Resuming run #${run.id}: ${sellerConfigs.length - pendingSellers.length} seller(s) already staged`,
+        );
       }
 
-      const aggregatedProducts: ScrapedProduct[] = [];
-
-      for (const seller of sellerConfigs) {
-        const productsForSeller = await scrapeCatalogForSeller(
-          client,
-          seller.phone,
-          seller.name,
-          seller.city,
-          seller.catalogueUrl,
-        );
-        aggregatedProducts.push(...productsForSeller);
+      // Replayed payloads are already on disk, so only live scrapes are archived
+      let archive: CatalogArchive | null = null;
+      if (CATALOG_ARCHIVE_ENABLED && sessions[0].source.name !== 'replay') {
+        const archiveKey = archiveKeyForRun(String(run.id));
+        archive = new CatalogArchive(archiveKey);
+        console.log(`Archiving raw catalog payloads to ${archive.dir}`);
+        pruneArchives(archiveKey);
       }
 
-      const outputPath = path.join(__dirname, '../products.json');
-      fs.writeFileSync(outputPath, JSON.stringify(aggregatedProducts, null, 2));
       console.log(
-        `✓ Saved ${aggregatedProducts.length} products from ${sellerConfigs.length} seller(s) to ${outputPath}`,
+        `Scraping ${pendingSellers.length} seller(s) over ${pool.size} session(s) (${pool.names.join(', ')}) ` +
+          `with concurrency ${SCRAPE_CONCURRENCY} per session` +
+          (SCRAPE_REQUESTS_PER_MINUTE > 0 ? `, max ${SCRAPE_REQUESTS_PER_MINUTE} requests/min per session` : ''),
       );
+      emitEvent({
+        type: 'scrape-started',
+        sellers: pendingSellers.length,
+        skipped: sellerConfigs.length - pendingSellers.length,
+      });
+
+      const sellerResults: SellerScrapeResult[] = [];
+      let completed = 0;
+      let allSessionsLost = false;
+
+      await runPool(pendingSellers, SCRAPE_CONCURRENCY * pool.size, async (seller) => {
+        if (allSessionsLost) return;
+
+        emitEvent({ type: 'seller-started', phone: seller.phone });
+        const scraped = await scrapeWithFailover(pool!, seller, archive);
+        if (!scraped) {
+          allSessionsLost = true;
+          return;
+        }
+        const { products, result } = scraped;
+        await stageSellerScrape(run.id, result, products);
+        sellerResults.push(result);
+        completed += 1;
+        emitEvent({
+          type: 'seller-finished',
+          phone: seller.phone,
+          outcome: result.outcome,
+          products: products.length,
+          durationMs: result.durationMs,
+          session: result.session,
+        });
+        if (result.error) {
+          emitEvent({ type: 'error', step: 'scrape', phone: seller.phone, message: result.error });
+        }
+        console.log(
+          `[${completed}/${pendingSellers.length}] ${seller.phone}${seller.name ? ` (${seller.name})` : ''}: ` +
+            `${result.outcome} via ${result.session}, ${products.length} product(s) in ${(result.durationMs / 1000).toFixed(1)}s`,
+        );
+      });
+
+      if (allSessionsLost) {
+        // Sellers staged so far are kept, so running the scrape again for this run resumes it
+        const reason = `All WhatsApp sessions lost (${pool.lostReasons().join('; ')})`;
+        console.error(
+          `${reason}. Stopped after ${completed} of ${pendingSellers.length} seller(s); ` +
+            `run #${run.id} can be resumed once a session is back.`,
+        );
+        emitEvent({ type: 'error', step: 'scrape', message: reason });
+        await finishStandaloneRun(run, 'SESSION_LOST', { errorMessage: reason });
+        await pool.close();
+        process.exit(SESSION_LOST_EXIT_CODE);
+      }
+
+      await logStagedScrape(run.id);
+      logScrapeSummary(sellerResults);
     } catch (err) {
       console.error('Error:', err);
+      emitEvent({ type: 'error', step: 'scrape', message: errorMessage(err) });
+      await finishStandaloneRun(run, 'FAILED', { errorMessage: errorMessage(err) }).catch((finishErr) =>
+        console.error('Could not record the run as failed:', finishErr),
+      );
+      // A non-zero exit keeps the dashboard from counting the scrape as done and moving on to enrich
+      exitCode = 1;
     } finally {
-        if (client) {
-            await client.close();
-        }
-        process.exit(0);
+      if (pool) {
+        await pool.close();
+      }
+      process.exit(exitCode);
     }
-
   } catch (error) {
     console.error('Initialization error:', error);
-    if (client) await client.close();
-    process.exit(1);
+    emitEvent({ type: 'error', step: 'scrape', message: errorMessage(error) });
+    if (pool) await pool.close();
+    process.exit(
+      error instanceof AuthRequiredError
+        ? AUTH_REQUIRED_EXIT_CODE
+        : error instanceof SessionLostError
+          ? SESSION_LOST_EXIT_CODE
+          : 1,
+    );
   }
 }
 
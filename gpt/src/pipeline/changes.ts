@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { Product } from '@prisma/client';
+
+import { EnrichedProduct } from '../types';
+
+// Change detection for the processor: which scraped products are new, changed,
+// back after being delisted or unchanged. Only the raw listing is hashed, so a
+// re-enrichment alone never counts as a change.
+
+export type ChangeType = 'CREATED' | 'UPDATED' | 'REACTIVATED' | 'UNCHANGED';
+
+export type PendingProduct = {
+  input: EnrichedProduct;
+  existing: Product | null;
+  changeType: ChangeType;
+  dataHash: string;
+};
+
+export function computeDataHash(p: EnrichedProduct): string {
+  const base = [
+    p.id ?? '',
+    p.name ?? '',
+    p.description ?? '',
+    p.priceRaw !== undefined && p.priceRaw !== null ? String(p.priceRaw) : '',
+    p.availability !== undefined && p.availability !== null
+      ? String(p.availability)
+      : '',
+    p.currency ?? '',
+  ].join('|');
+
+  return crypto.createHash('sha256').update(base).digest('hex');
+}
+
+// How each of a seller's scraped products changes the stored one with the same id
+export function computeChangesForSeller(
+  inputs: EnrichedProduct[],
+  existingById: Map<string, Product | null>,
+): { pending: PendingProduct[]; productsFound: number; productsNew: number; productsUpdated: number } {
+  const pending: PendingProduct[] = [];
+  let productsNew = 0;
+  let productsUpdated = 0;
+
+  for (const input of inputs) {
+    const dataHash = computeDataHash(input);
+
+    const existing = existingById.get(input.id) ?? null;
+
+    if (!existing) {
+      pending.push({
+        input,
+        existing: null,
+        changeType: 'CREATED',
+        dataHash,
+      });
+      productsNew += 1;
+      continue;
+    }
+
+    if (existing.dataHash === dataHash && existing.isActive) {
+      pending.push({
+        input,
+        existing,
+        changeType: 'UNCHANGED',
+        dataHash,
+      });
+      continue;
+    }
+
+    const wasInactive = !existing.isActive;
+    const changeType: ChangeType = wasInactive ? 'REACTIVATED' : 'UPDATED';
+
+    pending.push({
+      input,
+      existing,
+      changeType,
+      dataHash,
+    });
+
+    productsUpdated += 1;
+  }
+
+  return {
+    pending,
+    productsFound: inputs.length,
+    productsNew,
+    productsUpdated,
+  };
+}
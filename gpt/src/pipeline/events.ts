@@ -0,0 +1,46 @@
+import { SellerOutcome } from '../types';
+
+// Machine-readable progress of a pipeline run, one JSON event per stdout line
+// after PIPELINE_EVENT_PREFIX. The dashboard turns them into run statistics
+// and its progress bar. Only emitted with PIPELINE_EVENTS=true (set by the
+// dashboard), so terminal runs keep plain logs.
+export const PIPELINE_EVENT_PREFIX = '[pipeline-event] ';
+
+const EVENTS_ENABLED = process.env.PIPELINE_EVENTS === 'true';
+
+export type PipelineStepName = 'scrape' | 'enrich' | 'process';
+
+export type ProductChange = 'CREATED' | 'UPDATED' | 'REACTIVATED' | 'DEACTIVATED';
+
+export type PipelineEvent =
+  // `skipped` sellers were already staged by an earlier attempt at the run
+  | { type: 'scrape-started'; sellers: number; skipped: number }
+  | { type: 'seller-started'; phone: string }
+  | {
+      type: 'seller-finished';
+      phone: string;
+      outcome: SellerOutcome;
+      products: number;
+      durationMs: number;
+      session?: string;
+    }
+  // Totals staged for the run, earlier attempts included
+  | { type: 'scrape-finished'; sellers: number; products: number }
+  // `cached` of the products were enriched from the cache; the batches cover the rest
+  | { type: 'enrich-started'; products: number; batches: number; cached: number }
+  | { type: 'batch-enriched'; batch: number; batches: number; products: number }
+  | { type: 'enrich-finished'; products: number }
+  | { type: 'process-started'; sellers: number; products: number }
+  | { type: 'product-changed'; productId: string; phone: string; change: ProductChange }
+  | { type: 'seller-processed'; phone: string; created: number; updated: number; deactivated: number }
+  | { type: 'process-finished'; sellers: number; created: number; updated: number; deactivated: number }
+  | { type: 'error'; step: PipelineStepName; message: string; phone?: string };
+
+export function emitEvent(event: PipelineEvent): void {
+  if (!EVENTS_ENABLED) return;
+  console.log(`${PIPELINE_EVENT_PREFIX}${JSON.stringify({ ...event, at: new Date().toISOString() })}`);
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,84 @@
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import type { PrismaClient } from '@prisma/client';
+
+// Runs scrape → enrich → process the way the dashboard does, against the
+// database in DATABASE_URL (migrated, so device_models is seeded), with the
+// recorded catalog in fixtures/catalogs and the mock LLM provider. Skipped
+// without a database; replay.spec.ts covers the same steps without one.
+
+const ROOT = path.resolve(__dirname, '../..');
+const TS_NODE = path.join(ROOT, 'node_modules/.bin/ts-node');
+const PHONE = '919900000001';
+
+const env: NodeJS.ProcessEnv = {
+  ...process.env,
+  CATALOG_SOURCE: 'replay',
+  CATALOG_REPLAY_DIR: path.join(ROOT, 'fixtures/catalogs'),
+  CATALOG_ARCHIVE: 'false',
+  SELLER_PHONES: PHONE,
+  LLM_PROVIDER: 'mock',
+  PIPELINE_EVENTS: 'false',
+};
+delete env.SCRAPER_RUN_ID;
+delete env.SELLER_TAG;
+delete env.SCRAPE_DUE_ONLY;
+
+function step(script: string, ...args: string[]): string {
+  return execFileSync(TS_NODE, [path.join('src', script), ...args], { cwd: ROOT, env, encoding: 'utf-8' });
+}
+
+describe.skipIf(!process.env.DATABASE_URL)('scrape → enrich → process', () => {
+  let prisma: PrismaClient;
+  let runId: number;
+
+  beforeAll(async () => {
+    prisma = (await import('../db/client')).default;
+
+    const scraped = step('index.ts');
+    const registered = scraped.match(/Registered CLI run #(\d+)/);
+    expect(registered).not.toBeNull();
+    runId = Number(registered![1]);
+
+    step('enrich.ts', String(runId));
+    step('processor.ts', String(runId));
+  }, 300_000);
+
+  afterAll(async () => {
+    await prisma?.$disconnect();
+  });
+
+  it('completes the run', async () => {
+    const run = await prisma.scraperRun.findUniqueOrThrow({ where: { id: runId } });
+    expect(run).toMatchObject({ status: 'COMPLETED', sellersProcessed: 1 });
+  });
+
+  it('lists the replayed products with the rule and mock enrichment', async () => {
+    const product = await prisma.product.findUniqueOrThrow({ where: { id: 'demo-product-1' } });
+    expect(product).toMatchObject({
+      sellerPhone: PHONE,
+      rawName: 'iPhone 14 Pro 128GB Deep Purple',
+      category: 'iphone',
+      modelName: 'iPhone 14 Pro',
+      storageGb: '128 GB',
+      color: 'Deep Purple',
+      batteryHealth: '89%',
+      isActive: true,
+    });
+    expect(product.fieldSources).toMatchObject({ modelName: 'llm', storageGb: 'rules', color: 'rules' });
+
+    // Listed inside a collection
+    expect(await prisma.product.findUniqueOrThrow({ where: { id: 'demo-product-3' } })).toMatchObject({
+      modelName: 'iPhone 15 Pro Max',
+      storageGb: '256 GB',
+      isActive: true,
+    });
+  });
+
+  it('records the seller from its business profile', async () => {
+    const seller = await prisma.seller.findUniqueOrThrow({ where: { phoneNumber: PHONE } });
+    expect(seller.city).toBe('Mumbai');
+  });
+});
@@ -0,0 +1,110 @@
+import path from 'path';
+import { Product } from '@prisma/client';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { ReplayCatalogSource } from '../catalog';
+import { describeCategoriesForPrompt, getActiveCategories } from '../categories';
+import { DeviceCatalog, readDeviceModelFile } from '../device-models';
+import {
+  MockProvider,
+  enrichBatch,
+  extractWithRules,
+  mergeRuleFields,
+  snapToCatalog,
+  toEnrichmentInput,
+} from '../enrichment';
+import { scrapeCatalogForSeller } from '../scraper';
+import { EnrichedProduct, SellerScrapeResult } from '../types';
+import { computeChangesForSeller, computeDataHash } from './changes';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+// The steps of scrape → enrich → process on the recorded catalog in
+// fixtures/catalogs with the mock LLM provider, without a database: what the
+// steps keep in the staging and products tables is handed from one to the
+// next here instead. pipeline.spec.ts runs the steps themselves on a database.
+
+const PHONE = '919900000001';
+
+describe('scrape → enrich → process on the replayed catalog', () => {
+  let scraped: Awaited<ReturnType<typeof scrapeCatalogForSeller>>;
+  let enriched: EnrichedProduct[];
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const source = new ReplayCatalogSource(path.resolve(__dirname, '../../fixtures/catalogs'));
+    scraped = await scrapeCatalogForSeller(source, { phone: PHONE });
+
+    // As the enrich step does for each batch: the rules first, the LLM for the rest, then snapping to the catalog
+    const categories = getActiveCategories().map(({ definition }) => definition.id);
+    const catalog = new DeviceCatalog(readDeviceModelFile().filter((model) => categories.includes(model.category)));
+    const rules = new Map(
+      scraped.products.map((product) => [product.id, extractWithRules(toEnrichmentInput(product))]),
+    );
+    const inputs = scraped.products.map((product) => ({ ...toEnrichmentInput(product), known: rules.get(product.id) }));
+    const { results, failures } = await enrichBatch(
+      new MockProvider(catalog),
+      inputs,
+      describeCategoriesForPrompt(catalog),
+    );
+    expect(failures).toEqual([]);
+
+    const byId = new Map(scraped.products.map((product) => [product.id, product]));
+    enriched = results.map((result) => {
+      const { id, catalogIssues, ...enrichment } = snapToCatalog(
+        mergeRuleFields(result, rules.get(result.id)),
+        byId.get(result.id)!.category,
+        catalog,
+      );
+      expect(catalogIssues).toBeUndefined();
+      return { ...byId.get(id)!, ...enrichment };
+    });
+  });
+
+  it('scrapes the products of active categories from the main list and collections', () => {
+    expect(scraped.result).toMatchObject<Partial<SellerScrapeResult>>({
+      phone: PHONE,
+      outcome: 'OK',
+      productsTotal: 3,
+      productsMatched: 2,
+    });
+    expect(scraped.result.profile?.businessName).toBe('Demo Mobiles');
+    expect(scraped.products.map(({ id, category }) => ({ id, category }))).toEqual([
+      { id: 'demo-product-1', category: 'iphone' },
+      { id: 'demo-product-3', category: 'iphone' },
+    ]);
+  });
+
+  it('enriches them with the rules and the mock provider', () => {
+    expect(enriched.find(({ id }) => id === 'demo-product-1')).toMatchObject({
+      sellerPhone: PHONE,
+      modelName: 'iPhone 14 Pro',
+      storageGb: '128 GB',
+      color: 'Deep Purple',
+      batteryHealth: '89%',
+      sources: { modelName: 'llm', storageGb: 'rules', color: 'rules', batteryHealth: 'rules' },
+    });
+    expect(enriched.find(({ id }) => id === 'demo-product-3')).toMatchObject({
+      modelName: 'iPhone 15 Pro Max',
+      storageGb: '256 GB',
+      color: 'Natural Titanium',
+      condition: 'Like new',
+    });
+  });
+
+  it('creates them on the first run and finds them unchanged on the next', () => {
+    const first = computeChangesForSeller(enriched, new Map());
+    expect(first).toMatchObject({ productsFound: 2, productsNew: 2, productsUpdated: 0 });
+    expect(first.pending.map(({ changeType }) => changeType)).toEqual(['CREATED', 'CREATED']);
+
+    const stored = new Map(
+      enriched.map((product) => [
+        product.id,
+        { id: product.id, dataHash: computeDataHash(product), isActive: true } as Product,
+      ]),
+    );
+    const second = computeChangesForSeller(enriched, stored);
+    expect(second).toMatchObject({ productsNew: 0, productsUpdated: 0 });
+    expect(second.pending.map(({ changeType }) => changeType)).toEqual(['UNCHANGED', 'UNCHANGED']);
+  });
+});
@@ -0,0 +1,100 @@
+import prisma from '../db/client';
+
+// The ScraperRun a pipeline step works on. Dashboard runs pass SCRAPER_RUN_ID
+// and the dashboard tracks their status; runs started from the command line
+// are "standalone" and their steps record the outcome themselves.
+export type PipelineRun = {
+  id: number;
+  standalone: boolean;
+};
+
+function runFromEnv(): PipelineRun | null {
+  const id = Number(process.env.SCRAPER_RUN_ID);
+  return id > 0 ? { id, standalone: false } : null;
+}
+
+// Run to scrape into, registering a standalone run when the dashboard did not pass one
+export async function startRun(triggerType: 'CLI' | 'REBUILD'): Promise<PipelineRun> {
+  const fromEnv = runFromEnv();
+  if (fromEnv) return fromEnv;
+
+  const run = await prisma.scraperRun.create({
+    data: { status: 'RUNNING', triggerType },
+  });
+  console.log(`Registered ${triggerType} run #${run.id}`);
+  return { id: run.id, standalone: true };
+}
+
+// Run whose staged data a later step (enrich, processor) reads: SCRAPER_RUN_ID,
+// else the run id given on the command line, else the latest run with staged sellers.
+export async function resolveStagedRun(argv: string[] = process.argv.slice(2)): Promise<PipelineRun> {
+  const fromEnv = runFromEnv();
+  if (fromEnv) return fromEnv;
+
+  const fromArg = argv[0];
+  if (fromArg !== undefined) {
+    const id = Number(fromArg);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Invalid run id "${fromArg}"`);
+    }
+    const run = await prisma.scraperRun.findUnique({ where: { id } });
+    if (!run) throw new Error(`Run #${id} not found`);
+    return { id, standalone: true };
+  }
+
+  const latest = await prisma.stagedSeller.findFirst({
+    orderBy: { runId: 'desc' },
+    select: { runId: true },
+  });
+  if (!latest) {
+    throw new Error('No staged run found. Run "npm start" first.');
+  }
+  return { id: latest.runId, standalone: true };
+}
+
+// Columns of scraper_runs filled in when a run finishes
+export type RunOutcome = {
+  errorMessage?: string;
+  sellersProcessed?: number;
+  productsScraped?: number;
+  productsEnriched?: number;
+  productsCreated?: number;
+  productsUpdated?: number;
+  productsDeactivated?: number;
+};
+
+// Records the outcome of a standalone run; the dashboard does this for its own runs
+export async function finishStandaloneRun(
+  run: PipelineRun,
+  status: string,
+  details: RunOutcome = {},
+): Promise<void> {
+  if (!run.standalone) return;
+
+  await prisma.scraperRun.update({
+    where: { id: run.id },
+    data: { status, completedAt: new Date(), ...details },
+  });
+}
+
+// Exit code of a step stopped by SIGTERM/SIGINT; the dashboard marks the run CANCELLED
+export const CANCELLED_EXIT_CODE = 4;
+
+let stopSignal: string | null = null;
+
+// Asks the step to stop once the unit of work in flight (an enrichment batch,
+// a seller) is saved, so the run's staged data stays consistent for a resume.
+// Repeated signals are ignored: npm forwards the one it gets to the script too.
+export function handleStopSignals(unit: string): void {
+  const onSignal = (signal: string) => {
+    if (stopSignal) return;
+    stopSignal = signal;
+    console.log(`\nReceived ${signal}. Stopping after the current ${unit}...`);
+  };
+  process.on('SIGINT', () => onSignal('SIGINT'));
+  process.on('SIGTERM', () => onSignal('SIGTERM'));
+}
+
+export function stopRequested(): boolean {
+  return stopSignal !== null;
+}
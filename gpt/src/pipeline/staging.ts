@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db/client';
+import { emitEvent } from './events';
+import { ScrapedProduct } from '../scraper';
+import { EnrichedProduct, SellerScrapeResult } from '../types';
+import { FieldSources } from '../enrichment/types';
+
+// Staging tables (staged_sellers, staged_products) carry a run's data from
+// scrape to enrich to processor. Every row is keyed by the ScraperRun id, so
+// runs never overwrite each other and each step can resume where it stopped.
+
+// Fields the enrich step fills in on a staged product, whether each came from
+// rules or the LLM, and what of them did not match the device catalog
+export type ProductEnrichment = Pick<
+  EnrichedProduct,
+  'modelName' | 'storageGb' | 'color' | 'warranty' | 'batteryHealth' | 'condition'
+> & { sources?: FieldSources; catalogIssues?: string[] };
+
+export type StagedSellerResult = {
+  result: SellerScrapeResult;
+  processedAt: Date | null;
+};
+
+export type StagingSummary = {
+  sellers: number;
+  products: number;
+  enriched: number;
+  // Products the enrich step gave up on (staged_products.enrichment_error)
+  enrichFailed: number;
+  processed: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Staged rows of older runs are dropped when a new run starts; 0 keeps them all
+const STAGING_RETENTION_DAYS = Number(process.env.STAGING_RETENTION_DAYS ?? 14);
+
+// Stores one seller's scrape, replacing whatever an earlier attempt in the
+// same run staged for that seller
+export async function stageSellerScrape(
+  runId: number,
+  result: SellerScrapeResult,
+  products: ScrapedProduct[],
+): Promise<void> {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.stagedProduct.deleteMany({ where: { runId, sellerPhone: result.phone } });
+
+    const staged = {
+      outcome: result.outcome,
+      result: result as unknown as Prisma.InputJsonValue,
+      stagedAt: new Date(),
+      processedAt: null,
+    };
+    await tx.stagedSeller.upsert({
+      where: { runId_sellerPhone: { runId, sellerPhone: result.phone } },
+      create: { runId, sellerPhone: result.phone, ...staged },
+      update: staged,
+    });
+
+    if (products.length > 0) {
+      await tx.stagedProduct.createMany({
+        data: products.map((product) => ({
+          runId,
+          productId: product.id,
+          sellerPhone: result.phone,
+          raw: product as unknown as Prisma.InputJsonValue,
+        })),
+        skipDuplicates: true,
+      });
+    }
+  });
+}
+
+export async function loadStagedSellers(runId: number): Promise<StagedSellerResult[]> {
+  const rows = await prisma.stagedSeller.findMany({
+    where: { runId },
+    orderBy: { sellerPhone: 'asc' },
+  });
+  return rows.map((row: { result: unknown; processedAt: Date | null }) => ({
+    result: row.result as SellerScrapeResult,
+    processedAt: row.processedAt,
+  }));
+}
+
+// Scraped products as staged, enriched or not
+export async function loadStagedProducts(runId: number): Promise<ScrapedProduct[]> {
+  return findStagedProducts({ runId });
+}
+
+// Products the enrich step has not handled yet, so an interrupted enrich picks up where it stopped
+export async function loadUnenrichedProducts(runId: number): Promise<ScrapedProduct[]> {
+  return findStagedProducts({ runId, enrichedAt: null });
+}
+
+async function findStagedProducts(where: Prisma.StagedProductWhereInput): Promise<ScrapedProduct[]> {
+  const rows = await prisma.stagedProduct.findMany({
+    where,
+    orderBy: [{ sellerPhone: 'asc' }, { productId: 'asc' }],
+    select: { raw: true },
+  });
+  return rows.map((row: { raw: unknown }) => row.raw as ScrapedProduct);
+}
+
+export async function saveEnrichment(
+  runId: number,
+  results: ({ id: string } & ProductEnrichment)[],
+): Promise<void> {
+  const enrichedAt = new Date();
+  await prisma.$transaction(
+    results.map(({ id, ...enrichment }) =>
+      prisma.stagedProduct.update({
+        where: { runId_productId: { runId, productId: id } },
+        data: { enrichment, enrichedAt, enrichmentError: null },
+      }),
+    ),
+  );
+}
+
+// Products no valid enrichment could be got for: handled, so the processor is
+// not held up, but with the reason and at most what the rules extracted
+export async function saveEnrichmentFailures(
+  runId: number,
+  failures: { id: string; reason: string; enrichment?: ProductEnrichment }[],
+): Promise<void> {
+  const enrichedAt = new Date();
+  await prisma.$transaction(
+    failures.map(({ id, reason, enrichment }) =>
+      prisma.stagedProduct.update({
+        where: { runId_productId: { runId, productId: id } },
+        data: {
+          enrichment: enrichment ? (enrichment as Prisma.InputJsonValue) : Prisma.DbNull,
+          enrichedAt,
+          enrichmentError: reason,
+        },
+      }),
+    ),
+  );
+}
+
+// Ids of the run's products whose enrichment failed
+export async function loadEnrichmentFailures(runId: number): Promise<string[]> {
+  const rows = await prisma.stagedProduct.findMany({
+    where: { runId, enrichmentError: { not: null } },
+    select: { productId: true },
+  });
+  return rows.map((row: { productId: string }) => row.productId);
+}
+
+// Scraped products merged with their enrichment. Fails while any product is
+// still waiting for the enrich step.
+export async function loadEnrichedProducts(runId: number): Promise<EnrichedProduct[]> {
+  const rows: { raw: unknown; enrichment: unknown; enrichedAt: Date | null }[] =
+    await prisma.stagedProduct.findMany({
+      where: { runId },
+      orderBy: [{ sellerPhone: 'asc' }, { productId: 'asc' }],
+      select: { raw: true, enrichment: true, enrichedAt: true },
+    });
+
+  const pending = rows.filter((row) => !row.enrichedAt).length;
+  if (pending > 0) {
+    throw new Error(
+      `${pending} product(s) in run #${runId} are not enriched yet. Run "npm run enrich" before processing.`,
+    );
+  }
+
+  return rows.map((row) => ({
+    ...(row.raw as ScrapedProduct),
+    ...(row.enrichment as ProductEnrichment),
+  }));
+}
+
+export async function markSellerProcessed(runId: number, sellerPhone: string): Promise<void> {
+  await prisma.stagedSeller.update({
+    where: { runId_sellerPhone: { runId, sellerPhone } },
+    data: { processedAt: new Date() },
+  });
+}
+
+export async function summarizeStaging(runId: number): Promise<StagingSummary> {
+  const [sellers, processed, products, enriched, enrichFailed] = await Promise.all([
+    prisma.stagedSeller.count({ where: { runId } }),
+    prisma.stagedSeller.count({ where: { runId, processedAt: { not: null } } }),
+    prisma.stagedProduct.count({ where: { runId } }),
+    prisma.stagedProduct.count({ where: { runId, enrichedAt: { not: null }, enrichmentError: null } }),
+    prisma.stagedProduct.count({ where: { runId, enrichmentError: { not: null } } }),
+  ]);
+  return { sellers, products, enriched, enrichFailed, processed };
+}
+
+// Reports what the run has staged so far, earlier attempts included
+export async function logStagedScrape(runId: number): Promise<StagingSummary> {
+  const summary = await summarizeStaging(runId);
+  console.log(
+    `✓ Saved ${summary.products} products from ${summary.sellers} seller(s) to staging for run #${runId}`,
+  );
+  emitEvent({ type: 'scrape-finished', sellers: summary.sellers, products: summary.products });
+  return summary;
+}
+
+// Drops staged rows of runs started more than STAGING_RETENTION_DAYS ago
+export async function pruneStaging(now = new Date()): Promise<void> {
+  if (STAGING_RETENTION_DAYS <= 0) return;
+
+  const cutoff = new Date(now.getTime() - STAGING_RETENTION_DAYS * DAY_MS);
+  const oldRuns = { run: { startedAt: { lt: cutoff } } };
+  const [products, sellers] = await prisma.$transaction([
+    prisma.stagedProduct.deleteMany({ where: oldRuns }),
+    prisma.stagedSeller.deleteMany({ where: oldRuns }),
+  ]);
+  if (products.count + sellers.count > 0) {
+    console.log(
+      `Pruned staged data older than ${STAGING_RETENTION_DAYS} day(s): ${sellers.count} seller(s), ${products.count} product(s)`,
+    );
+  }
+}
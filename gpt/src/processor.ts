@@ -1,35 +1,39 @@
-import fs from 'fs';
-import path from 'path';
-import crypto from 'crypto';
 import { Prisma } from '@prisma/client';
 
 import prisma from './db/client';
-import { EnrichedProduct } from './types';
-
-type ChangeType = 'CREATED' | 'UPDATED' | 'REACTIVATED' | 'UNCHANGED';
-
-type PendingProduct = {
-  input: EnrichedProduct;
-  existing:
-    | Awaited<ReturnType<typeof prisma.product.findUnique>>
-    | null;
-  changeType: ChangeType;
-  dataHash: string;
+import { FieldSources } from './enrichment/types';
+import { computeChangesForSeller } from './pipeline/changes';
+import { emitEvent, errorMessage } from './pipeline/events';
+import {
+  CANCELLED_EXIT_CODE,
+  finishStandaloneRun,
+  handleStopSignals,
+  resolveStagedRun,
+  stopRequested,
+} from './pipeline/run';
+import {
+  loadEnrichedProducts,
+  loadEnrichmentFailures,
+  loadStagedSellers,
+  markSellerProcessed,
+  summarizeStaging,
+} from './pipeline/staging';
+import { applySellerProfile } from './sellers/profile';
+import { EnrichedProduct, SellerOutcome, SellerScrapeResult } from './types';
+
+type SellerChanges = {
+  created: number;
+  updated: number;
+  deactivated: number;
 };
 
-function computeDataHash(p: EnrichedProduct): string {
-  const base = [
-    p.id ?? '',
-    p.name ?? '',
-    p.description ?? '',
-    p.priceRaw !== undefined && p.priceRaw !== null ? String(p.priceRaw) : '',
-    p.availability !== undefined && p.availability !== null
-      ? String(p.availability)
-      : '',
-    p.currency ?? '',
-  ].join('|');
-
-  return crypto.createHash('sha256').update(base).digest('hex');
+// `sources` over the product's earlier ones, for updates that keep the fields this run left empty
+function mergeFieldSources(
+  existing: Prisma.JsonValue | null,
+  sources: FieldSources | undefined,
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  const merged: FieldSources = { ...((existing ?? {}) as FieldSources), ...sources };
+  return Object.keys(merged).length > 0 ? merged : Prisma.DbNull;
 }
 
 function buildSnapshot(args: {
@@ -42,6 +46,7 @@ function buildSnapshot(args: {
     currency: string | null;
     availability: string | null;
     imageCount: number | null;
+    category: string | null;
     modelName: string | null;
     storageGb: string | null;
     color: string | null;
@@ -73,6 +78,7 @@ function buildSnapshot(args: {
     availability: productRow.availability,
     imageCount: productRow.imageCount,
     productUrl: productUrl ?? null,
+    category: productRow.category,
     modelName: productRow.modelName,
     storageGb: productRow.storageGb,
     color: productRow.color,
@@ -87,87 +93,52 @@ function buildSnapshot(args: {
   };
 }
 
-async function loadEnrichedProducts(): Promise<EnrichedProduct[]> {
-  const productsPath = path.join(__dirname, '../products.enriched.json');
-  if (!fs.existsSync(productsPath)) {
-    throw new Error(
-      `products.enriched.json not found at ${productsPath}. Run "npm run enrich" before processing.`,
-    );
-  }
-
-  const raw = fs.readFileSync(productsPath, 'utf-8');
-  const parsed = JSON.parse(raw);
-
-  if (!Array.isArray(parsed)) {
-    throw new Error('products.enriched.json must be an array of product objects.');
-  }
-
-  return parsed as EnrichedProduct[];
-}
-
-function computeChangesForSeller(
-  inputs: EnrichedProduct[],
-  existingById: Map<string, Awaited<ReturnType<typeof prisma.product.findUnique>>>,
-): { pending: PendingProduct[]; productsFound: number; productsNew: number; productsUpdated: number } {
-  const pending: PendingProduct[] = [];
-  let productsNew = 0;
-  let productsUpdated = 0;
-
-  for (const input of inputs) {
-    const dataHash = computeDataHash(input);
-
-    const existing = existingById.get(input.id) ?? null;
-
-    if (!existing) {
-      pending.push({
-        input,
-        existing: null,
-        changeType: 'CREATED',
-        dataHash,
-      });
-      productsNew += 1;
-      continue;
-    }
-
-    if (existing.dataHash === dataHash && existing.isActive) {
-      pending.push({
-        input,
-        existing,
-        changeType: 'UNCHANGED',
-        dataHash,
-      });
-      continue;
-    }
-
-    const wasInactive = !existing.isActive;
-    const changeType: ChangeType = wasInactive ? 'REACTIVATED' : 'UPDATED';
-
-    pending.push({
-      input,
-      existing,
-      changeType,
-      dataHash,
-    });
-
-    productsUpdated += 1;
-  }
+// Records a scan whose catalog could not be fetched. Products are left as-is
+// so a broken scrape never looks like the seller removed their listings.
+async function recordFailedScan(result: SellerScrapeResult, scanTime: Date, runId: number) {
+  await prisma.seller.upsert({
+    where: { phoneNumber: result.phone },
+    create: {
+      phoneNumber: result.phone,
+      name: result.name ?? null,
+      city: result.city ?? null,
+      catalogueUrl: result.catalogueUrl ?? null,
+      isActive: true,
+    },
+    update: {},
+  });
 
-  return {
-    pending,
-    productsFound: inputs.length,
-    productsNew,
-    productsUpdated,
-  };
+  await prisma.scanLog.create({
+    data: {
+      sellerPhone: result.phone,
+      scanTime,
+      status: result.outcome,
+      errorMessage: result.error ?? null,
+      scraperRunId: runId,
+      sessionName: result.session ?? null,
+      productsFound: 0,
+      productsNew: 0,
+      productsUpdated: 0,
+    },
+  });
 }
 
 async function processSellerGroup(
   sellerPhone: string,
   inputs: EnrichedProduct[],
   scanTime: Date,
+  runId: number,
   sellerNameFromConfig?: string,
   sellerCityFromConfig?: string,
   sellerCatalogueUrlFromConfig?: string,
-) {
+  sessionName?: string,
+  // The scrape's outcome: EMPTY when the catalog had nothing in an active category,
+  // OK when it had even if every product was then excluded
+  outcome: SellerOutcome = 'OK',
+  // Listed products the enrich step failed on; kept rather than deactivated, with
+  // only the fields the rules extracted for them applied
+  unenriched: EnrichedProduct[] = [],
+): Promise<SellerChanges> {
   const basicSellerName =
     sellerNameFromConfig ||
     inputs.find((p) => p.sellerName && p.sellerName.trim().length > 0)?.sellerName ||
@@ -216,7 +187,7 @@ async function processSellerGroup(
     productsUpdated,
   } = computeChangesForSeller(inputs, existingById);
 
-  const seenIds = new Set<string>();
+  const seenIds = new Set<string>(unenriched.map((p) => p.id));
   for (const item of pending) {
     seenIds.add(item.input.id);
   }
@@ -244,6 +215,7 @@ async function processSellerGroup(
                 isActive: true,
                 // Update imageCount from scraper
                 imageCount: input.imageCount ?? existing.imageCount,
+                category: input.category ?? existing.category,
                 // Update enrichment fields even for UNCHANGED products
                 modelName: input.modelName ?? existing.modelName,
                 storageGb: input.storageGb ?? existing.storageGb,
@@ -251,6 +223,7 @@ async function processSellerGroup(
                 warranty: input.warranty ?? existing.warranty,
                 batteryHealth: input.batteryHealth ?? existing.batteryHealth,
                 condition: input.condition ?? existing.condition,
+                fieldSources: mergeFieldSources(existing.fieldSources, input.sources),
               },
             });
             continue;
@@ -276,12 +249,14 @@ async function processSellerGroup(
                 firstSeenAt: scanTime,
                 lastSeenAt: scanTime,
                 lastModifiedAt: scanTime,
+                category: input.category ?? null,
                 modelName: input.modelName ?? null,
                 storageGb: input.storageGb ?? null,
                 color: input.color ?? null,
                 warranty: input.warranty ?? null,
                 batteryHealth: input.batteryHealth ?? null,
                 condition: input.condition ?? null,
+                fieldSources: mergeFieldSources(null, input.sources),
               },
             }));
 
@@ -306,12 +281,14 @@ async function processSellerGroup(
                 lastModifiedAt: dataChanged
                   ? scanTime
                   : existing.lastModifiedAt ?? null,
+                category: input.category ?? existing.category,
                 modelName: input.modelName ?? null,
                 storageGb: input.storageGb ?? null,
                 color: input.color ?? null,
                 warranty: input.warranty ?? null,
                 batteryHealth: input.batteryHealth ?? null,
                 condition: input.condition ?? null,
+                fieldSources: mergeFieldSources(null, input.sources),
               },
             });
           }
@@ -338,10 +315,42 @@ async function processSellerGroup(
         maxWait: 10000, // 10 seconds max wait to start
       },
     );
+
+    // Reported once the batch is committed
+    for (const { input, changeType } of batch) {
+      if (changeType === 'UNCHANGED') continue;
+      emitEvent({ type: 'product-changed', productId: input.id, phone: sellerPhone, change: changeType });
+    }
+  }
+
+  // The rules do not need the LLM, so what they found still reaches listed products it failed on
+  const ruled = unenriched.filter((p) => p.sources && Object.keys(p.sources).length > 0);
+  if (ruled.length > 0) {
+    const listed = await prisma.product.findMany({
+      where: { sellerPhone, id: { in: ruled.map((p) => p.id) } },
+      select: { id: true, fieldSources: true },
+    });
+    const listedSources = new Map(listed.map((p) => [p.id, p.fieldSources]));
+    for (const input of ruled) {
+      if (!listedSources.has(input.id)) continue;
+      await prisma.product.update({
+        where: { id: input.id },
+        data: {
+          storageGb: input.storageGb ?? undefined,
+          color: input.color ?? undefined,
+          batteryHealth: input.batteryHealth ?? undefined,
+          condition: input.condition ?? undefined,
+          fieldSources: mergeFieldSources(listedSources.get(input.id) ?? null, input.sources),
+        },
+      });
+    }
+    if (listed.length > 0) {
+      console.log(`Applied rule-extracted fields to ${listed.length} listed product(s) whose enrichment failed`);
+    }
   }
 
   // Handle deactivations and scan log in a separate transaction
-  await prisma.$transaction(
+  const deactivatedIds: string[] = await prisma.$transaction(
     async (tx: Prisma.TransactionClient) => {
       const toDeactivate = await tx.product.findMany({
         where: {
@@ -381,31 +390,70 @@ async function processSellerGroup(
         data: {
           sellerPhone,
           scanTime,
+          status: outcome,
+          scraperRunId: runId,
+          sessionName: sessionName ?? null,
           productsFound,
           productsNew,
           productsUpdated,
         },
       });
+
+      return toDeactivate.map((product: { id: string }) => product.id);
     },
     {
       timeout: 30000, // 30 seconds timeout for deactivations and scan log
       maxWait: 10000,
     },
   );
+
+  for (const productId of deactivatedIds) {
+    emitEvent({ type: 'product-changed', productId, phone: sellerPhone, change: 'DEACTIVATED' });
+  }
+
+  return { created: productsNew, updated: productsUpdated, deactivated: deactivatedIds.length };
 }
 
 async function main() {
   console.log('Starting Phase 3 processor...');
+  handleStopSignals('seller');
   const scanTime = new Date();
 
-  const allProducts = await loadEnrichedProducts();
+  const run = await resolveStagedRun();
+  const allProducts = await loadEnrichedProducts(run.id);
+  const enrichFailed = new Set(await loadEnrichmentFailures(run.id));
+  const stagedSellers = await loadStagedSellers(run.id);
+  console.log(`Processing staged run #${run.id}`);
+
+  // Sellers applied by an earlier, interrupted processor pass for this run are not applied twice
+  const sellerResults = stagedSellers.filter((s) => !s.processedAt).map((s) => s.result);
+  if (sellerResults.length < stagedSellers.length) {
+    console.log(`Skipping ${stagedSellers.length - sellerResults.length} seller(s) already processed`);
+  }
+  const pendingPhones = new Set(sellerResults.map((r) => r.phone));
 
-  // Filter out products marked as EXCLUDE by AI (non-iPhone 13-17 or accessories) or with null model names
-  const products = allProducts.filter((p) => p.modelName && p.modelName !== 'EXCLUDE');
-  const excludedCount = allProducts.length - products.length;
+  // Filter out products marked as EXCLUDE by AI (not a valid model for their category, or accessories) or with null model names
+  const products = allProducts.filter(
+    (p) => p.modelName && p.modelName !== 'EXCLUDE' && pendingPhones.has(p.sellerPhone),
+  );
+  const excludedCount = allProducts.filter(
+    (p) =>
+      pendingPhones.has(p.sellerPhone) && !enrichFailed.has(p.id) && (!p.modelName || p.modelName === 'EXCLUDE'),
+  ).length;
   if (excludedCount > 0) {
     console.log(`Filtered out ${excludedCount} products (EXCLUDE or null model name)`);
   }
+  // Their listings are still up, so they are left as they are until a run enriches them,
+  // apart from the fields the rules extracted
+  const unenrichedByPhone = new Map<string, EnrichedProduct[]>();
+  for (const p of allProducts) {
+    if (!enrichFailed.has(p.id) || !pendingPhones.has(p.sellerPhone)) continue;
+    unenrichedByPhone.set(p.sellerPhone, [...(unenrichedByPhone.get(p.sellerPhone) ?? []), p]);
+  }
+  if (unenrichedByPhone.size > 0) {
+    const count = Array.from(unenrichedByPhone.values()).reduce((sum, items) => sum + items.length, 0);
+    console.log(`Keeping ${count} products whose enrichment failed as they are, apart from rule-extracted fields`);
+  }
 
   const grouped = new Map<string, EnrichedProduct[]>();
   for (const p of products) {
@@ -416,27 +464,104 @@ async function main() {
     grouped.get(p.sellerPhone)!.push(p);
   }
 
-  console.log(
-    `Processing ${products.length} valid products from products.enriched.json for ${grouped.size} seller(s).`,
-  );
+  console.log(`Processing ${products.length} valid products for ${grouped.size} seller(s).`);
+
+  // Sellers that were scraped fine but have nothing left after filtering still
+  // need processing, so their previously listed products get deactivated.
+  const failedResults: SellerScrapeResult[] = [];
+  for (const result of sellerResults) {
+    if (result.outcome === 'FAILED' || result.outcome === 'TIMEOUT') {
+      failedResults.push(result);
+    } else if (!grouped.has(result.phone)) {
+      grouped.set(result.phone, []);
+    }
+  }
+
+  emitEvent({ type: 'process-started', sellers: grouped.size, products: products.length });
+
+  for (const result of failedResults) {
+    console.log(`Skipping seller ${result.phone}: scrape ${result.outcome} (${result.error ?? 'unknown error'})`);
+    await recordFailedScan(result, scanTime, run.id);
+    await markSellerProcessed(run.id, result.phone);
+  }
+
+  const resultsByPhone = new Map(sellerResults.map((r) => [r.phone, r]));
+  const totals: SellerChanges = { created: 0, updated: 0, deactivated: 0 };
+  let appliedSellers = 0;
 
   for (const [sellerPhone, items] of grouped.entries()) {
+    if (stopRequested()) {
+      // Applied sellers are marked processed; the others are applied when the run resumes
+      console.log(`Stopped after ${appliedSellers} of ${grouped.size} seller(s); run #${run.id} can be resumed.`);
+      await finishStandaloneRun(run, 'CANCELLED', {
+        productsCreated: totals.created,
+        productsUpdated: totals.updated,
+        productsDeactivated: totals.deactivated,
+      });
+      await prisma.$disconnect();
+      process.exit(CANCELLED_EXIT_CODE);
+    }
+
+    const sellerResult = resultsByPhone.get(sellerPhone);
     const inferredName =
-      items.find((p) => p.sellerName && p.sellerName.trim().length > 0)?.sellerName ?? undefined;
+      items.find((p) => p.sellerName && p.sellerName.trim().length > 0)?.sellerName ??
+      sellerResult?.name ??
+      undefined;
     const inferredCity =
-      items.find((p) => p.sellerCity && p.sellerCity.trim().length > 0)?.sellerCity ?? undefined;
+      items.find((p) => p.sellerCity && p.sellerCity.trim().length > 0)?.sellerCity ??
+      sellerResult?.city ??
+      undefined;
     const inferredCatalogueUrl =
-      items.find((p) => p.sellerCatalogueUrl && p.sellerCatalogueUrl.trim().length > 0)?.sellerCatalogueUrl ?? undefined;
+      items.find((p) => p.sellerCatalogueUrl && p.sellerCatalogueUrl.trim().length > 0)?.sellerCatalogueUrl ??
+      sellerResult?.catalogueUrl ??
+      undefined;
     console.log(`Processing seller ${sellerPhone} with ${items.length} products...`);
-    await processSellerGroup(sellerPhone, items, scanTime, inferredName, inferredCity, inferredCatalogueUrl);
+    const changes = await processSellerGroup(
+      sellerPhone,
+      items,
+      scanTime,
+      run.id,
+      inferredName,
+      inferredCity,
+      inferredCatalogueUrl,
+      sellerResult?.session,
+      sellerResult?.outcome,
+      unenrichedByPhone.get(sellerPhone),
+    );
+
+    if (sellerResult?.profile) {
+      const changed = await applySellerProfile(sellerPhone, sellerResult.profile, scanTime);
+      if (changed.length > 0) {
+        console.log(`Business profile changed for ${sellerPhone}: ${changed.join(', ')}`);
+      }
+    }
+    await markSellerProcessed(run.id, sellerPhone);
+    appliedSellers += 1;
+    emitEvent({ type: 'seller-processed', phone: sellerPhone, ...changes });
+    totals.created += changes.created;
+    totals.updated += changes.updated;
+    totals.deactivated += changes.deactivated;
   }
 
+  emitEvent({ type: 'process-finished', sellers: grouped.size, ...totals });
+
+  const summary = await summarizeStaging(run.id);
+  await finishStandaloneRun(run, 'COMPLETED', {
+    sellersProcessed: summary.processed,
+    productsScraped: summary.products,
+    productsEnriched: summary.enriched,
+    productsCreated: totals.created,
+    productsUpdated: totals.updated,
+    productsDeactivated: totals.deactivated,
+  });
+
   console.log('Phase 3 processing complete.');
   await prisma.$disconnect();
 }
 
 main().catch((err) => {
   console.error('Processor failed:', err);
+  emitEvent({ type: 'error', step: 'process', message: errorMessage(err) });
   process.exit(1);
 });
 
@@ -0,0 +1,45 @@
+import { config as loadEnv } from 'dotenv';
+
+import { ReplayCatalogSource, listRecordedPhones, resolveArchiveDir } from './catalog';
+import prisma from './db/client';
+import { startRun } from './pipeline/run';
+import { logStagedScrape, stageSellerScrape } from './pipeline/staging';
+import { logScrapeSummary, scrapeCatalogForSeller } from './scraper';
+import { SellerConfig, SellerScrapeResult } from './types';
+
+loadEnv();
+
+// Stages an archived run again as a new REBUILD run, re-applying the current
+// filtering and field mapping without touching WhatsApp.
+// Usage: npm run rebuild -- <runId | archive dir name | path>
+async function main() {
+  const runRef = process.argv[2];
+  if (!runRef) {
+    throw new Error('Usage: npm run rebuild -- <runId | archive dir name | path>');
+  }
+
+  const dir = resolveArchiveDir(runRef);
+  const source = new ReplayCatalogSource(dir);
+  const phones = listRecordedPhones(dir);
+  const run = await startRun('REBUILD');
+  console.log(`Rebuilding run #${run.id} from ${dir} (${phones.length} seller(s))`);
+
+  const sellerResults: SellerScrapeResult[] = [];
+  for (const phone of phones) {
+    const seller: SellerConfig = source.getRecordedSeller(phone) ?? { phone };
+    const { products, result } = await scrapeCatalogForSeller(source, seller);
+    await stageSellerScrape(run.id, result, products);
+    sellerResults.push(result);
+  }
+
+  await logStagedScrape(run.id);
+  logScrapeSummary(sellerResults);
+  console.log(`Next: npm run enrich -- ${run.id} && npm run processor -- ${run.id}`);
+  await source.close();
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Rebuild failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,273 @@
+import {
+  CatalogArchive,
+  CatalogProduct,
+  CatalogSource,
+  RecordedCatalog,
+  SessionLostError,
+} from './catalog';
+import { matchCategory } from './categories';
+import { SellerConfig, SellerScrapeResult } from './types';
+import { RetryOptions, TimeoutError, withRetry } from './utils/retry';
+
+const SCRAPE_PROFILES = (process.env.SCRAPE_PROFILES ?? 'true').toLowerCase() !== 'false';
+
+const RETRY_OPTIONS: RetryOptions = {
+  retries: Number(process.env.SCRAPE_RETRIES ?? 3),
+  baseDelayMs: Number(process.env.SCRAPE_RETRY_BASE_MS ?? 2000),
+  maxDelayMs: Number(process.env.SCRAPE_RETRY_MAX_MS ?? 30000),
+  timeoutMs: Number(process.env.SCRAPE_TIMEOUT_MS ?? 120000),
+  isFatal: (err) => err instanceof SessionLostError,
+};
+
+export type ScrapedProduct = {
+  id: string;
+  name: string;
+  description: string;
+  availability: any;
+  priceRaw: any;
+  priceFormatted: string;
+  currency: string | undefined;
+  productUrl: string;
+  sellerPhone: string;
+  sellerName?: string;
+  sellerCity?: string;
+  sellerCatalogueUrl?: string;
+  imageCount: number;
+  category: string;
+};
+
+// Extract image count from product data (already fetched from getProducts/getCollections)
+function getImageCount(product: any): number {
+  let count = 0;
+
+  // Check image_cdn_urls (from WhatsApp catalog API)
+  if (product.image_cdn_urls && Array.isArray(product.image_cdn_urls)) {
+    count = product.image_cdn_urls.length > 0 ? 1 : 0;
+  }
+  // Check additional_image_cdn_urls
+  if (product.additional_image_cdn_urls && Array.isArray(product.additional_image_cdn_urls)) {
+    count += product.additional_image_cdn_urls.length;
+  }
+
+  // Alternative field names used by wppconnect
+  if (count === 0) {
+    // Check for main image
+    if (product.imageFull || product.imageUrl || product.image || product.imageHashes) {
+      count = 1;
+    }
+    // Check additionalImages array
+    if (product.additionalImages && Array.isArray(product.additionalImages)) {
+      count += product.additionalImages.length;
+    }
+    // Check images array (some versions)
+    if (product.images && Array.isArray(product.images)) {
+      count = product.images.length;
+    }
+    // Check mediaCount if available
+    if (product.mediaCount && typeof product.mediaCount === 'number') {
+      count = product.mediaCount;
+    }
+  }
+
+  return count;
+}
+
+export async function scrapeCatalogForSeller(
+  source: CatalogSource,
+  seller: SellerConfig,
+  archive?: CatalogArchive | null,
+): Promise<{ products: ScrapedProduct[]; result: SellerScrapeResult }> {
+  const { phone: sellerPhone, name: sellerName, city: sellerCity, catalogueUrl: sellerCatalogueUrl } = seller;
+  console.log(`Fetching catalog for ${sellerPhone}...`);
+  const chatId = `${sellerPhone}@c.us`;
+  const startedAt = Date.now();
+
+  const result: SellerScrapeResult = {
+    ...seller,
+    outcome: 'OK',
+    attempts: 0,
+    productsTotal: 0,
+    productsMatched: 0,
+    durationMs: 0,
+  };
+
+  // Raw responses, kept as-is for the run archive
+  const recorded: RecordedCatalog = {
+    seller,
+    fetchedAt: new Date().toISOString(),
+    products: [],
+    collections: [],
+  };
+
+  const allProducts = new Map<string, CatalogProduct>();
+
+  const addProducts = (products: CatalogProduct[] | undefined, origin: string) => {
+    if (!products || !Array.isArray(products)) return;
+    products.forEach((p) => {
+      if (p && p.id) {
+        if (!allProducts.has(p.id)) {
+          allProducts.set(p.id, { ...p, _source: origin });
+        }
+      }
+    });
+  };
+
+  console.log('Fetching products...');
+  try {
+    const { value: mainList, attempts } = await withRetry(
+      () => source.getProducts(chatId, 5000),
+      RETRY_OPTIONS,
+      `getProducts(${sellerPhone})`,
+    );
+    result.attempts = attempts;
+    recorded.products = mainList;
+    console.log(`Found ${mainList?.length || 0} products in main list`);
+    addProducts(mainList, 'main_list');
+  } catch (e) {
+    // A dropped session is not the seller's fault; the run stops instead
+    if (e instanceof SessionLostError) throw e;
+    // Without the main list we cannot tell what the seller actually has
+    console.error(`Error fetching main list for ${sellerPhone}:`, e);
+    result.attempts = RETRY_OPTIONS.retries + 1;
+    result.outcome = e instanceof TimeoutError ? 'TIMEOUT' : 'FAILED';
+    result.error = e instanceof Error ? e.message : String(e);
+    result.durationMs = Date.now() - startedAt;
+    return { products: [], result };
+  }
+
+  try {
+    const { value: collections } = await withRetry(
+      () => source.getCollections(chatId, 100, 100),
+      RETRY_OPTIONS,
+      `getCollections(${sellerPhone})`,
+    );
+    recorded.collections = collections;
+    if (collections && collections.length > 0) {
+      console.log(`Found ${collections.length} collections`);
+      for (const col of collections) {
+        addProducts(col.products, `collection: ${col.name}`);
+      }
+    }
+  } catch (e) {
+    if (e instanceof SessionLostError) throw e;
+    // Collections only supplement the main list, so the seller still counts as scraped
+    console.log('Error fetching collections:', e);
+    result.warnings = [`collections: ${e instanceof Error ? e.message : String(e)}`];
+  }
+
+  if (SCRAPE_PROFILES) {
+    try {
+      const { value: profile } = await withRetry(
+        () => source.getBusinessProfile(chatId),
+        RETRY_OPTIONS,
+        `getBusinessProfile(${sellerPhone})`,
+      );
+      recorded.profile = profile;
+      result.profile = profile;
+    } catch (e) {
+      if (e instanceof SessionLostError) throw e;
+      // The profile is informational only; the catalog is what matters
+      console.log('Error fetching business profile:', e);
+      result.warnings = [
+        ...(result.warnings ?? []),
+        `profile: ${e instanceof Error ? e.message : String(e)}`,
+      ];
+    }
+  }
+
+  archive?.write(sellerPhone, recorded);
+
+  console.log(`Total unique products for ${sellerPhone}: ${allProducts.size}`);
+
+  // Keep only products that belong to an active category (see config/categories.json)
+  const productsArray = Array.from(allProducts.values());
+  const matchedProducts: { product: CatalogProduct; category: string }[] = [];
+  for (const p of productsArray) {
+    const category = matchCategory(p.name || '', p.description || '');
+    if (category) matchedProducts.push({ product: p, category });
+  }
+
+  console.log(
+    `Found ${matchedProducts.length} matching products out of ${allProducts.size} total for ${sellerPhone}`,
+  );
+
+  result.productsTotal = allProducts.size;
+  result.productsMatched = matchedProducts.length;
+  result.durationMs = Date.now() - startedAt;
+
+  if (matchedProducts.length === 0) {
+    console.log('No products in active categories found for this seller. Skipping...');
+    result.outcome = 'EMPTY';
+    return { products: [], result };
+  }
+
+  const outputList: ScrapedProduct[] = [];
+
+  for (const { product: p, category } of matchedProducts) {
+    const rawPrice = p.price;
+    const currency = p.currency as string | undefined;
+    let formattedPrice = 'N/A';
+
+    if (rawPrice && currency) {
+      const value = Number(rawPrice);
+      try {
+        formattedPrice = new Intl.NumberFormat('en-US', {
+          style: 'currency',
+          currency: currency,
+        }).format(value / 1000);
+      } catch (e) {
+        formattedPrice = `${currency} ${value / 1000}`;
+      }
+    }
+
+    const record: ScrapedProduct = {
+      id: p.id,
+      name: p.name ?? '',
+      description: p.description ?? '',
+      availability: p.availability,
+      priceRaw: rawPrice,
+      priceFormatted: formattedPrice,
+      currency: currency,
+      productUrl: `https://web.whatsapp.com/product/${p.id}/${sellerPhone}`,
+      sellerPhone: sellerPhone,
+      sellerName: sellerName,
+      sellerCity: sellerCity,
+      sellerCatalogueUrl: sellerCatalogueUrl,
+      imageCount: getImageCount(p),
+      category,
+    };
+
+    outputList.push(record);
+  }
+
+  console.log(`✓ Collected ${outputList.length} products for ${sellerPhone}`);
+  return { products: outputList, result };
+}
+
+export function logScrapeSummary(results: SellerScrapeResult[]): void {
+  const counts = { OK: 0, EMPTY: 0, FAILED: 0, TIMEOUT: 0 };
+  results.forEach((r) => {
+    counts[r.outcome] += 1;
+  });
+
+  console.log('\nScrape summary:');
+  console.log(
+    `  OK: ${counts.OK}, EMPTY: ${counts.EMPTY}, FAILED: ${counts.FAILED}, TIMEOUT: ${counts.TIMEOUT}`,
+  );
+
+  const bySession = new Map<string, number>();
+  results.forEach((r) => {
+    if (r.session) bySession.set(r.session, (bySession.get(r.session) ?? 0) + 1);
+  });
+  if (bySession.size > 1) {
+    console.log(
+      `  Sessions: ${Array.from(bySession, ([session, count]) => `${session} ${count}`).join(', ')}`,
+    );
+  }
+
+  results
+    .filter((r) => r.outcome === 'FAILED' || r.outcome === 'TIMEOUT')
+    .forEach((r) => {
+      console.log(`  ✗ ${r.phone}${r.name ? ` (${r.name})` : ''}: ${r.outcome} - ${r.error}`);
+    });
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { adaptiveIntervalHours, ScrapeInterval, selectDueSellers } from './intervals';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Scans every `everyHours` from the epoch; `changed` says which of them found changes
+function scans(everyHours: number, changed: boolean[]) {
+  return changed.map((hasChanges, index) => ({
+    scanTime: new Date(index * everyHours * HOUR_MS),
+    changed: hasChanges,
+  }));
+}
+
+describe('adaptiveIntervalHours', () => {
+  it('uses the minimum until there are enough scans', () => {
+    expect(adaptiveIntervalHours([])).toBe(6);
+    expect(adaptiveIntervalHours(scans(24, [false, true]))).toBe(6);
+  });
+
+  it('scrapes about twice as often as the catalog changes', () => {
+    // 4 days, changing every other day
+    expect(adaptiveIntervalHours(scans(24, [false, false, true, false, true]))).toBe(24);
+  });
+
+  it('does not count the baseline scan as a change', () => {
+    expect(adaptiveIntervalHours(scans(24, [true, false, false, false, true]))).toBe(48);
+  });
+
+  it('stays within the bounds', () => {
+    expect(adaptiveIntervalHours(scans(1, [false, true, true, true]))).toBe(6);
+    expect(adaptiveIntervalHours(scans(24 * 10, [false, false, true]))).toBe(168);
+    expect(adaptiveIntervalHours(scans(24, [true, false, false, false]))).toBe(168);
+  });
+});
+
+describe('selectDueSellers', () => {
+  const now = new Date('2026-01-10T12:00:00Z');
+  const interval = (dueAt: Date | null): ScrapeInterval => ({
+    adaptiveHours: 24,
+    overrideHours: null,
+    lastScanAt: dueAt ? new Date(dueAt.getTime() - 24 * HOUR_MS) : null,
+    dueAt,
+  });
+
+  it('keeps sellers due within the grace period, never scanned or unknown', () => {
+    const sellers = ['overdue', 'almost', 'later', 'soon', 'never', 'unknown'].map((phone) => ({ phone }));
+    const intervals = new Map([
+      ['overdue', interval(new Date(now.getTime() - HOUR_MS))],
+      ['almost', interval(new Date(now.getTime() + 30 * 60 * 1000))],
+      ['later', interval(new Date(now.getTime() + 5 * HOUR_MS))],
+      ['soon', interval(new Date(now.getTime() + 2 * HOUR_MS))],
+      ['never', interval(null)],
+    ]);
+
+    const { due, notDue, nextDueAt } = selectDueSellers(sellers, intervals, now);
+    expect(due.map((seller) => seller.phone)).toEqual(['overdue', 'almost', 'never', 'unknown']);
+    expect(notDue.map((seller) => seller.phone)).toEqual(['later', 'soon']);
+    expect(nextDueAt).toEqual(new Date(now.getTime() + 2 * HOUR_MS));
+  });
+
+  it('has no next due time when every seller is due', () => {
+    expect(selectDueSellers([{ phone: 'a' }], new Map(), now).nextDueAt).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import prisma from '../db/client';
+import { SellerConfig } from '../types';
+
+// Adaptive scrape intervals. Each seller is scraped about twice as often as its
+// catalog changed (scans with new or updated products) over the last
+// SCRAPE_INTERVAL_WINDOW_DAYS, within the min/max bounds. A manual override
+// (sellers.scrape_interval_hours, set on the dashboard) wins. Runs started with
+// SCRAPE_DUE_ONLY=true only scrape the sellers whose interval is up.
+
+const MIN_HOURS = Math.max(1, Number(process.env.SCRAPE_INTERVAL_MIN_HOURS || 6));
+const MAX_HOURS = Math.max(MIN_HOURS, Number(process.env.SCRAPE_INTERVAL_MAX_HOURS || 168));
+const WINDOW_DAYS = Number(process.env.SCRAPE_INTERVAL_WINDOW_DAYS || 30);
+// A seller counts as due this long before its interval is up, so a run firing
+// a little early (or a scrape that finished late) does not skip it for a whole cycle
+const DUE_GRACE_HOURS = Number(process.env.SCRAPE_DUE_GRACE_HOURS || 1);
+// Successful scans needed before the change rate is trusted; newer sellers use the minimum
+const MIN_SCANS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type ScrapeInterval = {
+  adaptiveHours: number;
+  overrideHours: number | null;
+  // Last scan that fetched the catalog; null when it never was
+  lastScanAt: Date | null;
+  dueAt: Date | null;
+};
+
+// Successful scans of a seller, oldest first; the first one is the baseline the others changed from
+export function adaptiveIntervalHours(scans: { scanTime: Date; changed: boolean }[]): number {
+  if (scans.length < MIN_SCANS) return MIN_HOURS;
+
+  const first = scans[0].scanTime.getTime();
+  const spanHours = (scans[scans.length - 1].scanTime.getTime() - first) / HOUR_MS;
+  const changes = scans.slice(1).filter((scan) => scan.changed).length;
+  if (changes === 0) return MAX_HOURS;
+
+  const hoursPerChange = spanHours / changes;
+  return Math.min(MAX_HOURS, Math.max(MIN_HOURS, Math.round(hoursPerChange / 2)));
+}
+
+/**
+ * Works out the scrape interval of each seller from its scan history and
+ * saves the adaptive ones (sellers.adaptive_interval_hours) for the dashboard.
+ */
+export async function refreshScrapeIntervals(phones: string[]): Promise<Map<string, ScrapeInterval>> {
+  const since = new Date(Date.now() - WINDOW_DAYS * 24 * HOUR_MS);
+  const successful = { in: ['OK', 'EMPTY'] };
+
+  const [sellers, recentScans, lastScans] = await Promise.all([
+    prisma.seller.findMany({
+      where: { phoneNumber: { in: phones } },
+      select: { phoneNumber: true, scrapeIntervalHours: true, adaptiveIntervalHours: true },
+    }),
+    prisma.scanLog.findMany({
+      where: { sellerPhone: { in: phones }, status: successful, scanTime: { gte: since } },
+      select: { sellerPhone: true, scanTime: true, productsNew: true, productsUpdated: true },
+      orderBy: { scanTime: 'asc' },
+    }),
+    prisma.scanLog.groupBy({
+      by: ['sellerPhone'],
+      where: { sellerPhone: { in: phones }, status: successful },
+      _max: { scanTime: true },
+    }),
+  ]);
+
+  const scansBySeller = new Map<string, { scanTime: Date; changed: boolean }[]>();
+  for (const scan of recentScans) {
+    const scans = scansBySeller.get(scan.sellerPhone) ?? [];
+    scans.push({ scanTime: scan.scanTime, changed: scan.productsNew + scan.productsUpdated > 0 });
+    scansBySeller.set(scan.sellerPhone, scans);
+  }
+  const lastScanBySeller = new Map<string, Date | null>(
+    lastScans.map((row) => [row.sellerPhone, row._max.scanTime]),
+  );
+
+  const intervals = new Map<string, ScrapeInterval>();
+  for (const seller of sellers) {
+    const adaptiveHours = adaptiveIntervalHours(scansBySeller.get(seller.phoneNumber) ?? []);
+    if (adaptiveHours !== seller.adaptiveIntervalHours) {
+      // Raw, so the seller's updated_at keeps tracking edits made on the dashboard
+      await prisma.$executeRaw`
+        UPDATE sellers SET adaptive_interval_hours = ${adaptiveHours}
+        WHERE phone_number = ${seller.phoneNumber}
+      `;
+    }
+
+    const lastScanAt = lastScanBySeller.get(seller.phoneNumber) ?? null;
+    const hours = seller.scrapeIntervalHours ?? adaptiveHours;
+    intervals.set(seller.phoneNumber, {
+      adaptiveHours,
+      overrideHours: seller.scrapeIntervalHours,
+      lastScanAt,
+      dueAt: lastScanAt ? new Date(lastScanAt.getTime() + hours * HOUR_MS) : null,
+    });
+  }
+
+  return intervals;
+}
+
+// Splits sellers into the ones due for a scrape and the rest. Sellers never
+// scanned, or not in the registry, are always due.
+export function selectDueSellers(
+  sellers: SellerConfig[],
+  intervals: Map<string, ScrapeInterval>,
+  now = new Date(),
+): { due: SellerConfig[]; notDue: SellerConfig[]; nextDueAt: Date | null } {
+  const cutoff = now.getTime() + DUE_GRACE_HOURS * HOUR_MS;
+  const due: SellerConfig[] = [];
+  const notDue: SellerConfig[] = [];
+  let nextDueAt: Date | null = null;
+
+  for (const seller of sellers) {
+    const dueAt = intervals.get(seller.phone)?.dueAt ?? null;
+    if (!dueAt || dueAt.getTime() <= cutoff) {
+      due.push(seller);
+      continue;
+    }
+    notDue.push(seller);
+    if (!nextDueAt || dueAt < nextDueAt) nextDueAt = dueAt;
+  }
+
+  return { due, notDue, nextDueAt };
+}
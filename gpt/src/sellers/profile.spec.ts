@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { cityFromAddress } from './profile';
+
+vi.mock('../db/client', () => ({ default: {} }));
+
+describe('cityFromAddress', () => {
+  it('drops the country, postal code and state', () => {
+    expect(cityFromAddress('Shop 4, Lamington Road, Mumbai, Maharashtra 400007, India')).toBe('Mumbai');
+    expect(cityFromAddress('12 MG Road\nBengaluru - 560001\nKarnataka')).toBe('Bengaluru');
+    expect(cityFromAddress('Nehru Place, New Delhi 110 019')).toBe('New Delhi');
+  });
+
+  it('matches states whatever their case', () => {
+    expect(cityFromAddress('Anna Salai, Chennai, TAMIL NADU')).toBe('Chennai');
+  });
+
+  it('gives up on a lone part or a part with numbers', () => {
+    expect(cityFromAddress('Lamington Road')).toBeNull();
+    expect(cityFromAddress('Lamington Road, Shop 4')).toBeNull();
+    expect(cityFromAddress('Maharashtra, India')).toBeNull();
+  });
+
+  it('handles a missing address', () => {
+    expect(cityFromAddress(null)).toBeNull();
+    expect(cityFromAddress(undefined)).toBeNull();
+    expect(cityFromAddress('')).toBeNull();
+  });
+});
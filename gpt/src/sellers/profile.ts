@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client';
+
+import prisma from '../db/client';
+import { BusinessProfile } from '../catalog';
+
+// Seller columns holding the business profile, keyed by BusinessProfile field
+const PROFILE_COLUMNS = {
+  businessName: 'businessName',
+  description: 'businessDescription',
+  address: 'businessAddress',
+  email: 'businessEmail',
+  websites: 'businessWebsites',
+  category: 'businessCategory',
+  hours: 'businessHours',
+} as const;
+
+type ProfileField = keyof typeof PROFILE_COLUMNS;
+
+// Indian states and union territories, which end most addresses after the city
+const STATES = new Set([
+  'andhra pradesh', 'arunachal pradesh', 'assam', 'bihar', 'chhattisgarh', 'goa', 'gujarat',
+  'haryana', 'himachal pradesh', 'jharkhand', 'karnataka', 'kerala', 'madhya pradesh',
+  'maharashtra', 'manipur', 'meghalaya', 'mizoram', 'nagaland', 'odisha', 'punjab',
+  'rajasthan', 'sikkim', 'tamil nadu', 'telangana', 'tripura', 'uttar pradesh',
+  'uttarakhand', 'west bengal', 'andaman and nicobar islands', 'chandigarh',
+  'dadra and nagar haveli and daman and diu', 'jammu and kashmir', 'ladakh', 'lakshadweep',
+  'puducherry',
+]);
+
+/**
+ * Best-effort city from a free-form address such as
+ * "Shop 4, Lamington Road, Mumbai, Maharashtra 400007, India" -> "Mumbai".
+ * Drops the country, postal code and state, then takes the last part left.
+ */
+export function cityFromAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+
+  const parts = address
+    .split(/[,\n]/)
+    .map((part) => part.replace(/\b\d{3}\s?\d{3}\b/g, '').replace(/[-–]\s*$/, '').trim())
+    .filter((part) => part.length > 0 && !/^india$/i.test(part));
+
+  while (parts.length > 1 && STATES.has(parts[parts.length - 1].toLowerCase())) {
+    parts.pop();
+  }
+
+  const city = parts[parts.length - 1];
+  // A lone part is most likely a street or shop, not a city
+  if (!city || parts.length < 2 || /\d/.test(city)) return null;
+  return city;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Stores a freshly scraped profile on the seller. Changed fields are recorded
+ * in seller_profile_history, and a missing city is filled from the address.
+ * Returns the names of the fields that changed.
+ */
+export async function applySellerProfile(
+  sellerPhone: string,
+  profile: BusinessProfile,
+  scanTime: Date,
+): Promise<string[]> {
+  const seller = await prisma.seller.findUnique({ where: { phoneNumber: sellerPhone } });
+  if (!seller) return [];
+
+  const changedFields = (Object.keys(PROFILE_COLUMNS) as ProfileField[]).filter(
+    (field) => !sameValue(seller[PROFILE_COLUMNS[field]], profile[field]),
+  );
+
+  const city = seller.city ? null : cityFromAddress(profile.address);
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.seller.update({
+      where: { phoneNumber: sellerPhone },
+      data: {
+        businessName: profile.businessName,
+        businessDescription: profile.description,
+        businessAddress: profile.address,
+        businessEmail: profile.email,
+        businessWebsites: profile.websites,
+        businessCategory: profile.category,
+        businessHours: profile.hours ?? Prisma.JsonNull,
+        profileUpdatedAt: scanTime,
+        ...(city ? { city } : {}),
+      },
+    });
+
+    if (changedFields.length > 0) {
+      await tx.sellerProfileHistory.create({
+        data: {
+          sellerPhone,
+          recordedAt: scanTime,
+          changedFields,
+          snapshot: profile as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  });
+
+  if (city) {
+    console.log(`Filled in city "${city}" for seller ${sellerPhone} from business address`);
+  }
+  return changedFields;
+}
@@ -0,0 +1,63 @@
+import prisma from '../db/client';
+import { SellerConfig } from '../types';
+
+// Enabled sellers from the `sellers` table, which decides what gets scraped;
+// only those tagged `tag` when given
+export async function loadRegisteredSellers(tag?: string): Promise<SellerConfig[]> {
+  const sellers = await prisma.seller.findMany({
+    where: { enabled: true, ...(tag ? { tags: { has: tag } } : {}) },
+    orderBy: { phoneNumber: 'asc' },
+  });
+
+  return sellers.map((seller) => ({
+    phone: seller.phoneNumber,
+    name: seller.name ?? undefined,
+    city: seller.city ?? undefined,
+    catalogueUrl: seller.catalogueUrl ?? undefined,
+  }));
+}
+
+export type ImportReport = {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+};
+
+// Adds sellers from an import source (e.g. the Google Sheet). Existing sellers
+// only get blank fields filled in, so edits made in the dashboard are kept.
+export async function importSellers(sellers: SellerConfig[]): Promise<ImportReport> {
+  const report: ImportReport = { created: [], updated: [], unchanged: [] };
+
+  for (const seller of sellers) {
+    const existing = await prisma.seller.findUnique({ where: { phoneNumber: seller.phone } });
+
+    if (!existing) {
+      await prisma.seller.create({
+        data: {
+          phoneNumber: seller.phone,
+          name: seller.name ?? null,
+          city: seller.city ?? null,
+          catalogueUrl: seller.catalogueUrl ?? null,
+          enabled: true,
+        },
+      });
+      report.created.push(seller.phone);
+      continue;
+    }
+
+    const updates: { name?: string; city?: string; catalogueUrl?: string } = {};
+    if (!existing.name && seller.name) updates.name = seller.name;
+    if (!existing.city && seller.city) updates.city = seller.city;
+    if (!existing.catalogueUrl && seller.catalogueUrl) updates.catalogueUrl = seller.catalogueUrl;
+
+    if (Object.keys(updates).length === 0) {
+      report.unchanged.push(seller.phone);
+      continue;
+    }
+
+    await prisma.seller.update({ where: { phoneNumber: seller.phone }, data: updates });
+    report.updated.push(seller.phone);
+  }
+
+  return report;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseSellerCsv, parseSellerRows, phoneFromCatalogueUrl } from './sheet';
+
+describe('phoneFromCatalogueUrl', () => {
+  it('reads the phone from wa.me and catalog links', () => {
+    expect(phoneFromCatalogueUrl('https://wa.me/c/919916515577')).toBe('919916515577');
+    expect(phoneFromCatalogueUrl('https://web.whatsapp.com/catalog/919916515577')).toBe('919916515577');
+    expect(phoneFromCatalogueUrl('https://example.com/shop')).toBeNull();
+  });
+});
+
+describe('parseSellerRows', () => {
+  it('maps header aliases, whatever their case and spacing', () => {
+    const result = parseSellerCsv(
+      'Seller Name,Location,Catalogue-Link\nPhone Hub,Mumbai,https://wa.me/c/919916515577\n',
+    );
+    expect(result.sellers).toEqual([
+      { phone: '919916515577', name: 'Phone Hub', city: 'Mumbai', catalogueUrl: 'https://wa.me/c/919916515577' },
+    ]);
+    expect(result.invalid).toEqual([]);
+  });
+
+  it('takes the phone column when there is no catalogue link', () => {
+    const result = parseSellerCsv('name,phone\nA,+91 99165 15577\n');
+    expect(result.sellers).toEqual([{ phone: '919916515577', name: 'A', city: undefined, catalogueUrl: undefined }]);
+  });
+
+  it('reports invalid rows with their spreadsheet line numbers', () => {
+    const result = parseSellerCsv(
+      [
+        'name,phone,catalogue_link',
+        'Not a URL,,wa.me/c/919916515577',
+        'No phone in link,,https://example.com/shop',
+        'Too short,1234,',
+        'Mismatch,919900000000,https://wa.me/c/919916515577',
+      ].join('\n'),
+    );
+    expect(result.sellers).toEqual([]);
+    expect(result.invalid.map(({ line, reason }) => [line, reason])).toEqual([
+      [2, 'Catalogue link is not an http(s) URL'],
+      [3, 'Catalogue link has no phone number'],
+      [4, 'Missing or invalid phone number'],
+      [5, 'Phone 919900000000 does not match catalogue link (919916515577)'],
+    ]);
+  });
+
+  it('keeps the first of repeated phones and reports the others as duplicates', () => {
+    const result = parseSellerCsv(
+      'name,catalogue_link,phone\nA,https://wa.me/c/919916515577,\nB,,919916515577\n',
+    );
+    expect(result.sellers.map((seller) => seller.name)).toEqual(['A']);
+    expect(result.duplicates).toEqual([{ line: 3, reason: 'Duplicate of an earlier row', value: '919916515577' }]);
+  });
+
+  it('throws when neither a link nor a phone column is present', () => {
+    expect(() => parseSellerRows([['name', 'city'], ['A', 'Mumbai']])).toThrow(/catalogue_link/);
+  });
+
+  it('returns nothing for a sheet with only a header', () => {
+    expect(parseSellerRows([['name', 'phone']])).toEqual({ sellers: [], invalid: [], duplicates: [] });
+  });
+});
@@ -0,0 +1,148 @@
+import fs from 'fs';
+
+import { SellerConfig } from '../types';
+import { parseCsv } from '../utils/csv';
+
+export type SheetIssue = {
+  line: number;
+  reason: string;
+  value?: string;
+};
+
+export type SheetParseResult = {
+  sellers: SellerConfig[];
+  invalid: SheetIssue[];
+  duplicates: SheetIssue[];
+};
+
+const HEADER_ALIASES = {
+  name: ['name', 'seller_name', 'seller'],
+  city: ['city', 'location'],
+  phone: ['phone', 'phone_number', 'whatsapp'],
+  url: ['catalogue_link', 'catalogue_url', 'catalog_link', 'catalog_url'],
+};
+
+function toCsvExportUrl(url: string): string {
+  if (!url.includes('docs.google.com/spreadsheets')) {
+    return url;
+  }
+  if (url.includes('/export?')) {
+    return url;
+  }
+
+  const idMatch = url.match(/\/d\/([^/]+)/);
+  const id = idMatch?.[1];
+  if (!id) return url;
+
+  const gidMatch = url.match(/[?#]gid=(\d+)/);
+  const gid = gidMatch?.[1] ?? '0';
+
+  return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=${gid}`;
+}
+
+// Catalogue links look like https://wa.me/c/919916515577 or .../catalog/919916515577
+export function phoneFromCatalogueUrl(url: string): string | null {
+  const match = url.match(/\/c(?:atalog)?\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Turns sheet rows (header first) into sellers. Rows without a usable
+ * catalogue link or phone, or whose phone column disagrees with the link, are
+ * reported as invalid; repeated phones keep the first row and are reported as
+ * duplicates. Line numbers are 1-based and include the header row, matching
+ * what a spreadsheet shows. The dashboard's import (lib/seller-import.ts)
+ * applies the same rules, so a sheet imports the same way from either.
+ */
+export function parseSellerRows(rows: string[][]): SheetParseResult {
+  const result: SheetParseResult = { sellers: [], invalid: [], duplicates: [] };
+  if (rows.length <= 1) return result;
+
+  const headers = rows[0].map(normalizeHeader);
+  const column = (aliases: string[]) => headers.findIndex((h) => aliases.includes(h));
+  const nameIdx = column(HEADER_ALIASES.name);
+  const cityIdx = column(HEADER_ALIASES.city);
+  const phoneIdx = column(HEADER_ALIASES.phone);
+  const urlIdx = column(HEADER_ALIASES.url);
+
+  if (urlIdx === -1 && phoneIdx === -1) {
+    throw new Error(
+      'Could not find a "catalogue_link", "catalogue_url" or "phone" column in the sheet headers.',
+    );
+  }
+
+  const seen = new Set<string>();
+  const cell = (row: string[], idx: number) => (idx === -1 ? '' : (row[idx] ?? '').trim());
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const line = i + 1;
+    const rawUrl = cell(row, urlIdx);
+    const rawPhone = cell(row, phoneIdx).replace(/\D/g, '');
+
+    if (rawUrl && !/^https?:\/\//i.test(rawUrl)) {
+      result.invalid.push({ line, reason: 'Catalogue link is not an http(s) URL', value: rawUrl });
+      continue;
+    }
+
+    const urlPhone = rawUrl ? phoneFromCatalogueUrl(rawUrl) : null;
+    if (rawUrl && !urlPhone && !rawPhone) {
+      result.invalid.push({ line, reason: 'Catalogue link has no phone number', value: rawUrl });
+      continue;
+    }
+
+    if (urlPhone && rawPhone && urlPhone !== rawPhone) {
+      result.invalid.push({
+        line,
+        reason: `Phone ${rawPhone} does not match catalogue link (${urlPhone})`,
+        value: rawUrl,
+      });
+      continue;
+    }
+
+    const phone = urlPhone ?? rawPhone;
+    if (phone.length < 8 || phone.length > 20) {
+      result.invalid.push({ line, reason: 'Missing or invalid phone number', value: rawUrl || rawPhone });
+      continue;
+    }
+
+    if (seen.has(phone)) {
+      result.duplicates.push({ line, reason: 'Duplicate of an earlier row', value: phone });
+      continue;
+    }
+    seen.add(phone);
+
+    result.sellers.push({
+      phone,
+      name: cell(row, nameIdx) || undefined,
+      city: cell(row, cityIdx) || undefined,
+      catalogueUrl: rawUrl || undefined,
+    });
+  }
+
+  return result;
+}
+
+export function parseSellerCsv(text: string): SheetParseResult {
+  return parseSellerRows(parseCsv(text));
+}
+
+// Reads sellers from a Google Sheet URL, any CSV URL, or a local CSV file
+export async function loadSellerSheet(source: string): Promise<SheetParseResult> {
+  if (!/^https?:\/\//i.test(source)) {
+    console.log(`Reading sellers from CSV file: ${source}`);
+    return parseSellerCsv(fs.readFileSync(source, 'utf-8'));
+  }
+
+  const csvUrl = toCsvExportUrl(source);
+  console.log(`Fetching sellers from Google Sheet CSV: ${csvUrl}`);
+  const res = await fetch(csvUrl);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch sheet: ${res.status} ${res.statusText}`);
+  }
+  return parseSellerCsv(await res.text());
+}
@@ -0,0 +1,94 @@
+import prisma from '../db/client';
+
+// Keeps whatsapp_sessions up to date for the dashboard's session health view
+
+export type SessionState = 'CONNECTED' | 'WAITING_FOR_SCAN' | 'LOGGED_OUT' | 'DISCONNECTED' | 'UNKNOWN';
+
+const runId = (): number | null => {
+  const id = Number(process.env.SCRAPER_RUN_ID);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// Health bookkeeping must never take a run down with it
+async function save(sessionName: string, label: string, update: () => Promise<unknown>) {
+  try {
+    await update();
+  } catch (error) {
+    console.warn(`Could not record ${label} for session ${sessionName}:`, (error as Error).message);
+  }
+}
+
+export async function recordSessionState(
+  sessionName: string,
+  state: SessionState,
+  detail: string | null = null,
+): Promise<void> {
+  const now = new Date();
+  await save(sessionName, 'session state', () =>
+    prisma.whatsappSession.upsert({
+      where: { name: sessionName },
+      create: { name: sessionName, state, stateDetail: detail, lastCheckedAt: now, lastRunId: runId() },
+      update: { state, stateDetail: detail, lastCheckedAt: now, lastRunId: runId() },
+    }),
+  );
+}
+
+// `scannedAt` is set when the login came from a fresh QR scan (a new token).
+// Otherwise the token file's age is the best guess for sessions seen for the first time.
+export async function recordSessionLogin(
+  sessionName: string,
+  scannedAt: Date | null,
+  tokenSavedAt: Date | null,
+): Promise<void> {
+  const now = new Date();
+  await save(sessionName, 'login', async () => {
+    const existing = await prisma.whatsappSession.findUnique({ where: { name: sessionName } });
+    const linkedAt = scannedAt ?? existing?.linkedAt ?? tokenSavedAt;
+    const data = {
+      state: 'CONNECTED',
+      stateDetail: null,
+      lastCheckedAt: now,
+      lastLoginAt: now,
+      linkedAt,
+      consecutiveFailures: 0,
+      lastRunId: runId(),
+    };
+    await prisma.whatsappSession.upsert({
+      where: { name: sessionName },
+      create: { name: sessionName, ...data },
+      update: data,
+    });
+  });
+}
+
+export async function recordSessionFailure(
+  sessionName: string,
+  state: SessionState,
+  reason: string,
+): Promise<void> {
+  const now = new Date();
+  await save(sessionName, 'failure', () =>
+    prisma.whatsappSession.upsert({
+      where: { name: sessionName },
+      create: {
+        name: sessionName,
+        state,
+        lastCheckedAt: now,
+        failureCount: 1,
+        consecutiveFailures: 1,
+        lastFailureAt: now,
+        lastFailureReason: reason,
+        lastRunId: runId(),
+      },
+      update: {
+        state,
+        lastCheckedAt: now,
+        failureCount: { increment: 1 },
+        consecutiveFailures: { increment: 1 },
+        lastFailureAt: now,
+        lastFailureReason: reason,
+        lastRunId: runId(),
+      },
+    }),
+  );
+}
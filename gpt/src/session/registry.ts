@@ -0,0 +1,37 @@
+import prisma from '../db/client';
+
+// The original single session; its browser profile and token keep their old locations
+export const DEFAULT_SESSION_NAME = 'whatsapp-store-session';
+
+// Session names double as directory names
+export const SESSION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,99}$/;
+
+// WhatsApp sessions to scrape with: WHATSAPP_SESSIONS overrides the enabled
+// rows of whatsapp_sessions (managed on the dashboard's /auth page), and the
+// default session is used when neither names any.
+export async function loadSessionNames(): Promise<string[]> {
+  const override = (process.env.WHATSAPP_SESSIONS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const names: string[] =
+    override.length > 0
+      ? override
+      : (
+          await prisma.whatsappSession.findMany({
+            where: { enabled: true },
+            orderBy: { createdAt: 'asc' },
+            select: { name: true },
+          })
+        ).map((session: { name: string }) => session.name);
+
+  const invalid = names.filter((name) => !SESSION_NAME_PATTERN.test(name));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid session name(s): ${invalid.join(', ')}. Use lowercase letters, digits, "-" and "_".`,
+    );
+  }
+
+  return names.length > 0 ? Array.from(new Set(names)) : [DEFAULT_SESSION_NAME];
+}
@@ -0,0 +1,38 @@
+import { config as loadEnv } from 'dotenv';
+
+import prisma from './db/client';
+import { DEVICE_MODELS_PATH, readDeviceModelFile, syncDeviceModels } from './device-models';
+
+loadEnv();
+
+// Brings the device_models table in line with config/device-models.json (or
+// DEVICE_MODELS_PATH): adds new models and updates changed ones. Models only
+// in the table are listed, and deleted with --prune.
+// Usage: npm run sync-device-models -- [--prune]
+async function main() {
+  const prune = process.argv.includes('--prune');
+  const models = readDeviceModelFile();
+  const report = await syncDeviceModels(models, prune);
+
+  console.log(
+    `Synced ${models.length} device model(s) from ${DEVICE_MODELS_PATH}: ${report.created.length} created, ` +
+      `${report.updated.length} updated, ${report.unchanged.length} unchanged.`,
+  );
+  for (const name of [...report.created, ...report.updated]) {
+    console.log(`  ${report.created.includes(name) ? 'created' : 'updated'}: ${name}`);
+  }
+  if (report.deleted.length > 0) {
+    console.log(`Deleted ${report.deleted.length} model(s) not in the file: ${report.deleted.join(', ')}`);
+  } else if (report.missing.length > 0) {
+    console.warn(
+      `${report.missing.length} model(s) in device_models are not in the file (run with --prune to delete them): ` +
+        report.missing.join(', '),
+    );
+  }
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Device model sync failed:', error);
+  process.exit(1);
+});
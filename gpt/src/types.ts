@@ -1,3 +1,6 @@
+import { BusinessProfile } from './catalog/types';
+import { FieldSources } from './enrichment/types';
+
 export type EnrichedProduct = {
   id: string;
   name?: string;
@@ -12,12 +15,44 @@ export type EnrichedProduct = {
   sellerCity?: string;
   sellerCatalogueUrl?: string;
   imageCount?: number;
+  // Id of the matched entry in config/categories.json
+  category?: string | null;
   modelName?: string | null;
   storageGb?: string | null;
   color?: string | null;
   warranty?: string | null;
   batteryHealth?: string | null;
   condition?: string | null;
+  // Which of the fields above the rules and the LLM filled in
+  sources?: FieldSources;
+};
+
+export type SellerConfig = {
+  phone: string;
+  name?: string;
+  city?: string;
+  catalogueUrl?: string;
 };
 
+// Outcome of scraping one seller's catalog. EMPTY means the catalog was
+// fetched but had no matching products; FAILED/TIMEOUT mean it could not be
+// fetched at all, so existing products must not be treated as removed.
+export type SellerOutcome = 'OK' | 'EMPTY' | 'FAILED' | 'TIMEOUT';
 
+export type SellerScrapeResult = {
+  phone: string;
+  name?: string;
+  city?: string;
+  catalogueUrl?: string;
+  outcome: SellerOutcome;
+  attempts: number;
+  productsTotal: number;
+  productsMatched: number;
+  durationMs: number;
+  error?: string;
+  warnings?: string[];
+  // Undefined when the profile was not fetched; null for non-business accounts
+  profile?: BusinessProfile | null;
+  // Catalog session (e.g. WhatsApp account) that produced this result
+  session?: string;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,city\nA,Mumbai\nB,Pune')).toEqual([
+      ['name', 'city'],
+      ['A', 'Mumbai'],
+      ['B', 'Pune'],
+    ]);
+  });
+
+  it('keeps commas, escaped quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('name,notes\n"Shop, Ltd","says ""hi""\nand bye"')).toEqual([
+      ['name', 'notes'],
+      ['Shop, Ltd', 'says "hi"\nand bye'],
+    ]);
+  });
+
+  it('handles CRLF line endings and a UTF-8 BOM', () => {
+    expect(parseCsv('\uFEFFname,city\r\nA,Mumbai\r\n')).toEqual([
+      ['name', 'city'],
+      ['A', 'Mumbai'],
+    ]);
+  });
+
+  it('drops blank lines but keeps empty fields', () => {
+    expect(parseCsv('a,b\n\n , \n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+  });
+});
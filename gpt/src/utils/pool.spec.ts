@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { runPool } from './pool';
+import { sleep } from './retry';
+
+describe('runPool', () => {
+  it('keeps at most `concurrency` workers in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    await runPool([5, 1, 3, 1, 2, 1], 2, async (delay) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(delay);
+      inFlight -= 1;
+    });
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('returns results in the order of the items, not of completion', async () => {
+    const results = await runPool([30, 10, 20], 3, async (delay, index) => {
+      await sleep(delay);
+      return `${index}:${delay}`;
+    });
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('runs one worker when concurrency is below 1', async () => {
+    const order: number[] = [];
+    await runPool([1, 2, 3], 0, async (item) => {
+      order.push(item);
+    });
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('handles no items', async () => {
+    expect(await runPool([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('rejects when a worker throws', async () => {
+    await expect(
+      runPool([1, 2], 2, async (item) => {
+        if (item === 2) throw new Error('boom');
+        return item;
+      }),
+    ).rejects.toThrow('boom');
+  });
+});
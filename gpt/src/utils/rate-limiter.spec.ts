@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Resolves `acquire()` calls and records when each one got through
+  function track(limiter: RateLimiter, count: number): number[] {
+    const startedAt: number[] = [];
+    for (let i = 0; i < count; i++) {
+      limiter.acquire().then(() => startedAt.push(Date.now()));
+    }
+    return startedAt;
+  }
+
+  it('spaces calls evenly across the minute', async () => {
+    const startedAt = track(new RateLimiter(60), 3);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(startedAt).toEqual([0, 1000, 2000]);
+  });
+
+  it('does not make up for idle time with a burst', async () => {
+    const limiter = new RateLimiter(30);
+    await limiter.acquire();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    const startedAt = track(limiter, 2);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(startedAt).toEqual([10000, 12000]);
+  });
+
+  it('lets every call through at once when disabled', async () => {
+    const startedAt = track(new RateLimiter(0), 5);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(startedAt).toEqual([0, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,23 @@
+import { sleep } from './retry';
+
+// Spaces calls evenly so that at most `requestsPerMinute` start per minute,
+// no matter how many workers share the limiter. 0 disables limiting.
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerMinute: number) {
+    this.intervalMs = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.intervalMs === 0) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export class TimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export type RetryOptions = {
+  retries: number; // additional attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number; // per attempt, 0 disables
+  isFatal?: (err: unknown) => boolean; // errors not worth retrying
+};
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  if (timeoutMs <= 0) return promise;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(label, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs `fn` until it succeeds or the attempts run out, backing off
+// exponentially (with jitter) between attempts. Rethrows the last error.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  label: string,
+): Promise<{ value: T; attempts: number }> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+    try {
+      const value = await withTimeout(fn(), options.timeoutMs, label);
+      return { value, attempts: attempt };
+    } catch (err) {
+      lastError = err;
+      if (attempt > options.retries || options.isFatal?.(err)) break;
+
+      const backoff = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+      const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      console.warn(
+        `${label} failed (attempt ${attempt}/${options.retries + 1}): ${
+          err instanceof Error ? err.message : err
+        }. Retrying in ${delay}ms...`,
+      );
+      await sleep(delay);
+    }
+  }
+
+  throw lastError;
+}
@@ -51,6 +51,9 @@ npx prisma generate
 echo "  -> Building Next.js app..."
 npm run build
 
+echo "  -> Building pipeline worker..."
+npm run build:worker
+
 echo "  -> Dashboard ready!"
 
 # ==================== RESTART PM2 ====================
@@ -66,6 +69,9 @@ if command -v pm2 &> /dev/null; then
     # Restart dashboard
     pm2 restart wp-dashboard --update-env 2>/dev/null || pm2 restart dashboard --update-env 2>/dev/null || echo "  -> Warning: Could not restart dashboard (may not be running)"
 
+    # Start the pipeline worker, which servers deployed before it was added do not run yet
+    pm2 startOrRestart ecosystem.config.js --only wp-worker --update-env || echo "  -> Warning: Could not start the pipeline worker"
+
     echo ""
     pm2 status
 else
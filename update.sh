@@ -19,9 +19,13 @@ cd ${APP_DIR}/dashboard
 npm install
 npx prisma generate
 npm run build
+npm run build:worker
 
 echo "=== Restarting services ==="
-pm2 restart dashboard
+# startOrRestart also starts apps this update introduces (wp-worker on older servers)
+cd ${APP_DIR}
+pm2 startOrRestart ecosystem.config.js --only wp-dashboard
+pm2 startOrRestart ecosystem.config.js --only wp-worker
 
 echo "=== Done! ==="
 pm2 status